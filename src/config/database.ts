@@ -1,38 +1,331 @@
 import sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { promisify } from 'util';
 import path from 'path';
+import { pathToFileURL } from 'url';
+import { sqliteQueryDuration } from './metrics';
 import { Movie } from '../models/movie';
-import { Rating } from '../models/rating';
+import { MovieRatingSummary, Rating } from '../models/rating';
 import { MovieEnrichment } from '../models/movieEnrichment';
+import { MovieEmbedding } from '../models/movieEmbedding';
+import { EnrichmentProvenance, EnrichmentVersion } from '../models/enrichmentProvenance';
+import { EnrichmentDeadLetter, EnrichmentJob, EnrichmentJobFailure } from '../models/enrichmentJob';
+import { UserProfile } from '../models/userProfile';
+import { RecommendationFilters } from '../models/recommendationFilters';
+import { QuerySession, QuerySessionMessage } from '../models/querySession';
+import { LLMUsageRecord, UsageBreakdown, UsagePeriod, UsageTotals } from '../models/llmUsage';
+import { MovieListItem, MovieListQuery, MovieSortField } from '../models/movieCatalog';
+import { SampleDistribution, SamplingCandidate } from '../models/enrichmentSampling';
+import { Company, CompanyCredit, CompanyListItem, CompanyListQuery, CompanySortField } from '../models/company';
+import { parseCompanies } from '../utils/movieFields';
+import { ENRICHMENT_ATTRIBUTES, attributeColumnType } from './enrichmentAttributes';
+
+const ENRICHMENT_PROVENANCE_COLUMNS: Record<string, string> = {
+  version: 'INTEGER',
+  model: 'TEXT',
+  promptVersion: 'TEXT',
+  temperature: 'REAL',
+  inputSnapshot: 'TEXT',
+  rawResponse: 'TEXT',
+  promptTokens: 'INTEGER',
+  completionTokens: 'INTEGER',
+  totalTokens: 'INTEGER',
+  createdAt: 'TEXT'
+};
+
+const ENRICHMENT_ATTRIBUTE_COLUMNS: Record<string, string> = Object.fromEntries(
+  ENRICHMENT_ATTRIBUTES.map(attribute => [attribute.name, attributeColumnType(attribute)])
+);
+
+const ENRICHMENT_COLUMNS = [
+  'movieId',
+  ...Object.keys(ENRICHMENT_ATTRIBUTE_COLUMNS),
+  ...Object.keys(ENRICHMENT_PROVENANCE_COLUMNS)
+];
+
+const ENRICHMENT_SELECT = Object.keys(ENRICHMENT_ATTRIBUTE_COLUMNS).map(name => `e.${name}`).join(', ');
+
+const USER_PROFILE_COLUMNS = [
+  'userId',
+  'version',
+  'ratingCount',
+  'latestRatingTimestamp',
+  'favoriteGenres',
+  'averageRating',
+  'preferredEmotionalTones',
+  'budgetPreference',
+  'summary',
+  'model',
+  'createdAt'
+];
+
+type UserProfileRow = Omit<UserProfile, 'favoriteGenres' | 'preferredEmotionalTones'> & {
+  favoriteGenres: string;
+  preferredEmotionalTones: string;
+};
+
+const USAGE_TOTALS_SELECT = `
+  COUNT(*) as calls,
+  COALESCE(SUM(promptTokens), 0) as promptTokens,
+  COALESCE(SUM(completionTokens), 0) as completionTokens,
+  COALESCE(SUM(totalTokens), 0) as totalTokens,
+  COALESCE(SUM(costUsd), 0) as costUsd`;
+
+type QuerySessionRow = Omit<QuerySession, 'preferences'> & { preferences: string | null };
+type QuerySessionMessageRow = Omit<QuerySessionMessage, 'movies'> & { movies: string | null };
+
+const QUERY_SESSION_SELECT = `
+  s.id, s.userId, s.preferences, s.summary, s.summarizedThroughId, s.createdAt, s.updatedAt,
+  (SELECT COUNT(*) FROM query_session_messages qm WHERE qm.sessionId = s.id) as messageCount`;
+
+type EnrichmentJobRow = Omit<EnrichmentJob, 'selection' | 'options' | 'movieIds' | 'sample'> & {
+  selection: string | null;
+  options: string | null;
+  movieIds: string | null;
+  sample: string | null;
+};
+
+// Schema name the ratings DB is attached under on the read-only connection
+export const ANALYTICS_RATINGS_SCHEMA = 'ratings_db';
+
+// How long a write waits for another connection's transaction, e.g. a
+// route module building a derived table while another builds the same one
+const BUSY_TIMEOUT_MS = 10_000;
+
+// Trigger bodies keeping movie_rating_stats in step with the ratings table
+const RATING_STATS_ADD = `
+  INSERT INTO movie_rating_stats (movieId, ratingCount, ratingTotal, averageRating)
+  VALUES (new.movieId, 1, new.rating, new.rating)
+  ON CONFLICT (movieId) DO UPDATE SET
+    ratingCount = ratingCount + 1,
+    ratingTotal = ratingTotal + excluded.ratingTotal,
+    averageRating = (ratingTotal + excluded.ratingTotal) / (ratingCount + 1);`;
+
+const RATING_STATS_REMOVE = `
+  UPDATE movie_rating_stats SET
+    ratingCount = ratingCount - 1,
+    ratingTotal = ratingTotal - old.rating,
+    averageRating = CASE WHEN ratingCount > 1 THEN (ratingTotal - old.rating) / (ratingCount - 1) ELSE 0 END
+  WHERE movieId = old.movieId;
+  DELETE FROM movie_rating_stats WHERE movieId = old.movieId AND ratingCount <= 0;`;
+
+export const MOVIE_SORT_FIELDS: MovieSortField[] = ['relevance', 'releaseDate', 'revenue', 'budget', 'averageRating', 'ratingCount', 'title'];
+
+const MOVIE_SORT_COLUMNS: Record<MovieSortField, string> = {
+  relevance: 'fts.rank',
+  releaseDate: 'm.releaseDate',
+  revenue: 'm.revenue',
+  budget: 'm.budget',
+  averageRating: 'r.averageRating',
+  ratingCount: 'r.ratingCount',
+  title: 'm.title'
+};
+
+export const COMPANY_SORT_FIELDS: CompanySortField[] = ['movieCount', 'name', 'totalRevenue', 'averageRating'];
+
+const COMPANY_SORT_COLUMNS: Record<CompanySortField, string> = {
+  movieCount: 'movieCount',
+  name: 'c.name COLLATE NOCASE',
+  totalRevenue: 'totalRevenue',
+  averageRating: 'averageRating'
+};
+
+/**
+ * WHERE conditions for recommendation filters over `movies m LEFT JOIN
+ * movie_enrichments e`. Conditions on enrichment columns never match
+ * unenriched movies.
+ */
+const buildFilterConditions = (filters: RecommendationFilters): { conditions: string[]; params: any[] } => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+  // Genres are stored as JSON [{ id, name }] or pipe-separated names
+  const genreMatch = "(m.genres LIKE ? OR '|' || m.genres || '|' LIKE ?)";
+  const genreParams = (genre: string) => [`%"${genre}"%`, `%|${genre}|%`];
+
+  if (filters.includeGenres) {
+    conditions.push(`(${filters.includeGenres.map(() => genreMatch).join(' OR ')})`);
+    filters.includeGenres.forEach(g => params.push(...genreParams(g)));
+  }
+  for (const genre of filters.excludeGenres || []) {
+    conditions.push(`NOT ${genreMatch}`);
+    params.push(...genreParams(genre));
+  }
+
+  const year = 'CAST(substr(m.releaseDate, 1, 4) AS INTEGER)';
+  if (filters.yearFrom !== undefined) {
+    conditions.push(`${year} >= ?`);
+    params.push(filters.yearFrom);
+  }
+  if (filters.yearTo !== undefined) {
+    conditions.push(`${year} <= ?`);
+    params.push(filters.yearTo);
+  }
+  if (filters.runtimeMin !== undefined) {
+    conditions.push('m.runtime >= ?');
+    params.push(filters.runtimeMin);
+  }
+  if (filters.runtimeMax !== undefined) {
+    conditions.push('m.runtime <= ?');
+    params.push(filters.runtimeMax);
+  }
+  if (filters.languages) {
+    conditions.push(`lower(m.language) IN (${placeholders(filters.languages)})`);
+    params.push(...filters.languages);
+  }
+
+  const categories: [string, string[] | undefined][] = [
+    ['budgetTier', filters.budgetTiers],
+    ['revenueTier', filters.revenueTiers],
+    ['awardPotential', filters.awardPotential]
+  ];
+  for (const [column, values] of categories) {
+    if (values) {
+      conditions.push(`e.${column} IN (${placeholders(values)})`);
+      params.push(...values);
+    }
+  }
+
+  // Emotional genres are stored as "dark, intense"
+  if (filters.emotionalGenres) {
+    conditions.push(`(${filters.emotionalGenres.map(() => "(', ' || e.emotionalGenres || ',') LIKE ?").join(' OR ')})`);
+    params.push(...filters.emotionalGenres.map(tone => `%, ${tone},%`));
+  }
+  if (filters.minEffectivenessScore !== undefined) {
+    conditions.push('e.productionEffectivenessScore >= ?');
+    params.push(filters.minEffectivenessScore);
+  }
+
+  return { conditions, params };
+};
 
 class Database {
   private moviesDb: sqlite3.Database;
   private ratingsDb: sqlite3.Database;
+  private moviesDbPath: string;
+  private ratingsDbPath: string;
+  private analyticsDb?: sqlite3.Database;
+  private analyticsReady?: Promise<sqlite3.Database>;
+  // Per connection, the last statement or transaction waiting for it
+  private connectionQueues = new Map<sqlite3.Database, Promise<void>>();
+  // The connection whose transaction the current async call chain is in
+  private transactionScope = new AsyncLocalStorage<sqlite3.Database>();
 
   constructor(moviesDbPath: string, ratingsDbPath: string) {
     this.moviesDb = new sqlite3.Database(moviesDbPath);
     this.ratingsDb = new sqlite3.Database(ratingsDbPath);
+    this.moviesDb.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    this.ratingsDb.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    this.moviesDbPath = moviesDbPath;
+    this.ratingsDbPath = ratingsDbPath;
   }
 
   // Helper to promisify database operations
   private runQuery<T>(db: sqlite3.Database, query: string, params: any[] = []): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-      db.all(query, params, (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows as T[]);
+    return this.exclusive(db, () => {
+      const done = sqliteQueryDuration.startTimer({ database: this.databaseName(db), operation: 'query' });
+      return new Promise<T[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          done();
+          if (err) reject(err);
+          else resolve(rows as T[]);
+        });
       });
     });
   }
 
   private runStatement(db: sqlite3.Database, query: string, params: any[] = []): Promise<void> {
-    return new Promise((resolve, reject) => {
-      db.run(query, params, (err) => {
-        if (err) reject(err);
-        else resolve();
+    return this.exclusive(db, () => {
+      const done = sqliteQueryDuration.startTimer({ database: this.databaseName(db), operation: 'statement' });
+      return new Promise<void>((resolve, reject) => {
+        db.run(query, params, (err) => {
+          done();
+          if (err) reject(err);
+          else resolve();
+        });
       });
     });
   }
 
+  /**
+   * Run an INSERT and return the new row's id
+   */
+  private runInsert(db: sqlite3.Database, query: string, params: any[] = []): Promise<number> {
+    return this.exclusive(db, () => {
+      const done = sqliteQueryDuration.startTimer({ database: this.databaseName(db), operation: 'statement' });
+      return new Promise<number>((resolve, reject) => {
+        db.run(query, params, function (err) {
+          done();
+          if (err) reject(err);
+          else resolve(this.lastID);
+        });
+      });
+    });
+  }
+
+  /**
+   * Run work in a BEGIN IMMEDIATE transaction, rolled back if it throws.
+   * The connection is held for the whole transaction, so statements from
+   * other requests wait for it instead of joining it, and a second
+   * transaction on the same connection waits its turn.
+   */
+  private transaction<T>(db: sqlite3.Database, work: () => Promise<T>): Promise<T> {
+    return this.exclusive(db, () => this.transactionScope.run(db, async () => {
+      await this.runStatement(db, 'BEGIN IMMEDIATE');
+      try {
+        const result = await work();
+        await this.runStatement(db, 'COMMIT');
+        return result;
+      } catch (error) {
+        await this.runStatement(db, 'ROLLBACK');
+        throw error;
+      }
+    }));
+  }
+
+  /**
+   * Run work once every earlier statement or transaction queued on the
+   * connection has finished. Work inside a transaction on the connection
+   * is part of it and runs straight away.
+   */
+  private async exclusive<T>(db: sqlite3.Database, work: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore() === db) return work();
+
+    const previous = this.connectionQueues.get(db) || Promise.resolve();
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const queued = previous.then(() => released);
+    this.connectionQueues.set(db, queued);
+
+    await previous;
+    try {
+      return await work();
+    } finally {
+      release();
+      if (this.connectionQueues.get(db) === queued) this.connectionQueues.delete(db);
+    }
+  }
+
+  private databaseName(db: sqlite3.Database): string {
+    if (db === this.moviesDb) return 'movies';
+    return db === this.ratingsDb ? 'ratings' : 'analytics';
+  }
+
+  /**
+   * Add columns introduced after a table was first created
+   */
+  private async addMissingColumns(db: sqlite3.Database, table: string, columns: Record<string, string>): Promise<void> {
+    const existing = await this.runQuery<{ name: string }>(db, `PRAGMA table_info(${table})`);
+    const names = new Set(existing.map(c => c.name));
+
+    for (const [name, type] of Object.entries(columns)) {
+      if (!names.has(name)) {
+        await this.runStatement(db, `ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+      }
+    }
+  }
+
   // Movies DB queries
   async getMovies(limit?: number, offset?: number): Promise<Movie[]> {
     let query = 'SELECT * FROM movies';
@@ -69,6 +362,281 @@ class Database {
     );
   }
 
+  /**
+   * Genres and financials of the whole catalog, for ranking movies within their genres
+   */
+  async getMovieGenreFinancials(): Promise<Pick<Movie, 'movieId' | 'genres' | 'budget' | 'revenue'>[]> {
+    return this.runQuery<Pick<Movie, 'movieId' | 'genres' | 'budget' | 'revenue'>>(
+      this.moviesDb,
+      'SELECT movieId, genres, budget, revenue FROM movies'
+    );
+  }
+
+  /**
+   * Full-text index over movie titles and overviews, kept in sync with the
+   * movies table by triggers. Built from the table the first time.
+   */
+  async initializeMovieSearchIndex(): Promise<void> {
+    const existing = await this.runQuery<{ name: string }>(
+      this.moviesDb,
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'movies_fts'"
+    );
+
+    await this.runStatement(this.moviesDb, `
+      CREATE VIRTUAL TABLE IF NOT EXISTS movies_fts
+      USING fts5(title, overview, content = 'movies', content_rowid = 'movieId')
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TRIGGER IF NOT EXISTS movies_fts_insert AFTER INSERT ON movies BEGIN
+        INSERT INTO movies_fts (rowid, title, overview) VALUES (new.movieId, new.title, new.overview);
+      END
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TRIGGER IF NOT EXISTS movies_fts_delete AFTER DELETE ON movies BEGIN
+        INSERT INTO movies_fts (movies_fts, rowid, title, overview) VALUES ('delete', old.movieId, old.title, old.overview);
+      END
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TRIGGER IF NOT EXISTS movies_fts_update AFTER UPDATE ON movies BEGIN
+        INSERT INTO movies_fts (movies_fts, rowid, title, overview) VALUES ('delete', old.movieId, old.title, old.overview);
+        INSERT INTO movies_fts (rowid, title, overview) VALUES (new.movieId, new.title, new.overview);
+      END
+    `);
+
+    if (existing.length === 0) {
+      await this.runStatement(this.moviesDb, "INSERT INTO movies_fts (movies_fts) VALUES ('rebuild')");
+    }
+  }
+
+  /**
+   * One page of the catalog with each movie's rating average and count.
+   * Runs on the analytics connection, which sees both databases. `search`
+   * must already be an FTS5 query.
+   */
+  async searchMovies(query: MovieListQuery): Promise<{ movies: MovieListItem[]; total: number }> {
+    const db = await this.openAnalytics();
+    const { conditions, params } = buildFilterConditions({
+      includeGenres: query.genre ? [query.genre] : undefined,
+      languages: query.language ? [query.language.toLowerCase()] : undefined,
+      yearFrom: query.yearFrom,
+      yearTo: query.yearTo
+    });
+    if (query.status) {
+      conditions.push('lower(m.status) = lower(?)');
+      params.push(query.status);
+    }
+
+    const searchJoin = query.search
+      ? 'INNER JOIN (SELECT rowid AS movieId, rank FROM movies_fts WHERE movies_fts MATCH ?) fts ON fts.movieId = m.movieId'
+      : '';
+    const searchParams = query.search ? [query.search] : [];
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Relevance is best-first whatever the order; unknown values sort last either way
+    const sortColumn = MOVIE_SORT_COLUMNS[query.sort === 'relevance' && !query.search ? 'title' : query.sort];
+    const direction = query.sort === 'relevance' ? 'ASC' : query.order.toUpperCase();
+    const known = ['revenue', 'budget'].includes(query.sort) ? `${sortColumn} > 0` : `COALESCE(${sortColumn}, '') <> ''`;
+
+    const [rows, totals] = await Promise.all([
+      this.runQuery<MovieListItem>(db, `
+        SELECT m.*, r.averageRating, COALESCE(r.ratingCount, 0) AS ratingCount
+        FROM movies m
+        ${searchJoin}
+        LEFT JOIN (
+          SELECT movieId, ROUND(averageRating, 2) AS averageRating, ratingCount
+          FROM ${ANALYTICS_RATINGS_SCHEMA}.movie_rating_stats
+        ) r ON r.movieId = m.movieId
+        ${where}
+        ORDER BY (${known}) DESC, ${sortColumn} ${direction}, m.movieId
+        LIMIT ? OFFSET ?
+      `, [...searchParams, ...params, query.limit, query.offset]),
+      this.runQuery<{ total: number }>(db, `
+        SELECT COUNT(*) AS total FROM movies m ${searchJoin} ${where}
+      `, [...searchParams, ...params])
+    ]);
+
+    return { movies: rows, total: totals[0].total };
+  }
+
+  // Company index
+  /**
+   * Production companies normalized out of movies.productionCompanies, with
+   * a movie-company join that keeps each company's billing position. Built
+   * from the catalog the first time; run `npm run companies:rebuild` (or
+   * call rebuildCompanyIndex) after changing movies' production companies.
+   */
+  async initializeCompanyTables(): Promise<void> {
+    const existing = await this.runQuery<{ name: string }>(
+      this.moviesDb,
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'movie_companies'"
+    );
+
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS companies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE
+      )
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS movie_companies (
+        movieId INTEGER NOT NULL,
+        companyId INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (movieId, companyId)
+      )
+    `);
+    await this.runStatement(
+      this.moviesDb,
+      'CREATE INDEX IF NOT EXISTS idx_movie_companies_company ON movie_companies (companyId, movieId)'
+    );
+
+    if (existing.length === 0) {
+      await this.rebuildCompanyIndex();
+    }
+  }
+
+  /**
+   * Re-derive the company tables from the catalog in one transaction.
+   * Company ids are kept for names that are still credited.
+   */
+  async rebuildCompanyIndex(): Promise<{ companies: number; credits: number }> {
+    const credits = await this.transaction(this.moviesDb, async () => {
+      const movies = await this.runQuery<Pick<Movie, 'movieId' | 'productionCompanies'>>(
+        this.moviesDb,
+        'SELECT movieId, productionCompanies FROM movies'
+      );
+
+      await this.runStatement(this.moviesDb, 'DELETE FROM movie_companies');
+
+      const companyIds = new Map<string, number>();
+      const rows = await this.runQuery<Company>(this.moviesDb, 'SELECT id, name FROM companies');
+      rows.forEach(c => companyIds.set(c.name, c.id));
+
+      let inserted = 0;
+      for (const movie of movies) {
+        // A company credited twice on one movie keeps its first position
+        const names = Array.from(new Set(parseCompanies(movie)));
+        for (let position = 0; position < names.length; position++) {
+          let companyId = companyIds.get(names[position]);
+          if (companyId === undefined) {
+            companyId = await this.runInsert(this.moviesDb, 'INSERT INTO companies (name) VALUES (?)', [names[position]]);
+            companyIds.set(names[position], companyId);
+          }
+          await this.runStatement(
+            this.moviesDb,
+            'INSERT INTO movie_companies (movieId, companyId, position) VALUES (?, ?, ?)',
+            [movie.movieId, companyId, position]
+          );
+          inserted++;
+        }
+      }
+
+      await this.runStatement(
+        this.moviesDb,
+        'DELETE FROM companies WHERE id NOT IN (SELECT companyId FROM movie_companies)'
+      );
+      return inserted;
+    });
+
+    const counted = await this.runQuery<{ count: number }>(this.moviesDb, 'SELECT COUNT(*) as count FROM companies');
+    return { companies: counted[0].count, credits };
+  }
+
+
+  /**
+   * One page of companies with their catalog and rating totals. Runs on
+   * the analytics connection, which sees both databases.
+   */
+  async getCompanies(query: CompanyListQuery): Promise<{ companies: CompanyListItem[]; total: number }> {
+    const db = await this.openAnalytics();
+    const where = query.search ? "WHERE c.name LIKE ? ESCAPE '\\'" : '';
+    const params = query.search ? [`%${query.search.replace(/[\\%_]/g, c => `\\${c}`)}%`] : [];
+    const sortColumn = COMPANY_SORT_COLUMNS[query.sort];
+    const direction = query.order.toUpperCase();
+
+    const [rows, totals] = await Promise.all([
+      this.runQuery<CompanyListItem>(db, `
+        SELECT c.id, c.name,
+          COUNT(*) AS movieCount,
+          SUM(mc.position = 0) AS primaryCount,
+          SUM(CASE WHEN m.budget > 0 THEN m.budget ELSE 0 END) AS totalBudget,
+          SUM(CASE WHEN m.revenue > 0 THEN m.revenue ELSE 0 END) AS totalRevenue,
+          ROUND(SUM(r.ratingTotal) / SUM(r.ratingCount), 2) AS averageRating,
+          COALESCE(SUM(r.ratingCount), 0) AS ratingCount,
+          MIN(NULLIF(m.releaseDate, '')) AS firstReleaseDate,
+          MAX(NULLIF(m.releaseDate, '')) AS lastReleaseDate
+        FROM companies c
+        INNER JOIN movie_companies mc ON mc.companyId = c.id
+        INNER JOIN movies m ON m.movieId = mc.movieId
+        LEFT JOIN ${ANALYTICS_RATINGS_SCHEMA}.movie_rating_stats r ON r.movieId = m.movieId
+        ${where}
+        GROUP BY c.id
+        HAVING COUNT(*) >= ?
+        ORDER BY (${sortColumn} IS NOT NULL) DESC, ${sortColumn} ${direction}, c.id
+        LIMIT ? OFFSET ?
+      `, [...params, query.minMovies, query.limit, query.offset]),
+      this.runQuery<{ total: number }>(db, `
+        SELECT COUNT(*) AS total FROM (
+          SELECT c.id FROM companies c
+          INNER JOIN movie_companies mc ON mc.companyId = c.id
+          ${where}
+          GROUP BY c.id
+          HAVING COUNT(*) >= ?
+        )
+      `, [...params, query.minMovies])
+    ]);
+
+    return { companies: rows, total: totals[0].total };
+  }
+
+  async getCompanyById(companyId: number): Promise<Company | null> {
+    const rows = await this.runQuery<Company>(this.moviesDb, 'SELECT id, name FROM companies WHERE id = ?', [companyId]);
+    return rows[0] || null;
+  }
+
+  /**
+   * Every movie credited to a company, oldest release first, with its
+   * billing position and rating totals
+   */
+  async getCompanyMovies(companyId: number): Promise<(Movie & { position: number; ratingTotal: number | null; ratingCount: number })[]> {
+    const db = await this.openAnalytics();
+    return this.runQuery<Movie & { position: number; ratingTotal: number | null; ratingCount: number }>(db, `
+      SELECT m.*, mc.position, r.ratingTotal, COALESCE(r.ratingCount, 0) AS ratingCount
+      FROM movie_companies mc
+      INNER JOIN movies m ON m.movieId = mc.movieId
+      LEFT JOIN ${ANALYTICS_RATINGS_SCHEMA}.movie_rating_stats r ON r.movieId = m.movieId
+      WHERE mc.companyId = ?
+      ORDER BY COALESCE(m.releaseDate, '') = '', m.releaseDate, m.movieId
+    `, [companyId]);
+  }
+
+  /**
+   * Companies credited on each of the given movies, in billing order
+   */
+  async getMovieCompanies(movieIds: number[]): Promise<{ movieId: number; companyId: number; name: string; position: number }[]> {
+    const placeholders = movieIds.map(() => '?').join(',');
+    return this.runQuery<{ movieId: number; companyId: number; name: string; position: number }>(this.moviesDb, `
+      SELECT mc.movieId, mc.companyId, c.name, mc.position
+      FROM movie_companies mc
+      INNER JOIN companies c ON c.id = mc.companyId
+      WHERE mc.movieId IN (${placeholders})
+      ORDER BY mc.movieId, mc.position
+    `, movieIds);
+  }
+
+  /**
+   * Every company credit with the movie's release date and financials,
+   * oldest release first
+   */
+  async getCompanyCredits(): Promise<CompanyCredit[]> {
+    return this.runQuery<CompanyCredit>(this.moviesDb, `
+      SELECT mc.companyId, mc.movieId, mc.position, m.releaseDate, m.budget, m.revenue
+      FROM movie_companies mc
+      INNER JOIN movies m ON m.movieId = mc.movieId
+      ORDER BY m.releaseDate, m.movieId, mc.position
+    `);
+  }
+
   // Ratings DB queries
   async getRatingsByUserId(userId: number): Promise<Rating[]> {
     return this.runQuery<Rating>(
@@ -95,6 +663,139 @@ class Database {
     return result[0] || null;
   }
 
+  /**
+   * Number of ratings at each rating value, per movie
+   */
+  async getRatingCountsByValue(movieIds: number[]): Promise<{ movieId: number; rating: number; count: number }[]> {
+    const placeholders = movieIds.map(() => '?').join(',');
+    return this.runQuery<{ movieId: number; rating: number; count: number }>(
+      this.ratingsDb,
+      `SELECT movieId, rating, COUNT(*) as count FROM ratings WHERE movieId IN (${placeholders}) GROUP BY movieId, rating`,
+      movieIds
+    );
+  }
+
+  async getMovieRatingAverages(): Promise<{ movieId: number; avgRating: number; count: number }[]> {
+    return this.runQuery<{ movieId: number; avgRating: number; count: number }>(
+      this.ratingsDb,
+      'SELECT movieId, AVG(rating) as avgRating, COUNT(*) as count FROM ratings GROUP BY movieId'
+    );
+  }
+
+  // Materialized rating statistics
+  /**
+   * Per-movie rating count, total and average in the ratings DB, kept
+   * current by triggers on the ratings table so readers never aggregate
+   * every rating. Built with one grouped query the first time.
+   */
+  async initializeRatingStatsTable(): Promise<void> {
+    const existing = await this.runQuery<{ name: string }>(
+      this.ratingsDb,
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'movie_rating_stats'"
+    );
+
+    await this.runStatement(this.ratingsDb, `
+      CREATE TABLE IF NOT EXISTS movie_rating_stats (
+        movieId INTEGER PRIMARY KEY,
+        ratingCount INTEGER NOT NULL,
+        ratingTotal REAL NOT NULL,
+        averageRating REAL NOT NULL
+      )
+    `);
+    await this.runStatement(this.ratingsDb, `
+      CREATE TRIGGER IF NOT EXISTS movie_rating_stats_insert AFTER INSERT ON ratings BEGIN
+        ${RATING_STATS_ADD}
+      END
+    `);
+    await this.runStatement(this.ratingsDb, `
+      CREATE TRIGGER IF NOT EXISTS movie_rating_stats_delete AFTER DELETE ON ratings BEGIN
+        ${RATING_STATS_REMOVE}
+      END
+    `);
+    await this.runStatement(this.ratingsDb, `
+      CREATE TRIGGER IF NOT EXISTS movie_rating_stats_update AFTER UPDATE OF movieId, rating ON ratings BEGIN
+        ${RATING_STATS_REMOVE}
+        ${RATING_STATS_ADD}
+      END
+    `);
+
+    if (existing.length === 0) {
+      await this.rebuildRatingStats();
+    }
+  }
+
+  /**
+   * Recompute every movie's rating statistics in one grouped query
+   */
+  async rebuildRatingStats(): Promise<void> {
+    await this.transaction(this.ratingsDb, async () => {
+      await this.runStatement(this.ratingsDb, 'DELETE FROM movie_rating_stats');
+      await this.runStatement(this.ratingsDb, `
+        INSERT INTO movie_rating_stats (movieId, ratingCount, ratingTotal, averageRating)
+        SELECT movieId, COUNT(*), SUM(rating), AVG(rating) FROM ratings GROUP BY movieId
+      `);
+    });
+  }
+
+  /**
+   * Rating statistics of the given movies; movies nobody rated are absent
+   */
+  async getMovieRatingSummaries(movieIds: number[]): Promise<MovieRatingSummary[]> {
+    const placeholders = movieIds.map(() => '?').join(',');
+    return this.runQuery<MovieRatingSummary>(
+      this.ratingsDb,
+      `SELECT * FROM movie_rating_stats WHERE movieId IN (${placeholders})`,
+      movieIds
+    );
+  }
+
+  /**
+   * The first movies in catalog order that have at least one rating
+   */
+  async getMoviesWithRatings(limit: number): Promise<Movie[]> {
+    const db = await this.openAnalytics();
+    return this.runQuery<Movie>(db, `
+      SELECT m.* FROM movies m
+      WHERE m.movieId IN (SELECT movieId FROM ${ANALYTICS_RATINGS_SCHEMA}.movie_rating_stats)
+      ORDER BY m.movieId
+      LIMIT ?
+    `, [limit]);
+  }
+
+  /**
+   * Every movie with at least minRatings ratings, in catalog order, with
+   * the fields enrichment samples are drawn by
+   */
+  async getSamplingCandidates(minRatings: number = 1): Promise<SamplingCandidate[]> {
+    const db = await this.openAnalytics();
+    return this.runQuery<SamplingCandidate>(db, `
+      SELECT m.movieId, m.genres, m.releaseDate, m.budget, m.language, r.ratingCount
+      FROM movies m
+      JOIN ${ANALYTICS_RATINGS_SCHEMA}.movie_rating_stats r ON r.movieId = m.movieId
+      WHERE r.ratingCount >= ?
+      ORDER BY m.movieId
+    `, [Math.max(1, minRatings)]);
+  }
+
+  async getAllRatings(): Promise<Rating[]> {
+    return this.runQuery<Rating>(
+      this.ratingsDb,
+      'SELECT * FROM ratings ORDER BY timestamp'
+    );
+  }
+
+  /**
+   * Rating count and latest timestamp, used to tell whether a stored profile is stale
+   */
+  async getUserRatingSummary(userId: number): Promise<{ count: number; latestTimestamp: number | null }> {
+    const result = await this.runQuery<{ count: number; latestTimestamp: number | null }>(
+      this.ratingsDb,
+      'SELECT COUNT(*) as count, MAX(timestamp) as latestTimestamp FROM ratings WHERE userId = ?',
+      [userId]
+    );
+    return result[0];
+  }
+
   async getAllUsers(): Promise<number[]> {
     const result = await this.runQuery<{ userId: number }>(
       this.ratingsDb,
@@ -103,39 +804,199 @@ class Database {
     return result.map(r => r.userId);
   }
 
+  // Rating writes
+  async initializeRatingIndexes(): Promise<void> {
+    await this.runStatement(
+      this.ratingsDb,
+      'CREATE INDEX IF NOT EXISTS idx_ratings_user_movie ON ratings (userId, movieId)'
+    );
+  }
+
+  /**
+   * A user's latest rating of a movie. The dataset can hold several rows
+   * for one pair; the earlier ones are history.
+   */
+  async getRating(userId: number, movieId: number): Promise<Rating | null> {
+    const ratings = await this.runQuery<Rating>(
+      this.ratingsDb,
+      'SELECT * FROM ratings WHERE userId = ? AND movieId = ? ORDER BY timestamp DESC, ratingId DESC LIMIT 1',
+      [userId, movieId]
+    );
+    return ratings[0] || null;
+  }
+
+  async createRating(rating: Omit<Rating, 'ratingId'>): Promise<Rating> {
+    const ratingId = await this.runInsert(
+      this.ratingsDb,
+      'INSERT INTO ratings (userId, movieId, rating, timestamp) VALUES (?, ?, ?, ?)',
+      [rating.userId, rating.movieId, rating.rating, rating.timestamp]
+    );
+    return { ...rating, ratingId };
+  }
+
+  /**
+   * Replace a user's latest rating of a movie, leaving earlier ones as
+   * they were; false if they hadn't rated it
+   */
+  async updateRating(rating: Omit<Rating, 'ratingId'>): Promise<boolean> {
+    const existing = await this.getRating(rating.userId, rating.movieId);
+    if (!existing) return false;
+
+    await this.runStatement(
+      this.ratingsDb,
+      'UPDATE ratings SET rating = ?, timestamp = ? WHERE ratingId = ?',
+      [rating.rating, rating.timestamp, existing.ratingId]
+    );
+    return true;
+  }
+
+  /**
+   * Delete a user's latest rating of a movie; false if they hadn't rated it
+   */
+  async deleteRating(userId: number, movieId: number): Promise<boolean> {
+    const existing = await this.getRating(userId, movieId);
+    if (!existing) return false;
+
+    await this.runStatement(this.ratingsDb, 'DELETE FROM ratings WHERE ratingId = ?', [existing.ratingId]);
+    return true;
+  }
+
+  /**
+   * Create or replace many ratings in one transaction
+   */
+  async importRatings(ratings: Omit<Rating, 'ratingId'>[]): Promise<{ created: number; updated: number }> {
+    let created = 0;
+    let updated = 0;
+
+    await this.transaction(this.ratingsDb, async () => {
+      for (const rating of ratings) {
+        if (await this.updateRating(rating)) {
+          updated++;
+        } else {
+          await this.createRating(rating);
+          created++;
+        }
+      }
+    });
+
+    return { created, updated };
+  }
+
   // Enrichment table operations
   async initializeEnrichmentTable(): Promise<void> {
+    // Attribute columns come from the registry, so new attributes are added to existing tables
+    const dataColumns = Object.entries({ ...ENRICHMENT_ATTRIBUTE_COLUMNS, ...ENRICHMENT_PROVENANCE_COLUMNS })
+      .map(([name, type]) => `${name} ${type}`)
+      .join(',\n        ');
+
     const createTableQuery = `
       CREATE TABLE IF NOT EXISTS movie_enrichments (
         movieId INTEGER PRIMARY KEY,
-        awardPotential TEXT,
-        popularityQualityIndex REAL,
-        emotionalGenres TEXT,
-        productionCompanyRollingROI REAL,
-        productionEffectivenessScore REAL
+        ${dataColumns}
       )
     `;
     await this.runStatement(this.moviesDb, createTableQuery);
-  }
+    await this.addMissingColumns(this.moviesDb, 'movie_enrichments', {
+      ...ENRICHMENT_ATTRIBUTE_COLUMNS,
+      ...ENRICHMENT_PROVENANCE_COLUMNS,
+      // Set when the movie's ratings change after it was enriched; cleared by the next save
+      ratingsChangedAt: 'TEXT'
+    });
 
-  async saveEnrichment(enrichment: MovieEnrichment): Promise<void> {
-    const query = `
-      INSERT OR REPLACE INTO movie_enrichments
-      (movieId, awardPotential, popularityQualityIndex, emotionalGenres, productionCompanyRollingROI, productionEffectivenessScore)
-      VALUES (?, ?, ?, ?, ?, ?)
+    // Every version ever saved, including the current one
+    const createHistoryQuery = `
+      CREATE TABLE IF NOT EXISTS movie_enrichment_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        movieId INTEGER NOT NULL,
+        ${dataColumns},
+        UNIQUE (movieId, version)
+      )
     `;
-    await this.runStatement(this.moviesDb, query, [
-      enrichment.movieId,
-      enrichment.awardPotential,
-      enrichment.popularityQualityIndex,
-      enrichment.emotionalGenres,
-      enrichment.productionCompanyRollingROI,
-      enrichment.productionEffectivenessScore
-    ]);
+    await this.runStatement(this.moviesDb, createHistoryQuery);
+    await this.addMissingColumns(this.moviesDb, 'movie_enrichment_history', ENRICHMENT_ATTRIBUTE_COLUMNS);
+
+    // Rows saved before history existed become version 1
+    await this.runStatement(this.moviesDb, 'UPDATE movie_enrichments SET version = 1 WHERE version IS NULL');
+    await this.runStatement(this.moviesDb, `
+      INSERT INTO movie_enrichment_history (${ENRICHMENT_COLUMNS.join(', ')})
+      SELECT ${ENRICHMENT_COLUMNS.join(', ')} FROM movie_enrichments e
+      WHERE NOT EXISTS (SELECT 1 FROM movie_enrichment_history h WHERE h.movieId = e.movieId)
+    `);
+  }
+
+  /**
+   * Save a new version of a movie's enrichment. The current row is replaced
+   * and the version is appended to the history.
+   */
+  async saveEnrichment(
+    enrichment: MovieEnrichment,
+    provenance: Omit<EnrichmentProvenance, 'version'>
+  ): Promise<EnrichmentVersion> {
+    const latest = await this.runQuery<{ version: number | null }>(
+      this.moviesDb,
+      'SELECT MAX(version) as version FROM movie_enrichment_history WHERE movieId = ?',
+      [enrichment.movieId]
+    );
+    const record: EnrichmentVersion = {
+      ...enrichment,
+      ...provenance,
+      version: (latest[0]?.version || 0) + 1
+    };
+
+    const placeholders = ENRICHMENT_COLUMNS.map(() => '?').join(', ');
+    const values = ENRICHMENT_COLUMNS.map(column => (record as any)[column] ?? null);
+
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT INTO movie_enrichment_history (${ENRICHMENT_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+      values
+    );
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT OR REPLACE INTO movie_enrichments (${ENRICHMENT_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+      values
+    );
+
+    return record;
   }
 
-  async getEnrichment(movieId: number): Promise<MovieEnrichment | null> {
-    const enrichments = await this.runQuery<MovieEnrichment>(
+  async getEnrichmentHistory(movieId: number): Promise<EnrichmentVersion[]> {
+    return this.runQuery<EnrichmentVersion>(
+      this.moviesDb,
+      `SELECT ${ENRICHMENT_COLUMNS.join(', ')} FROM movie_enrichment_history WHERE movieId = ? ORDER BY version`,
+      [movieId]
+    );
+  }
+
+  /**
+   * Movies whose current enrichment came from a different prompt version
+   * or from ratings that have changed since
+   */
+  async getOutdatedEnrichmentMovieIds(promptVersion: string, limit: number): Promise<number[]> {
+    const rows = await this.runQuery<{ movieId: number }>(
+      this.moviesDb,
+      `SELECT movieId FROM movie_enrichments
+       WHERE promptVersion IS NULL OR promptVersion != ? OR ratingsChangedAt IS NOT NULL
+       ORDER BY movieId LIMIT ?`,
+      [promptVersion, limit]
+    );
+    return rows.map(r => r.movieId);
+  }
+
+  /**
+   * Flag enrichments built from rating statistics that are now out of date
+   */
+  async markEnrichmentRatingsChanged(movieIds: number[], changedAt: string): Promise<void> {
+    const placeholders = movieIds.map(() => '?').join(',');
+    await this.runStatement(
+      this.moviesDb,
+      `UPDATE movie_enrichments SET ratingsChangedAt = ? WHERE movieId IN (${placeholders})`,
+      [changedAt, ...movieIds]
+    );
+  }
+
+  async getEnrichment(movieId: number): Promise<EnrichmentVersion | null> {
+    const enrichments = await this.runQuery<EnrichmentVersion>(
       this.moviesDb,
       'SELECT * FROM movie_enrichments WHERE movieId = ?',
       [movieId]
@@ -152,17 +1013,634 @@ class Database {
 
   async getEnrichedMoviesWithDetails(): Promise<(Movie & MovieEnrichment)[]> {
     const query = `
-      SELECT m.*, e.awardPotential, e.popularityQualityIndex, e.emotionalGenres,
-             e.productionCompanyRollingROI, e.productionEffectivenessScore
+      SELECT m.*, ${ENRICHMENT_SELECT}
       FROM movies m
       INNER JOIN movie_enrichments e ON m.movieId = e.movieId
     `;
     return this.runQuery<Movie & MovieEnrichment>(this.moviesDb, query);
   }
 
+  async getMovieIdsMatchingFilters(filters: RecommendationFilters): Promise<number[]> {
+    const { conditions, params } = buildFilterConditions(filters);
+    const query = `
+      SELECT m.movieId
+      FROM movies m
+      LEFT JOIN movie_enrichments e ON m.movieId = e.movieId
+      ${conditions.length > 0 ? `WHERE ${conditions.join('\n        AND ')}` : ''}
+    `;
+    const rows = await this.runQuery<{ movieId: number }>(this.moviesDb, query, params);
+    return rows.map(r => r.movieId);
+  }
+
+  async getMoviesWithEnrichmentByIds(movieIds: number[]): Promise<(Movie & Partial<MovieEnrichment>)[]> {
+    const placeholders = movieIds.map(() => '?').join(',');
+    const query = `
+      SELECT m.*, ${ENRICHMENT_SELECT}
+      FROM movies m
+      LEFT JOIN movie_enrichments e ON m.movieId = e.movieId
+      WHERE m.movieId IN (${placeholders})
+    `;
+    return this.runQuery<Movie & Partial<MovieEnrichment>>(this.moviesDb, query, movieIds);
+  }
+
+  // Embedding table operations
+  async initializeEmbeddingTable(): Promise<void> {
+    const createTableQuery = `
+      CREATE TABLE IF NOT EXISTS movie_embeddings (
+        movieId INTEGER NOT NULL,
+        model TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        contentHash TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        PRIMARY KEY (movieId, model)
+      )
+    `;
+    await this.runStatement(this.moviesDb, createTableQuery);
+  }
+
+  async saveEmbedding(embedding: MovieEmbedding): Promise<void> {
+    const query = `
+      INSERT OR REPLACE INTO movie_embeddings
+      (movieId, model, dimensions, vector, contentHash, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `;
+    await this.runStatement(this.moviesDb, query, [
+      embedding.movieId,
+      embedding.model,
+      embedding.dimensions,
+      Buffer.from(new Float32Array(embedding.vector).buffer),
+      embedding.contentHash,
+      embedding.updatedAt
+    ]);
+  }
+
+  async getEmbeddingHashes(model: string): Promise<Map<number, string>> {
+    const rows = await this.runQuery<{ movieId: number; contentHash: string }>(
+      this.moviesDb,
+      'SELECT movieId, contentHash FROM movie_embeddings WHERE model = ?',
+      [model]
+    );
+    return new Map(rows.map(r => [r.movieId, r.contentHash]));
+  }
+
+  /**
+   * Row count and latest write of a model's embeddings, which change
+   * whenever embeddings are added or re-embedded
+   */
+  async getEmbeddingVersion(model: string): Promise<string> {
+    const rows = await this.runQuery<{ count: number; updatedAt: string | null }>(
+      this.moviesDb,
+      'SELECT COUNT(*) AS count, MAX(updatedAt) AS updatedAt FROM movie_embeddings WHERE model = ?',
+      [model]
+    );
+    return `${rows[0].count}:${rows[0].updatedAt || ''}`;
+  }
+
+  async getEmbeddingsWithMovies(model: string): Promise<(Pick<Movie, 'movieId' | 'genres' | 'language' | 'releaseDate'> & { vector: Float32Array })[]> {
+    const rows = await this.runQuery<Pick<Movie, 'movieId' | 'genres' | 'language' | 'releaseDate'> & { vector: Buffer }>(
+      this.moviesDb,
+      `SELECT e.movieId, e.vector, m.genres, m.language, m.releaseDate
+       FROM movie_embeddings e
+       INNER JOIN movies m ON m.movieId = e.movieId
+       WHERE e.model = ?`,
+      [model]
+    );
+    return rows.map(r => ({
+      ...r,
+      // Copy out of the Buffer, whose offset may not be 4-byte aligned
+      vector: new Float32Array(r.vector.buffer.slice(r.vector.byteOffset, r.vector.byteOffset + r.vector.byteLength))
+    }));
+  }
+
+  // Enrichment job operations
+  async initializeJobTables(): Promise<void> {
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS enrichment_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        requestedCount INTEGER NOT NULL,
+        selection TEXT,
+        movieIds TEXT,
+        cursor INTEGER NOT NULL DEFAULT 0,
+        succeeded INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        currentMovieId INTEGER,
+        currentMovieTitle TEXT,
+        elapsedMs INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        finishedAt TEXT
+      )
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS enrichment_job_failures (
+        jobId TEXT NOT NULL,
+        movieId INTEGER NOT NULL,
+        title TEXT,
+        error TEXT,
+        failedAt TEXT NOT NULL
+      )
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS enrichment_dead_letters (
+        movieId INTEGER PRIMARY KEY,
+        title TEXT,
+        jobId TEXT,
+        error TEXT,
+        attempts INTEGER NOT NULL,
+        failedAt TEXT NOT NULL
+      )
+    `);
+    await this.addMissingColumns(this.moviesDb, 'enrichment_jobs', { selection: 'TEXT', options: 'TEXT', sample: 'TEXT' });
+  }
+
+  async saveJob(job: EnrichmentJob): Promise<void> {
+    const query = `
+      INSERT OR REPLACE INTO enrichment_jobs
+      (id, status, requestedCount, selection, options, movieIds, sample, cursor, succeeded, failed, currentMovieId,
+       currentMovieTitle, elapsedMs, error, createdAt, updatedAt, finishedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    await this.runStatement(this.moviesDb, query, [
+      job.id,
+      job.status,
+      job.requestedCount,
+      JSON.stringify(job.selection),
+      JSON.stringify(job.options),
+      job.movieIds ? JSON.stringify(job.movieIds) : null,
+      job.sample ? JSON.stringify(job.sample) : null,
+      job.cursor,
+      job.succeeded,
+      job.failed,
+      job.currentMovieId,
+      job.currentMovieTitle,
+      job.elapsedMs,
+      job.error,
+      job.createdAt,
+      job.updatedAt,
+      job.finishedAt
+    ]);
+  }
+
+  async getJob(jobId: string): Promise<EnrichmentJob | null> {
+    const jobs = await this.runQuery<EnrichmentJobRow>(
+      this.moviesDb,
+      'SELECT * FROM enrichment_jobs WHERE id = ?',
+      [jobId]
+    );
+    return jobs[0] ? this.parseJobRow(jobs[0]) : null;
+  }
+
+  async getJobs(statuses?: string[]): Promise<EnrichmentJob[]> {
+    let query = 'SELECT * FROM enrichment_jobs';
+    if (statuses && statuses.length > 0) {
+      query += ` WHERE status IN (${statuses.map(() => '?').join(',')})`;
+    }
+    query += ' ORDER BY createdAt DESC';
+
+    const jobs = await this.runQuery<EnrichmentJobRow>(this.moviesDb, query, statuses || []);
+    return jobs.map(j => this.parseJobRow(j));
+  }
+
+  private parseJobRow(row: EnrichmentJobRow): EnrichmentJob {
+    return {
+      ...row,
+      selection: row.selection ? JSON.parse(row.selection) : {},
+      options: row.options ? JSON.parse(row.options) : {},
+      movieIds: row.movieIds ? JSON.parse(row.movieIds) : null,
+      sample: row.sample ? JSON.parse(row.sample) as SampleDistribution : null
+    };
+  }
+
+  async saveJobFailure(jobId: string, failure: EnrichmentJobFailure): Promise<void> {
+    await this.runStatement(
+      this.moviesDb,
+      'INSERT INTO enrichment_job_failures (jobId, movieId, title, error, failedAt) VALUES (?, ?, ?, ?, ?)',
+      [jobId, failure.movieId, failure.title, failure.error, failure.failedAt]
+    );
+  }
+
+  async getJobFailures(jobId: string): Promise<EnrichmentJobFailure[]> {
+    return this.runQuery<EnrichmentJobFailure>(
+      this.moviesDb,
+      'SELECT movieId, title, error, failedAt FROM enrichment_job_failures WHERE jobId = ? ORDER BY failedAt',
+      [jobId]
+    );
+  }
+
+  /**
+   * Record a movie that failed after its retries, replacing any earlier entry
+   */
+  async saveDeadLetter(deadLetter: EnrichmentDeadLetter): Promise<void> {
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT OR REPLACE INTO enrichment_dead_letters (movieId, title, jobId, error, attempts, failedAt)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [deadLetter.movieId, deadLetter.title, deadLetter.jobId, deadLetter.error, deadLetter.attempts, deadLetter.failedAt]
+    );
+  }
+
+  async deleteDeadLetter(movieId: number): Promise<void> {
+    await this.runStatement(this.moviesDb, 'DELETE FROM enrichment_dead_letters WHERE movieId = ?', [movieId]);
+  }
+
+  /**
+   * Dead-lettered movies, oldest failure first
+   */
+  async getDeadLetters(limit?: number): Promise<EnrichmentDeadLetter[]> {
+    return this.runQuery<EnrichmentDeadLetter>(
+      this.moviesDb,
+      `SELECT movieId, title, jobId, error, attempts, failedAt FROM enrichment_dead_letters
+       ORDER BY failedAt, movieId${limit === undefined ? '' : ' LIMIT ?'}`,
+      limit === undefined ? [] : [limit]
+    );
+  }
+
+  // User profile operations
+  async initializeUserProfileTables(): Promise<void> {
+    const dataColumns = `
+        ratingCount INTEGER NOT NULL,
+        latestRatingTimestamp INTEGER,
+        favoriteGenres TEXT,
+        averageRating REAL,
+        preferredEmotionalTones TEXT,
+        budgetPreference TEXT,
+        summary TEXT,
+        model TEXT,
+        createdAt TEXT NOT NULL`;
+
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS user_profiles (
+        userId INTEGER PRIMARY KEY,
+        version INTEGER NOT NULL,${dataColumns}
+      )
+    `);
+
+    // Every profile ever built, including the current one
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS user_profile_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        version INTEGER NOT NULL,${dataColumns},
+        UNIQUE (userId, version)
+      )
+    `);
+  }
+
+  /**
+   * Save a new version of a user's profile, replacing the current one
+   */
+  async saveUserProfile(profile: Omit<UserProfile, 'version'>): Promise<UserProfile> {
+    const latest = await this.runQuery<{ version: number | null }>(
+      this.moviesDb,
+      'SELECT MAX(version) as version FROM user_profile_history WHERE userId = ?',
+      [profile.userId]
+    );
+    const record: UserProfile = { ...profile, version: (latest[0]?.version || 0) + 1 };
+    const row: UserProfileRow = {
+      ...record,
+      favoriteGenres: JSON.stringify(record.favoriteGenres),
+      preferredEmotionalTones: JSON.stringify(record.preferredEmotionalTones)
+    };
+
+    const placeholders = USER_PROFILE_COLUMNS.map(() => '?').join(', ');
+    const values = USER_PROFILE_COLUMNS.map(column => (row as any)[column] ?? null);
+
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT INTO user_profile_history (${USER_PROFILE_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+      values
+    );
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT OR REPLACE INTO user_profiles (${USER_PROFILE_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+      values
+    );
+
+    return record;
+  }
+
+  async getUserProfile(userId: number): Promise<UserProfile | null> {
+    const rows = await this.runQuery<UserProfileRow>(
+      this.moviesDb,
+      `SELECT ${USER_PROFILE_COLUMNS.join(', ')} FROM user_profiles WHERE userId = ?`,
+      [userId]
+    );
+    return rows[0] ? this.parseUserProfileRow(rows[0]) : null;
+  }
+
+  /**
+   * Drop the users' current profiles so the next request rebuilds them; the
+   * history is kept
+   */
+  async invalidateUserProfiles(userIds: number[]): Promise<void> {
+    const placeholders = userIds.map(() => '?').join(',');
+    await this.runStatement(this.moviesDb, `DELETE FROM user_profiles WHERE userId IN (${placeholders})`, userIds);
+  }
+
+  async getUserProfileHistory(userId: number): Promise<UserProfile[]> {
+    const rows = await this.runQuery<UserProfileRow>(
+      this.moviesDb,
+      `SELECT ${USER_PROFILE_COLUMNS.join(', ')} FROM user_profile_history WHERE userId = ? ORDER BY version`,
+      [userId]
+    );
+    return rows.map(r => this.parseUserProfileRow(r));
+  }
+
+  private parseUserProfileRow(row: UserProfileRow): UserProfile {
+    return {
+      ...row,
+      favoriteGenres: JSON.parse(row.favoriteGenres || '[]'),
+      preferredEmotionalTones: JSON.parse(row.preferredEmotionalTones || '[]')
+    };
+  }
+
+  // Query session operations
+  async initializeQuerySessionTables(): Promise<void> {
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS query_sessions (
+        id TEXT PRIMARY KEY,
+        userId INTEGER,
+        preferences TEXT,
+        summary TEXT,
+        summarizedThroughId INTEGER,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `);
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS query_session_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sessionId TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        movies TEXT,
+        createdAt TEXT NOT NULL
+      )
+    `);
+    await this.runStatement(this.moviesDb, 'CREATE INDEX IF NOT EXISTS idx_query_session_messages_session ON query_session_messages (sessionId, id)');
+  }
+
+  async createQuerySession(session: Omit<QuerySession, 'messageCount'>): Promise<void> {
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT INTO query_sessions (id, userId, preferences, summary, summarizedThroughId, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.id,
+        session.userId,
+        session.preferences ? JSON.stringify(session.preferences) : null,
+        session.summary,
+        session.summarizedThroughId,
+        session.createdAt,
+        session.updatedAt
+      ]
+    );
+  }
+
+  async getQuerySession(sessionId: string): Promise<QuerySession | null> {
+    const rows = await this.runQuery<QuerySessionRow>(
+      this.moviesDb,
+      `SELECT ${QUERY_SESSION_SELECT} FROM query_sessions s WHERE s.id = ?`,
+      [sessionId]
+    );
+    return rows[0] ? this.parseQuerySessionRow(rows[0]) : null;
+  }
+
+  async getQuerySessions(userId?: number): Promise<QuerySession[]> {
+    const rows = await this.runQuery<QuerySessionRow>(
+      this.moviesDb,
+      `SELECT ${QUERY_SESSION_SELECT} FROM query_sessions s${userId !== undefined ? ' WHERE s.userId = ?' : ''} ORDER BY s.updatedAt DESC`,
+      userId !== undefined ? [userId] : []
+    );
+    return rows.map(r => this.parseQuerySessionRow(r));
+  }
+
+  /**
+   * Delete a session and its messages; false if it didn't exist
+   */
+  async deleteQuerySession(sessionId: string): Promise<boolean> {
+    const existing = await this.getQuerySession(sessionId);
+    if (!existing) return false;
+
+    await this.runStatement(this.moviesDb, 'DELETE FROM query_session_messages WHERE sessionId = ?', [sessionId]);
+    await this.runStatement(this.moviesDb, 'DELETE FROM query_sessions WHERE id = ?', [sessionId]);
+    return true;
+  }
+
+  async addQuerySessionMessage(message: Omit<QuerySessionMessage, 'id'>): Promise<QuerySessionMessage> {
+    const id = await this.runInsert(
+      this.moviesDb,
+      'INSERT INTO query_session_messages (sessionId, role, content, movies, createdAt) VALUES (?, ?, ?, ?, ?)',
+      [message.sessionId, message.role, message.content, JSON.stringify(message.movies), message.createdAt]
+    );
+    await this.runStatement(
+      this.moviesDb,
+      'UPDATE query_sessions SET updatedAt = ? WHERE id = ?',
+      [message.createdAt, message.sessionId]
+    );
+    return { ...message, id };
+  }
+
+  async getQuerySessionMessages(sessionId: string): Promise<QuerySessionMessage[]> {
+    const rows = await this.runQuery<QuerySessionMessageRow>(
+      this.moviesDb,
+      'SELECT id, sessionId, role, content, movies, createdAt FROM query_session_messages WHERE sessionId = ? ORDER BY id',
+      [sessionId]
+    );
+    return rows.map(r => ({ ...r, movies: r.movies ? JSON.parse(r.movies) : [] }));
+  }
+
+  async updateQuerySessionSummary(sessionId: string, summary: string, summarizedThroughId: number): Promise<void> {
+    await this.runStatement(
+      this.moviesDb,
+      'UPDATE query_sessions SET summary = ?, summarizedThroughId = ? WHERE id = ?',
+      [summary, summarizedThroughId, sessionId]
+    );
+  }
+
+  private parseQuerySessionRow(row: QuerySessionRow): QuerySession {
+    return { ...row, preferences: row.preferences ? JSON.parse(row.preferences) : null };
+  }
+
+  // LLM usage operations
+  async initializeUsageTable(): Promise<void> {
+    await this.runStatement(this.moviesDb, `
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        requestId TEXT,
+        endpoint TEXT,
+        task TEXT NOT NULL,
+        model TEXT NOT NULL,
+        promptTokens INTEGER NOT NULL,
+        completionTokens INTEGER NOT NULL,
+        totalTokens INTEGER NOT NULL,
+        costUsd REAL NOT NULL,
+        degraded INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT NOT NULL
+      )
+    `);
+    await this.runStatement(this.moviesDb, 'CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (createdAt)');
+    await this.runStatement(this.moviesDb, 'CREATE INDEX IF NOT EXISTS idx_llm_usage_request ON llm_usage (requestId)');
+  }
+
+  async saveLLMUsage(record: LLMUsageRecord): Promise<void> {
+    await this.runStatement(
+      this.moviesDb,
+      `INSERT INTO llm_usage
+       (requestId, endpoint, task, model, promptTokens, completionTokens, totalTokens, costUsd, degraded, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.requestId,
+        record.endpoint,
+        record.task,
+        record.model,
+        record.promptTokens,
+        record.completionTokens,
+        record.totalTokens,
+        record.costUsd,
+        record.degraded ? 1 : 0,
+        record.createdAt
+      ]
+    );
+  }
+
+  /**
+   * Total cost of calls made at or after an ISO date/time
+   */
+  async getLLMSpendSince(since: string): Promise<number> {
+    const result = await this.runQuery<{ costUsd: number }>(
+      this.moviesDb,
+      'SELECT COALESCE(SUM(costUsd), 0) as costUsd FROM llm_usage WHERE createdAt >= ?',
+      [since]
+    );
+    return result[0].costUsd;
+  }
+
+  /**
+   * Usage totals per day or month since an ISO date, most recent first
+   */
+  async getLLMUsageByPeriod(granularity: 'day' | 'month', since: string): Promise<UsagePeriod[]> {
+    const length = granularity === 'day' ? 10 : 7;
+    return this.runQuery<UsagePeriod>(
+      this.moviesDb,
+      `SELECT substr(createdAt, 1, ${length}) as period, ${USAGE_TOTALS_SELECT}
+       FROM llm_usage WHERE createdAt >= ?
+       GROUP BY period ORDER BY period DESC`,
+      [since]
+    );
+  }
+
+  /**
+   * Usage totals grouped by task, endpoint or model since an ISO date, most expensive first
+   */
+  async getLLMUsageBreakdown(field: 'task' | 'endpoint' | 'model', since: string): Promise<UsageBreakdown[]> {
+    return this.runQuery<UsageBreakdown>(
+      this.moviesDb,
+      `SELECT ${field} as key, ${USAGE_TOTALS_SELECT}
+       FROM llm_usage WHERE createdAt >= ?
+       GROUP BY ${field} ORDER BY costUsd DESC`,
+      [since]
+    );
+  }
+
+  async getLLMUsageForRequest(requestId: string): Promise<{ totals: UsageTotals; calls: LLMUsageRecord[] }> {
+    const totals = await this.runQuery<UsageTotals>(
+      this.moviesDb,
+      `SELECT ${USAGE_TOTALS_SELECT} FROM llm_usage WHERE requestId = ?`,
+      [requestId]
+    );
+    const calls = await this.runQuery<Omit<LLMUsageRecord, 'degraded'> & { degraded: number }>(
+      this.moviesDb,
+      `SELECT requestId, endpoint, task, model, promptTokens, completionTokens, totalTokens, costUsd, degraded, createdAt
+       FROM llm_usage WHERE requestId = ? ORDER BY id`,
+      [requestId]
+    );
+    return {
+      totals: totals[0],
+      calls: calls.map(c => ({ ...c, degraded: c.degraded === 1 }))
+    };
+  }
+
+  /**
+   * Connection for ad-hoc analytics queries: the movies DB opened read-only
+   * with the ratings DB attached read-only, so one query can join across
+   * both files. Opened on first use.
+   */
+  private openAnalytics(): Promise<sqlite3.Database> {
+    if (!this.analyticsReady) {
+      this.analyticsReady = this.connectAnalytics().then(db => {
+        this.analyticsDb = db;
+        return db;
+      });
+      // Let the next caller retry rather than caching the failure
+      this.analyticsReady.catch(() => {
+        this.analyticsReady = undefined;
+      });
+    }
+    return this.analyticsReady;
+  }
+
+  /**
+   * A new read-only connection with the ratings DB attached
+   */
+  private connectAnalytics(): Promise<sqlite3.Database> {
+    return new Promise((resolve, reject) => {
+      const db = new sqlite3.Database(this.moviesDbPath, sqlite3.OPEN_READONLY | sqlite3.OPEN_URI, (openErr) => {
+        if (openErr) return reject(openErr);
+
+        const fail = (error: Error) => {
+          db.close();
+          reject(error);
+        };
+        const ratingsUri = `${pathToFileURL(this.ratingsDbPath).href}?mode=ro`;
+        db.run(`ATTACH DATABASE ? AS ${ANALYTICS_RATINGS_SCHEMA}`, [ratingsUri], (attachErr) => {
+          if (attachErr) return fail(attachErr);
+          db.run('PRAGMA query_only = ON', (pragmaErr) => {
+            if (pragmaErr) return fail(pragmaErr);
+            resolve(db);
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Columns of a table visible on the analytics connection, empty if it doesn't exist
+   */
+  async getAnalyticsTableColumns(table: string): Promise<{ name: string; type: string }[]> {
+    const db = await this.openAnalytics();
+    return this.runQuery<{ name: string; type: string }>(db, `PRAGMA table_info(${table})`);
+  }
+
+  /**
+   * Run an already validated read-only query on a connection of its own,
+   * so interrupting it after `timeoutMs` can't abort other requests' queries
+   * on the shared analytics connection.
+   */
+  async runAnalyticsQuery(sql: string, timeoutMs: number): Promise<Record<string, unknown>[]> {
+    const db = await this.connectAnalytics();
+    const timer = setTimeout(() => db.interrupt(), timeoutMs);
+
+    try {
+      return await this.runQuery<Record<string, unknown>>(db, sql);
+    } catch (error: any) {
+      if (error?.code === 'SQLITE_INTERRUPT') {
+        throw new Error(`Query exceeded the ${timeoutMs}ms time limit`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      db.close();
+    }
+  }
+
   close(): void {
     this.moviesDb.close();
     this.ratingsDb.close();
+    this.analyticsDb?.close();
   }
 }
 
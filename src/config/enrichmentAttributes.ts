@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import { EnrichmentInput } from '../models/enrichmentInput';
+
+export type EnrichmentValue = string | number | null;
+
+/**
+ * category: exactly one of `allowedValues`
+ * tags: 1..maxItems of `allowedValues`, stored as "a, b"
+ * number: a value between `min` and `max`
+ */
+export type AttributeValueType = 'category' | 'tags' | 'number';
+
+interface AttributeDefinition {
+  name: string;
+  label: string;
+  description: string;
+  type: AttributeValueType;
+  allowedValues?: readonly string[];
+  maxItems?: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+/**
+ * Produced by the enrichment prompt. `promptFragment` holds the guidance
+ * lines shown under the attribute's heading.
+ */
+export interface LLMAttribute extends AttributeDefinition {
+  source: 'llm';
+  promptFragment: string;
+}
+
+/**
+ * Computed locally from the movie and its rating statistics
+ */
+export interface FormulaAttribute extends AttributeDefinition {
+  source: 'formula';
+  compute(input: EnrichmentInput): EnrichmentValue;
+}
+
+export type EnrichmentAttribute = LLMAttribute | FormulaAttribute;
+
+export const AWARD_POTENTIAL_LEVELS = ['High', 'Medium', 'Low'] as const;
+
+export const EMOTIONAL_GENRES = [
+  'fast-paced',
+  'emotional',
+  'spectacle',
+  'contemplative',
+  'intense',
+  'uplifting',
+  'dark',
+  'whimsical',
+  'gritty',
+  'romantic'
+] as const;
+
+export const OVERVIEW_SENTIMENTS = ['positive', 'neutral', 'negative', 'mixed'] as const;
+
+export const FINANCIAL_TIERS = ['High', 'Medium', 'Low', 'Unknown'] as const;
+
+/**
+ * Calculate Production Effectiveness Score
+ * Combines rating, budget efficiency, and revenue performance
+ */
+const calculateProductionEffectiveness = ({ movie, avgRating }: EnrichmentInput): number => {
+  // Normalize components to 0-100 scale
+  const ratingScore = (avgRating / 5.0) * 100; // Rating out of 5
+
+  // ROI score (capped at reasonable values)
+  let roiScore = 0;
+  if (movie.budget > 0 && movie.revenue > 0) {
+    const roi = ((movie.revenue - movie.budget) / movie.budget) * 100;
+    roiScore = Math.min(100, Math.max(0, (roi + 50) / 2)); // Normalize around 0-100
+  }
+
+  // Revenue tier score (log scale for fairness)
+  let revenueScore = 0;
+  if (movie.revenue > 0) {
+    revenueScore = Math.min(100, (Math.log10(movie.revenue) / 9) * 100); // 10^9 = 1B
+  }
+
+  // Weighted average
+  const weights = {
+    rating: 0.4,
+    roi: 0.35,
+    revenue: 0.25
+  };
+
+  return Number((
+    ratingScore * weights.rating +
+    roiScore * weights.roi +
+    revenueScore * weights.revenue
+  ).toFixed(2));
+};
+
+/**
+ * Every attribute stored on an enrichment. Adding an entry here adds a
+ * column to the enrichment tables, a section to the prompt (for LLM
+ * attributes) and a field to API responses and recommendation context.
+ */
+export const ENRICHMENT_ATTRIBUTES: EnrichmentAttribute[] = [
+  {
+    name: 'awardPotential',
+    label: 'Award Potential',
+    description: 'Likelihood of critical and awards recognition',
+    source: 'llm',
+    type: 'category',
+    allowedValues: AWARD_POTENTIAL_LEVELS,
+    promptFragment: `- Consider: Does the overview sound like "award-bait" (prestige, critical tone)?
+- Runtime factor: Longer dramas (>120min) often correlate with awards
+- Budget/Revenue ratio: Modest budget with acclaim suggests prestige
+- Year-normalized rating quality`
+  },
+  {
+    name: 'popularityQualityIndex',
+    label: 'Popularity-Quality Index',
+    description: 'Blend of audience reach and rating quality',
+    source: 'llm',
+    type: 'number',
+    min: 0,
+    max: 100,
+    integer: true,
+    promptFragment: `- Combine rating count × average rating (weighted)
+- Sentiment of overview (emotional appeal)
+- Correlation with revenue (does popularity translate to box office?)`
+  },
+  {
+    name: 'emotionalGenres',
+    label: 'Emotional Genre Classification',
+    description: 'Emotional tone categories beyond standard genres',
+    source: 'llm',
+    type: 'tags',
+    allowedValues: EMOTIONAL_GENRES,
+    maxItems: 3,
+    promptFragment: `- Classify into nuanced emotional categories beyond standard genres
+- Provide 1-3 categories that best describe the movie's emotional tone`
+  },
+  {
+    name: 'overviewSentiment',
+    label: 'Overview Sentiment',
+    description: 'Overall sentiment of the plot overview',
+    source: 'llm',
+    type: 'category',
+    allowedValues: OVERVIEW_SENTIMENTS,
+    promptFragment: `- Judge the tone of the overview text itself, not the movie's reputation
+- Use mixed when the overview clearly combines hopeful and bleak elements`
+  },
+  {
+    name: 'budgetTier',
+    label: 'Budget Tier',
+    description: 'Production budget relative to films of its era',
+    source: 'llm',
+    type: 'category',
+    allowedValues: FINANCIAL_TIERS,
+    promptFragment: `- Reason about the budget relative to films of the same era and genre, adjusting for inflation
+- Rough guide in today's dollars: Low under $15M, Medium $15M-$75M, High over $75M
+- Use Unknown when the budget is 0 or missing`
+  },
+  {
+    name: 'revenueTier',
+    label: 'Revenue Tier',
+    description: 'Box office performance relative to films of its era',
+    source: 'llm',
+    type: 'category',
+    allowedValues: FINANCIAL_TIERS,
+    promptFragment: `- Reason about worldwide revenue relative to films of the same era, adjusting for inflation
+- Rough guide in today's dollars: Low under $20M, Medium $20M-$150M, High over $150M
+- Use Unknown when the revenue is 0 or missing`
+  },
+  {
+    name: 'productionCompanyRollingROI',
+    label: 'Company Rolling ROI',
+    description: "Average ROI (%) of the production company's previous 10 releases; the primary company's, or a billing-weighted blend across co-producers",
+    source: 'formula',
+    type: 'number',
+    compute: input => input.companyROI
+  },
+  {
+    name: 'productionEffectivenessScore',
+    label: 'Production Effectiveness',
+    description: 'Weighted blend of rating, ROI and revenue (0-100)',
+    source: 'formula',
+    type: 'number',
+    min: 0,
+    max: 100,
+    compute: calculateProductionEffectiveness
+  }
+];
+
+export const LLM_ATTRIBUTES = ENRICHMENT_ATTRIBUTES
+  .filter((a): a is LLMAttribute => a.source === 'llm');
+
+export const FORMULA_ATTRIBUTES = ENRICHMENT_ATTRIBUTES
+  .filter((a): a is FormulaAttribute => a.source === 'formula');
+
+/**
+ * SQLite column type for an attribute
+ */
+export const attributeColumnType = (attribute: EnrichmentAttribute): string => {
+  return attribute.type === 'number' ? 'REAL' : 'TEXT';
+};
+
+/**
+ * Just the registered attributes of an enriched row, for prompt context
+ */
+export const pickAttributes = (row: Record<string, any>): Record<string, EnrichmentValue> => {
+  return Object.fromEntries(ENRICHMENT_ATTRIBUTES.map(a => [a.name, row[a.name] ?? null]));
+};
+
+/**
+ * Short hash of everything about the LLM attributes that reaches the
+ * prompt or schema, so registry edits change the prompt version
+ */
+export const llmAttributesFingerprint = (): string => {
+  const definition = LLM_ATTRIBUTES.map(({ name, type, allowedValues, maxItems, min, max, promptFragment }) =>
+    ({ name, type, allowedValues, maxItems, min, max, promptFragment })
+  );
+  return crypto.createHash('sha256').update(JSON.stringify(definition)).digest('hex').slice(0, 8);
+};
@@ -1,16 +1,152 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { CassetteMode } from '../llm/cassetteProvider';
+import { LLMTask } from '../llm/llmProvider';
+import { LogLevel } from './logger';
+import { DEFAULT_CACHE_TTLS } from '../llm/responseCache';
+import { DEFAULT_MODEL_PRICES, ModelPrice, SPEND_LIMIT_ACTIONS, SpendLimitAction } from '../llm/usageTrackingProvider';
+import { CompanyRoiMode } from '../services/companyRoiIndex';
+import { validateEnrichmentRunOptions } from '../utils/enrichmentRunOptions';
 
 dotenv.config();
 
+const parseTaskTTLs = (value: string): Partial<Record<LLMTask, number>> => {
+  const ttls: Partial<Record<LLMTask, number>> = {};
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [task, seconds] = entry.split('=').map(part => part.trim());
+    const ttl = Number(seconds);
+    if (!(task in DEFAULT_CACHE_TTLS) || !Number.isFinite(ttl) || ttl < 0) {
+      throw new Error(
+        `Invalid LLM_CACHE_TTLS entry '${entry}' (expected task=seconds with task one of ${Object.keys(DEFAULT_CACHE_TTLS).join(', ')})`
+      );
+    }
+    ttls[task as LLMTask] = ttl;
+  }
+  return ttls;
+};
+
+// "model=input/output" pairs in USD per million tokens, merged over the defaults
+const parsePrices = (value: string): Record<string, ModelPrice> => {
+  const prices = { ...DEFAULT_MODEL_PRICES };
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const match = entry.match(/^([^=]+)=([\d.]+)\/([\d.]+)$/);
+    if (!match) {
+      throw new Error(`Invalid LLM_PRICES entry '${entry}' (expected model=input/output, e.g. gpt-4o-mini=0.15/0.6)`);
+    }
+    prices[match[1].trim()] = { input: parseFloat(match[2]), output: parseFloat(match[3]) };
+  }
+  return prices;
+};
+
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   moviesDbPath: path.resolve(process.env.MOVIES_DB_PATH || './db/movies.db'),
   ratingsDbPath: path.resolve(process.env.RATINGS_DB_PATH || './db/ratings.db'),
   openaiApiKey: process.env.OPENAI_API_KEY || '',
+  llm: {
+    // openai | local | fake
+    provider: process.env.LLM_PROVIDER || 'openai',
+    model: process.env.LLM_MODEL || 'gpt-4o-mini',
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LLM_API_KEY || '',
+    jsonMode: process.env.LLM_JSON_MODE !== 'false',
+    fixturesPath: path.resolve(process.env.LLM_FIXTURES_PATH || './fixtures/llm/default.json'),
+    maxRepairAttempts: parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2', 10),
+    // off | record | replay, overridable per request with the X-LLM-Cassette header
+    cassetteMode: (process.env.LLM_CASSETTE_MODE || 'off') as CassetteMode,
+    cassetteDir: path.resolve(process.env.LLM_CASSETTE_DIR || './cassettes'),
+    cache: {
+      enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+      path: path.resolve(process.env.LLM_CACHE_PATH || './db/llm-cache.db'),
+      // Per-task TTL overrides in seconds, e.g. "query=600,compare=0" (0 disables the task)
+      ttls: parseTaskTTLs(process.env.LLM_CACHE_TTLS || ''),
+    },
+    prices: parsePrices(process.env.LLM_PRICES || ''),
+    spendLimits: {
+      // USD, 0 = unlimited
+      dailyUsd: parseFloat(process.env.LLM_DAILY_SPEND_LIMIT || '0'),
+      monthlyUsd: parseFloat(process.env.LLM_MONTHLY_SPEND_LIMIT || '0'),
+      // reject | degrade (switch to LLM_DEGRADE_MODEL once a limit is reached)
+      action: (process.env.LLM_SPEND_LIMIT_ACTION || 'reject') as SpendLimitAction,
+      degradeModel: process.env.LLM_DEGRADE_MODEL || '',
+    },
+  },
+  collaborativeFiltering: {
+    modelPath: path.resolve(process.env.CF_MODEL_PATH || './db/cf-model.json'),
+    // Share of the final recommendation score taken from CF rather than the LLM
+    weight: parseFloat(process.env.CF_WEIGHT || '0.6'),
+    candidates: parseInt(process.env.CF_CANDIDATES || '30', 10),
+  },
+  enrichment: {
+    // primary (first-credited company) | weighted (all co-producers, by billing order)
+    companyRoi: (process.env.ENRICHMENT_COMPANY_ROI || 'primary') as CompanyRoiMode,
+    // Defaults for each run; a job or script run can override any of them
+    run: {
+      concurrency: parseInt(process.env.ENRICHMENT_CONCURRENCY || '2', 10),
+      // LLM calls started per minute, 0 = unlimited
+      requestsPerMinute: parseInt(process.env.ENRICHMENT_REQUESTS_PER_MINUTE || '60', 10),
+      maxRetries: parseInt(process.env.ENRICHMENT_MAX_RETRIES || '4', 10),
+      backoffBaseMs: parseInt(process.env.ENRICHMENT_BACKOFF_BASE_MS || '1000', 10),
+      // Movies per prompt, 1 = one prompt per movie
+      batchSize: parseInt(process.env.ENRICHMENT_BATCH_SIZE || '1', 10),
+    },
+  },
+  querySessions: {
+    // Unsummarized messages that trigger summarization, and how many recent ones stay verbatim
+    summarizeAfter: parseInt(process.env.QUERY_SESSION_SUMMARIZE_AFTER || '12', 10),
+    keepRecent: parseInt(process.env.QUERY_SESSION_KEEP_RECENT || '4', 10),
+  },
+  textToSql: {
+    // Rows returned by a generated query, whatever LIMIT it asks for
+    maxRows: parseInt(process.env.SQL_QUERY_MAX_ROWS || '200', 10),
+    timeoutMs: parseInt(process.env.SQL_QUERY_TIMEOUT_MS || '5000', 10),
+  },
+  logging: {
+    // debug | info | warn | error
+    level: (process.env.LOG_LEVEL || 'info') as LogLevel,
+    // json (one object per line) | pretty (for local development)
+    format: process.env.LOG_FORMAT || 'json',
+  },
+  embeddings: {
+    // hashing (in-process, no network) | openai | local
+    provider: process.env.EMBEDDING_PROVIDER || 'hashing',
+    model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '512', 10),
+  },
 };
 
-// Validate required environment variables
-if (!config.openaiApiKey) {
-  throw new Error('OPENAI_API_KEY is required');
+// Validate configuration values
+if (!(config.collaborativeFiltering.weight >= 0 && config.collaborativeFiltering.weight <= 1)) {
+  throw new Error('CF_WEIGHT must be between 0 and 1');
+}
+if (!(config.querySessions.keepRecent >= 0) || !(config.querySessions.summarizeAfter > config.querySessions.keepRecent)) {
+  throw new Error('QUERY_SESSION_SUMMARIZE_AFTER must be greater than QUERY_SESSION_KEEP_RECENT (>= 0)');
+}
+if (!(config.textToSql.maxRows > 0) || !(config.textToSql.timeoutMs > 0)) {
+  throw new Error('SQL_QUERY_MAX_ROWS and SQL_QUERY_TIMEOUT_MS must be positive integers');
+}
+if (!['primary', 'weighted'].includes(config.enrichment.companyRoi)) {
+  throw new Error(`Invalid ENRICHMENT_COMPANY_ROI '${config.enrichment.companyRoi}' (expected primary or weighted)`);
+}
+const runOptionErrors = validateEnrichmentRunOptions(config.enrichment.run).errors;
+if (runOptionErrors.length > 0) {
+  throw new Error(`Invalid enrichment run settings (ENRICHMENT_*): ${runOptionErrors.join('; ')}`);
+}
+if (!['debug', 'info', 'warn', 'error'].includes(config.logging.level)) {
+  throw new Error(`Invalid LOG_LEVEL '${config.logging.level}' (expected debug, info, warn or error)`);
+}
+if (!['json', 'pretty'].includes(config.logging.format)) {
+  throw new Error(`Invalid LOG_FORMAT '${config.logging.format}' (expected json or pretty)`);
+}
+if (!SPEND_LIMIT_ACTIONS.includes(config.llm.spendLimits.action)) {
+  throw new Error(`Invalid LLM_SPEND_LIMIT_ACTION '${config.llm.spendLimits.action}' (expected reject or degrade)`);
+}
+if (config.llm.spendLimits.action === 'degrade' && !config.llm.spendLimits.degradeModel) {
+  throw new Error('LLM_DEGRADE_MODEL is required when LLM_SPEND_LIMIT_ACTION=degrade');
+}
+if (!(config.llm.spendLimits.dailyUsd >= 0) || !(config.llm.spendLimits.monthlyUsd >= 0)) {
+  throw new Error('LLM_DAILY_SPEND_LIMIT and LLM_MONTHLY_SPEND_LIMIT must be non-negative numbers');
+}
+if (!['off', 'record', 'replay'].includes(config.llm.cassetteMode)) {
+  throw new Error(`Invalid LLM_CASSETTE_MODE '${config.llm.cassetteMode}' (expected off, record or replay)`);
 }
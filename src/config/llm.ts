@@ -0,0 +1,130 @@
+import { config } from './env';
+import { LLMProvider } from '../llm/llmProvider';
+import { LLMClient } from '../llm/llmClient';
+import { OpenAIProvider } from '../llm/openaiProvider';
+import { LocalProvider } from '../llm/localProvider';
+import { FakeProvider } from '../llm/fakeProvider';
+import { CassetteProvider } from '../llm/cassetteProvider';
+import { CachingProvider } from '../llm/cachingProvider';
+import { ResponseCache } from '../llm/responseCache';
+import { UsageStore, UsageTrackingProvider } from '../llm/usageTrackingProvider';
+import Database from './database';
+import { EmbeddingProvider } from '../llm/embeddingProvider';
+import { HashingEmbeddingProvider } from '../llm/hashingEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from '../llm/openaiEmbeddingProvider';
+
+const createBaseProvider = (): LLMProvider => {
+  switch (config.llm.provider) {
+    case 'openai':
+      return new OpenAIProvider({ apiKey: config.openaiApiKey });
+    case 'local':
+      return new LocalProvider({
+        baseURL: config.llm.baseUrl,
+        apiKey: config.llm.apiKey,
+        supportsJsonMode: config.llm.jsonMode
+      });
+    case 'fake':
+      return FakeProvider.fromFile(config.llm.fixturesPath);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER '${config.llm.provider}' (expected openai, local or fake)`);
+  }
+};
+
+let responseCache: ResponseCache | undefined;
+let usageStore: UsageStore | undefined;
+
+/**
+ * Usage records go to the movies database through a dedicated connection,
+ * created with its table on first use
+ */
+const getUsageStore = (): UsageStore => {
+  if (!usageStore) {
+    const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+    let ready: Promise<void> | undefined;
+    const initialize = () => {
+      if (!ready) ready = db.initializeUsageTable();
+      return ready;
+    };
+
+    usageStore = {
+      saveLLMUsage: async record => {
+        await initialize();
+        return db.saveLLMUsage(record);
+      },
+      getLLMSpendSince: async since => {
+        await initialize();
+        return db.getLLMSpendSince(since);
+      }
+    };
+  }
+  return usageStore;
+};
+
+/**
+ * A real provider that records token usage and enforces spend limits
+ */
+const createTrackedProvider = (): LLMProvider => {
+  return new UsageTrackingProvider(createBaseProvider(), getUsageStore(), {
+    prices: config.llm.prices,
+    limits: config.llm.spendLimits
+  });
+};
+
+/**
+ * The process-wide response cache, shared so statistics cover every route
+ */
+export const getResponseCache = (): ResponseCache => {
+  if (!responseCache) {
+    responseCache = new ResponseCache(config.llm.cache.path, config.llm.cache.ttls);
+  }
+  return responseCache;
+};
+
+/**
+ * A tracked provider behind the response cache, when it is enabled
+ */
+const createCachedProvider = (): LLMProvider => {
+  const provider = createTrackedProvider();
+  return config.llm.cache.enabled ? new CachingProvider(provider, getResponseCache()) : provider;
+};
+
+/**
+ * The configured provider, wrapped so cassette recording and replay can be
+ * switched on globally or per request, and repeated prompts are answered
+ * from the response cache. The cache sits inside the cassette layer, so a
+ * replay only ever returns recorded answers and never fills the cache. Only
+ * calls that reach the model are metered.
+ */
+export const createLLMProvider = (): LLMProvider => {
+  return new CassetteProvider(createCachedProvider, config.llm.provider, {
+    dir: config.llm.cassetteDir,
+    mode: config.llm.cassetteMode
+  });
+};
+
+export const createLLMClient = (): LLMClient => {
+  return new LLMClient(createLLMProvider(), {
+    model: config.llm.model,
+    maxRepairAttempts: config.llm.maxRepairAttempts
+  });
+};
+
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  switch (config.embeddings.provider) {
+    case 'hashing':
+      return new HashingEmbeddingProvider(config.embeddings.dimensions);
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.openaiApiKey,
+        model: config.embeddings.model
+      });
+    case 'local':
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.llm.apiKey || 'local',
+        model: config.embeddings.model,
+        baseURL: config.llm.baseUrl
+      });
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER '${config.embeddings.provider}' (expected hashing, openai or local)`);
+  }
+};
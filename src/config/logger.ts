@@ -0,0 +1,52 @@
+import { config } from './env';
+import { getRequestContext } from './requestContext';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Errors don't survive JSON.stringify, so flatten them first
+ */
+const serialize = (value: unknown): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+};
+
+const write = (level: LogLevel, message: string, fields: LogFields = {}): void => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(config.logging.level)) return;
+
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    requestId: getRequestContext()?.requestId,
+    ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, serialize(value)]))
+  };
+
+  let line: string;
+  if (config.logging.format === 'pretty') {
+    const { time, level: _, msg, ...rest } = entry;
+    const details = Object.entries(rest).filter(([, value]) => value !== undefined);
+    line = `${time} ${level.toUpperCase().padEnd(5)} ${msg}${details.length > 0 ? ' ' + JSON.stringify(Object.fromEntries(details)) : ''}`;
+  } else {
+    line = JSON.stringify(entry);
+  }
+
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(line + '\n');
+};
+
+/**
+ * Structured logger. Each entry is one JSON line carrying the current
+ * request id, so service and LLM logs can be correlated with the request
+ * that caused them.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
@@ -0,0 +1,210 @@
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string;
+}
+
+const metrics: Metric[] = [];
+
+const escapeLabel = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+};
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+// Label sets are keyed by their JSON so series with the same labels share a slot
+const seriesKey = (labels: Labels): string => {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+};
+
+/**
+ * Monotonically increasing count, e.g. failures
+ */
+export class Counter implements Metric {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  private name: string;
+  private help: string;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Value that can go up and down, e.g. jobs currently running
+ */
+export class Gauge implements Metric {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  private name: string;
+  private help: string;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    metrics.push(this);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.series.set(seriesKey(labels), { labels, value });
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  dec(labels: Labels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Distribution of observed values in cumulative buckets, e.g. latencies in seconds
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  private name: string;
+  private help: string;
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+    metrics.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  /**
+   * Start timing; the returned function records the elapsed seconds with
+   * the given labels plus any passed when it is called
+   */
+  startTimer(labels: Labels = {}): (extra?: Labels) => number {
+    const started = process.hrtime.bigint();
+    return (extra: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const LLM_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+const QUERY_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 5];
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency by method, route pattern and status code',
+  LATENCY_BUCKETS
+);
+
+export const llmCallDuration = new Histogram(
+  'llm_call_duration_seconds',
+  'LLM completion latency by task and source (model or cache)',
+  LLM_LATENCY_BUCKETS
+);
+
+export const llmCallFailures = new Counter(
+  'llm_call_failures_total',
+  'LLM calls that failed, by task and reason (error or validation)'
+);
+
+export const llmCallRetries = new Counter(
+  'llm_call_retries_total',
+  'LLM calls retried after a transient failure, by reason (rate_limit or transient)'
+);
+
+export const enrichmentJobMovies = new Counter(
+  'enrichment_job_movies_total',
+  'Movies processed by enrichment jobs, by outcome'
+);
+
+export const enrichmentJobsFinished = new Counter(
+  'enrichment_jobs_finished_total',
+  'Enrichment jobs that reached a final status'
+);
+
+export const enrichmentJobsActive = new Gauge(
+  'enrichment_jobs_active',
+  'Enrichment jobs currently being processed by this instance'
+);
+
+export const sqliteQueryDuration = new Histogram(
+  'sqlite_query_duration_seconds',
+  'SQLite query latency by database and operation',
+  QUERY_BUCKETS
+);
+
+const processUptime = new Gauge('process_uptime_seconds', 'Seconds since the process started');
+const processMemory = new Gauge('process_memory_bytes', 'Process memory usage by type');
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export const renderMetrics = (): string => {
+  processUptime.set({}, process.uptime());
+  const memory = process.memoryUsage();
+  processMemory.set({ type: 'rss' }, memory.rss);
+  processMemory.set({ type: 'heap_used' }, memory.heapUsed);
+
+  return metrics.map(m => m.render()).join('\n') + '\n';
+};
@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CassetteMode } from '../llm/cassetteProvider';
+import { CacheMode } from '../llm/cachingProvider';
+import { LLMTask } from '../llm/llmProvider';
+
+export interface LLMCallRecord {
+  task: LLMTask;
+  attempts: number;
+  validationErrors: string[][];
+  succeeded: boolean;
+  // Every attempt was answered from the response cache
+  cached: boolean;
+}
+
+// Receives server-sent events for a streaming request
+export type StreamEventSink = (event: string, data: unknown) => void;
+
+/**
+ * Per-request state that needs to reach the LLM layer without being
+ * threaded through every service method
+ */
+export interface RequestContext {
+  requestId?: string;
+  // Route pattern the request matched, e.g. "POST /api/compare"
+  endpoint?: string;
+  cassetteMode?: CassetteMode;
+  cacheMode?: CacheMode;
+  llmCalls: LLMCallRecord[];
+  // Set on streaming requests; progress, token and item events go here
+  events?: StreamEventSink;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => {
+  return storage.run(context, fn);
+};
+
+export const getRequestContext = (): RequestContext | undefined => {
+  return storage.getStore();
+};
+
+/**
+ * Remember a structured LLM call so routes can report it in response metadata
+ */
+export const recordLLMCall = (record: LLMCallRecord): void => {
+  getRequestContext()?.llmCalls.push(record);
+};
+
+export const getLLMCalls = (): LLMCallRecord[] => {
+  return getRequestContext()?.llmCalls || [];
+};
+
+export const isStreaming = (): boolean => {
+  return getRequestContext()?.events !== undefined;
+};
+
+/**
+ * Send an event to the client of a streaming request; a no-op otherwise
+ */
+export const emitEvent = (event: string, data: unknown): void => {
+  getRequestContext()?.events?.(event, data);
+};
+
+export const reportProgress = (stage: string, message: string): void => {
+  emitEvent('progress', { stage, message });
+};
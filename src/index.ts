@@ -4,6 +4,16 @@ import dotenv from 'dotenv';
 import { config } from './config/env';
 import enrichmentRoutes from './routes/enrichmentRoutes';
 import recommendationRoutes from './routes/recommendationRoutes';
+import ratingRoutes from './routes/ratingRoutes';
+import movieRoutes from './routes/movieRoutes';
+import companyRoutes from './routes/companyRoutes';
+import searchRoutes from './routes/searchRoutes';
+import llmCacheRoutes from './routes/llmCacheRoutes';
+import usageRoutes from './routes/usageRoutes';
+import { requestContext } from './middleware/requestContext';
+import { requestLogger } from './middleware/requestLogger';
+import { logger } from './config/logger';
+import { renderMetrics } from './config/metrics';
 
 dotenv.config();
 
@@ -11,17 +21,22 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Large enough for bulk rating imports
+app.use(express.json({ limit: '1mb' }));
+app.use(requestContext);
 
-// Request logging
-app.use((req, res, next) => {
-  console.log(`${req.method} ${req.path}`);
-  next();
-});
+// Request logging and latency metrics
+app.use(requestLogger);
 
 // Routes
 app.use('/api', enrichmentRoutes);
 app.use('/api', recommendationRoutes);
+app.use('/api', ratingRoutes);
+app.use('/api', movieRoutes);
+app.use('/api', companyRoutes);
+app.use('/api', searchRoutes);
+app.use('/api', llmCacheRoutes);
+app.use('/api', usageRoutes);
 
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -30,16 +45,60 @@ app.get('/', (req: Request, res: Response) => {
     version: '1.0.0',
     endpoints: {
       enrichment: {
-        'POST /api/enrich': 'Enrich movies with LLM-generated attributes',
+        'POST /api/enrich': 'Start a background job enriching movies with LLM-generated attributes (body: { count?: number, outdatedOnly?: boolean, deadLettersOnly?: boolean, sampling?: { strategy: first|random|mostRated|stratified|ids, stratifyBy?: genre|decade|budgetTier|language, seed?, minRatings?, movieIds? }, options?: { concurrency, requestsPerMinute, maxRetries, backoffBaseMs, batchSize } })',
+        'GET /api/jobs': 'List enrichment jobs',
+        'GET /api/jobs/:id': 'Get enrichment job progress, failures, ETA and sample distribution',
+        'DELETE /api/jobs/:id': 'Cancel an enrichment job',
+        'GET /api/enrichment-dead-letters': 'List movies that failed enrichment after retries (retry with deadLettersOnly)',
+        'GET /api/enrichment-attributes': 'List registered enrichment attributes',
         'GET /api/enrichments': 'Get all enriched movies',
-        'GET /api/enrichments/:movieId': 'Get enrichment for specific movie'
+        'GET /api/enrichments/:movieId': 'Get enrichment for specific movie',
+        'GET /api/enrichments/:movieId/history': 'Get all versions of a movie\'s enrichment with provenance',
+        'GET /api/enrichments/:movieId/diff': 'Diff two enrichment versions (query: from, to)'
       },
       recommendations: {
         'GET /api/users': 'Get list of available user IDs',
-        'GET /api/users/:userId/preferences': 'Analyze user preferences',
-        'GET /api/users/:userId/recommendations': 'Get personalized recommendations',
-        'POST /api/query': 'Natural language query (body: { query: string, userId?: number })',
-        'POST /api/compare': 'Compare movies (body: { movieIds: number[], userId?: number })'
+        'GET /api/users/:userId/preferences': 'Get the user\'s stored preference profile, rebuilt when ratings change (query: refresh?)',
+        'GET /api/users/:userId/preferences/history': 'Get every version of the user\'s preference profile',
+        'GET /api/users/:userId/recommendations': 'Get personalized recommendations (query: count?, filters? as JSON, filterText?)',
+        'GET /api/users/:userId/recommendations/stream': 'Recommendations as Server-Sent Events: progress, token and item events, then result or error',
+        'POST /api/recommendation-filters/parse': 'Parse a natural-language filter phrase into structured filters (body: { text: string })',
+        'GET /api/users/:userId/movies/:movieId/predicted-rating': 'Predict a user\'s rating for a movie',
+        'POST /api/users/:userId/predicted-ratings': 'Predict a user\'s ratings for many movies (body: { movieIds: number[] })',
+        'POST /api/query': 'Natural language query (body: { query: string, userId?: number, sessionId?: string, mode?: "answer" | "sql" }); mode=sql runs a generated read-only SQL query and returns sql, rows and an explanation',
+        'POST /api/query/stream': 'Natural language query as Server-Sent Events (same body as POST /api/query)',
+        'POST /api/query/sessions': 'Start a conversational query session (body: { userId?: number }); send follow-ups to POST /api/query with sessionId',
+        'GET /api/query/sessions': 'List query sessions (query: userId?)',
+        'GET /api/query/sessions/:sessionId': 'Get a query session with its messages',
+        'DELETE /api/query/sessions/:sessionId': 'Delete a query session',
+        'POST /api/compare': 'Compare movies on computed metrics (ROI, profit, ratios, ratings, genre percentiles) with an LLM narrative (body: { movieIds: number[], userId?: number })',
+        'POST /api/compare/stream': 'Movie comparison as Server-Sent Events, with a matrix event once metrics are computed (same body as POST /api/compare)'
+      },
+      movies: {
+        'GET /api/movies': 'Browse the catalog (query: q? keyword search, genre?, language?, status?, yearFrom?, yearTo?, sort? relevance|releaseDate|revenue|budget|averageRating|ratingCount|title, order? asc|desc, limit?, offset?)',
+        'GET /api/movies/:movieId': 'Get a movie with rating statistics and its enrichment, if any'
+      },
+      companies: {
+        'GET /api/companies': 'List production companies with movie counts, box office totals and average rating (query: q?, minMovies?, sort? movieCount|name|totalRevenue|averageRating, order? asc|desc, limit?, offset?)',
+        'GET /api/companies/:companyId': 'Company filmography, rolling ROI, hit rate, average rating and genre mix with an LLM-written profile (query: profile? false to skip the profile)'
+      },
+      ratings: {
+        'GET /api/users/:userId/ratings': 'Get a user\'s ratings',
+        'POST /api/users/:userId/ratings': 'Rate a movie (body: { movieId: number, rating: 0.5-5.0 in half stars })',
+        'PUT /api/users/:userId/ratings/:movieId': 'Change a rating (body: { rating: number })',
+        'DELETE /api/users/:userId/ratings/:movieId': 'Delete a rating',
+        'POST /api/ratings/import': 'Create or replace ratings in bulk, all or nothing (body: { ratings: { userId, movieId, rating, timestamp? }[] })'
+      },
+      search: {
+        'GET /api/search': 'Semantic search (query: q, genre?, language?, yearFrom?, yearTo?, limit?)'
+      },
+      llmCache: {
+        'GET /api/llm/cache/stats': 'LLM response cache hit/miss statistics per task',
+        'DELETE /api/llm/cache': 'Clear cached LLM responses (query: task?)'
+      },
+      usage: {
+        'GET /api/usage': 'LLM token usage and cost: daily, monthly, by task/endpoint/model, spend limits (query: days?)',
+        'GET /api/usage/requests/:requestId': 'LLM calls and cost for one request id or enrichment job id'
       }
     },
     documentation: 'See README.md for detailed API documentation and examples'
@@ -51,9 +110,14 @@ app.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'healthy', timestamp: new Date().toISOString() });
 });
 
+// Prometheus metrics
+app.get('/metrics', (req: Request, res: Response) => {
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
 // Error handling
 app.use((err: any, req: Request, res: Response, next: any) => {
-  console.error('Unhandled error:', err);
+  logger.error('Unhandled error', { error: err });
   res.status(500).json({
     error: 'Internal server error',
     details: err.message
@@ -69,15 +133,41 @@ app.listen(config.port, () => {
   console.log(`\nAvailable endpoints:`);
   console.log(`  GET  http://localhost:${config.port}/`);
   console.log(`  GET  http://localhost:${config.port}/health`);
+  console.log(`  GET  http://localhost:${config.port}/metrics`);
   console.log(`\nEnrichment:`);
   console.log(`  POST http://localhost:${config.port}/api/enrich`);
+  console.log(`  GET  http://localhost:${config.port}/api/jobs/:id`);
   console.log(`  GET  http://localhost:${config.port}/api/enrichments`);
   console.log(`\nRecommendations:`);
   console.log(`  GET  http://localhost:${config.port}/api/users`);
   console.log(`  GET  http://localhost:${config.port}/api/users/:userId/preferences`);
   console.log(`  GET  http://localhost:${config.port}/api/users/:userId/recommendations`);
+  console.log(`  GET  http://localhost:${config.port}/api/users/:userId/recommendations/stream`);
+  console.log(`  POST http://localhost:${config.port}/api/recommendation-filters/parse`);
+  console.log(`  GET  http://localhost:${config.port}/api/users/:userId/movies/:movieId/predicted-rating`);
+  console.log(`  POST http://localhost:${config.port}/api/users/:userId/predicted-ratings`);
   console.log(`  POST http://localhost:${config.port}/api/query`);
+  console.log(`  POST http://localhost:${config.port}/api/query/stream`);
+  console.log(`  POST http://localhost:${config.port}/api/query/sessions`);
   console.log(`  POST http://localhost:${config.port}/api/compare`);
+  console.log(`  POST http://localhost:${config.port}/api/compare/stream`);
+  console.log(`\nMovies:`);
+  console.log(`  GET  http://localhost:${config.port}/api/movies`);
+  console.log(`  GET  http://localhost:${config.port}/api/movies/:movieId`);
+  console.log(`\nCompanies:`);
+  console.log(`  GET  http://localhost:${config.port}/api/companies`);
+  console.log(`  GET  http://localhost:${config.port}/api/companies/:companyId`);
+  console.log(`\nRatings:`);
+  console.log(`  GET  http://localhost:${config.port}/api/users/:userId/ratings`);
+  console.log(`  POST http://localhost:${config.port}/api/users/:userId/ratings`);
+  console.log(`  PUT  http://localhost:${config.port}/api/users/:userId/ratings/:movieId`);
+  console.log(`  POST http://localhost:${config.port}/api/ratings/import`);
+  console.log(`\nSearch:`);
+  console.log(`  GET  http://localhost:${config.port}/api/search?q=`);
+  console.log(`\nLLM Cache:`);
+  console.log(`  GET  http://localhost:${config.port}/api/llm/cache/stats`);
+  console.log(`\nUsage:`);
+  console.log(`  GET  http://localhost:${config.port}/api/usage`);
   console.log('\n=================================\n');
 });
 
@@ -0,0 +1,80 @@
+import { getRequestContext } from '../config/requestContext';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './llmProvider';
+import { ResponseCache } from './responseCache';
+import { requestKey } from './requestKey';
+import { logger } from '../config/logger';
+
+// default: read and write; refresh: skip the read but store the new answer; bypass: neither
+export const CACHE_MODES = ['default', 'refresh', 'bypass'] as const;
+export type CacheMode = typeof CACHE_MODES[number];
+
+/**
+ * Serves repeated completions from the response cache. Tasks with a TTL of
+ * 0 always go to the wrapped provider. Cache failures are logged and never
+ * fail the request.
+ */
+export class CachingProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+  private cache: ResponseCache;
+
+  constructor(inner: LLMProvider, cache: ResponseCache) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.cache = cache;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if (this.cache.ttlFor(request.task) <= 0) {
+      return this.inner.complete(request);
+    }
+
+    const mode = getRequestContext()?.cacheMode || 'default';
+    if (mode === 'bypass') {
+      this.cache.recordBypass(request.task);
+      return this.inner.complete(request);
+    }
+
+    const key = requestKey(request);
+
+    if (mode === 'default') {
+      try {
+        const cached = await this.cache.lookup(request.task, key);
+        if (cached) {
+          return { ...cached, cached: true };
+        }
+      } catch (error) {
+        logger.error('LLM cache lookup failed', { task: request.task, error });
+      }
+    }
+
+    const response = await this.inner.complete(request);
+
+    // Answers from the spend-limit fallback model shouldn't outlive the limit
+    if (response.degraded) {
+      return response;
+    }
+
+    try {
+      await this.cache.store(request.task, key, response);
+    } catch (error) {
+      logger.error('LLM cache write failed', { task: request.task, error });
+    }
+
+    return response;
+  }
+
+  /**
+   * Drop the cached answer to a request whose output failed validation, so
+   * repeats of the request reach the model instead of replaying it
+   */
+  async discard(request: CompletionRequest): Promise<void> {
+    if (this.cache.ttlFor(request.task) <= 0) return;
+
+    try {
+      await this.cache.remove(requestKey(request));
+    } catch (error) {
+      logger.error('LLM cache eviction failed', { task: request.task, error });
+    }
+  }
+}
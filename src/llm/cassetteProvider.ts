@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { getRequestContext } from '../config/requestContext';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './llmProvider';
+import { requestKey } from './requestKey';
+import { logger } from '../config/logger';
+
+export const CASSETTE_MODES = ['off', 'record', 'replay'] as const;
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+export interface Cassette {
+  key: string;
+  recordedAt: string;
+  provider: string;
+  request: CompletionRequest;
+  response: CompletionResponse;
+}
+
+export class CassetteMissError extends Error {
+  readonly key: string;
+  readonly cassettePath: string;
+
+  constructor(request: CompletionRequest, key: string, cassettePath: string) {
+    super(
+      `No cassette recorded for task '${request.task}' (key ${key}, expected at ${cassettePath}). ` +
+      'Record it with LLM_CASSETTE_MODE=record or the X-LLM-Cassette: record header.'
+    );
+    this.name = 'CassetteMissError';
+    this.key = key;
+    this.cassettePath = cassettePath;
+  }
+}
+
+export interface CassetteProviderOptions {
+  dir: string;
+  mode: CassetteMode;
+}
+
+/**
+ * Records chat completions to disk and replays them without network access.
+ * The mode comes from the request context when set, otherwise from options.
+ * The wrapped provider is only created when a call actually needs it, so
+ * replaying works without API credentials.
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: string;
+  private createInner: () => LLMProvider;
+  private inner?: LLMProvider;
+  private options: CassetteProviderOptions;
+
+  constructor(createInner: () => LLMProvider, name: string, options: CassetteProviderOptions) {
+    this.createInner = createInner;
+    this.name = name;
+    this.options = options;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const mode = getRequestContext()?.cassetteMode || this.options.mode;
+
+    if (mode === 'off') {
+      return this.getInner().complete(request);
+    }
+
+    const key = cassetteKey(request);
+    const cassettePath = this.cassettePath(request);
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(cassettePath)) {
+        throw new CassetteMissError(request, key, cassettePath);
+      }
+      const cassette = JSON.parse(await fs.promises.readFile(cassettePath, 'utf-8')) as Cassette;
+      return cassette.response;
+    }
+
+    // A cache hit is recorded as the answer it stands for
+    const { cached, ...response } = await this.getInner().complete(request);
+    const cassette: Cassette = {
+      key,
+      recordedAt: new Date().toISOString(),
+      provider: this.name,
+      request,
+      response
+    };
+
+    await fs.promises.mkdir(path.dirname(cassettePath), { recursive: true });
+    await fs.promises.writeFile(cassettePath, JSON.stringify(cassette, null, 2) + '\n');
+    logger.info('Recorded cassette', { task: request.task, key });
+
+    return cached ? { ...response, cached } : response;
+  }
+
+  /**
+   * Drop the recording of a request whose output failed validation, along
+   * with any cached answer to it. Replayed cassettes are left alone.
+   */
+  async discard(request: CompletionRequest): Promise<void> {
+    const mode = getRequestContext()?.cassetteMode || this.options.mode;
+    if (mode === 'replay') return;
+
+    if (mode === 'record') {
+      try {
+        await fs.promises.rm(this.cassettePath(request), { force: true });
+      } catch (error) {
+        logger.error('Cassette eviction failed', { task: request.task, error });
+      }
+    }
+
+    await this.getInner().discard?.(request);
+  }
+
+  private cassettePath(request: CompletionRequest): string {
+    return path.join(this.options.dir, request.task, `${cassetteKey(request)}.json`);
+  }
+
+  private getInner(): LLMProvider {
+    if (!this.inner) {
+      this.inner = this.createInner();
+    }
+    return this.inner;
+  }
+}
+
+/**
+ * Short form of the request key, used as the cassette file name
+ */
+export const cassetteKey = (request: CompletionRequest): string => {
+  return requestKey(request).slice(0, 16);
+};
@@ -0,0 +1,9 @@
+/**
+ * A backend that turns text into fixed-length vectors
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Identifies the vector space; vectors from different models are never compared
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
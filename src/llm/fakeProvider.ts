@@ -0,0 +1,126 @@
+import fs from 'fs';
+import { CompletionRequest, CompletionResponse, LLMProvider, LLMTask } from './llmProvider';
+import { ProviderHttpError } from './providerErrors';
+import { isObject } from './outputSchema';
+
+// An HTTP failure to raise instead of answering, e.g. a 429 rate limit
+export interface FakeError {
+  status: number;
+  message?: string;
+  retryAfterSeconds?: number;
+}
+
+export interface FakeFixture {
+  task?: LLMTask;
+  // Case-insensitive substring the final user message must contain
+  match?: string;
+  response?: unknown;
+  error?: FakeError;
+  // Only apply to the first this-many matching requests
+  times?: number;
+}
+
+export interface FakeFixtureFile {
+  defaults?: Partial<Record<LLMTask, unknown>>;
+  fixtures?: FakeFixture[];
+}
+
+/**
+ * Deterministic provider that answers from fixtures, for tests, CI and
+ * working offline. Fixtures are checked in order and the first one whose
+ * task and match apply wins; otherwise the per-task default is used.
+ * A fixture with an error raises it instead, and one with times stops
+ * matching after that many uses, to simulate rate limits and outages.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+  private static CHUNK_SIZE = 12;
+  private fixtures: FakeFixture[];
+  private uses = new Map<FakeFixture, number>();
+  private defaults: Partial<Record<LLMTask, unknown>>;
+
+  constructor(fixtureFile: FakeFixtureFile = {}) {
+    this.fixtures = fixtureFile.fixtures || [];
+    this.defaults = fixtureFile.defaults || {};
+  }
+
+  static fromFile(fixturesPath: string): FakeProvider {
+    const contents = fs.readFileSync(fixturesPath, 'utf-8');
+    return new FakeProvider(JSON.parse(contents) as FakeFixtureFile);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const userMessages = request.messages.filter(m => m.role === 'user');
+    const prompt = (userMessages[userMessages.length - 1]?.content || '').toLowerCase();
+
+    const fixture = this.fixtures.find(f =>
+      (!f.task || f.task === request.task) &&
+      (!f.match || prompt.includes(f.match.toLowerCase())) &&
+      (f.times === undefined || (this.uses.get(f) || 0) < f.times)
+    );
+
+    if (fixture) {
+      this.uses.set(fixture, (this.uses.get(fixture) || 0) + 1);
+      if (fixture.error) {
+        const { status, message, retryAfterSeconds } = fixture.error;
+        throw new ProviderHttpError(
+          status,
+          message || 'Simulated provider error',
+          retryAfterSeconds === undefined ? {} : { 'retry-after': String(retryAfterSeconds) }
+        );
+      }
+    }
+
+    const response = fixture ? fixture.response : this.defaultResponse(request.task, userMessages[userMessages.length - 1]?.content || '');
+    if (response === undefined) {
+      throw new Error(`No fake fixture found for task '${request.task}'`);
+    }
+
+    const content = typeof response === 'string' ? response : JSON.stringify(response);
+    if (request.onToken) {
+      await this.stream(content, request.onToken);
+    }
+    const promptTokens = this.countTokens(request.messages.map(m => m.content).join('\n'));
+    const completionTokens = this.countTokens(content);
+
+    return {
+      content,
+      model: `fake:${request.model}`,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  /**
+   * The per-task default. A batch enrichment without its own default gets
+   * the single-movie enrichment default for each "Movie ID: N" in the
+   * prompt, since a fixed answer can't name the movies being asked about.
+   */
+  private defaultResponse(task: LLMTask, prompt: string): unknown {
+    const attributes = this.defaults.enrichment;
+    if (task !== 'enrichmentBatch' || this.defaults.enrichmentBatch !== undefined || !isObject(attributes)) {
+      return this.defaults[task];
+    }
+
+    const movieIds = Array.from(prompt.matchAll(/^Movie ID: (\d+)$/gm), match => Number(match[1]));
+    return { movies: movieIds.map(movieId => ({ movieId, ...attributes })) };
+  }
+
+  /**
+   * Emit the content in small chunks, yielding between them like a real stream
+   */
+  private async stream(content: string, onToken: (delta: string) => void): Promise<void> {
+    for (let i = 0; i < content.length; i += FakeProvider.CHUNK_SIZE) {
+      onToken(content.slice(i, i + FakeProvider.CHUNK_SIZE));
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  // Rough whitespace token count, so usage figures are stable across runs
+  private countTokens(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { EmbeddingProvider } from './embeddingProvider';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he', 'her', 'his',
+  'in', 'is', 'it', 'its', 'of', 'on', 'she', 'that', 'the', 'their', 'they', 'this', 'to',
+  'was', 'who', 'with', 'when', 'where', 'while', 'into', 'after', 'but', 'or', 'him', 'them'
+]);
+
+/**
+ * In-process embeddings using the hashing trick over words and word
+ * bigrams. No network or model download is needed, so it works offline and
+ * in CI; quality is closer to keyword matching than a neural model.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(t => t.length > 1 && !STOP_WORDS.has(t))
+      .map(t => this.stem(t));
+
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)
+    ];
+
+    for (const feature of features) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const index = hash.readUInt32LE(0) % this.dimensions;
+      // A second hash bit decides the sign, which keeps collisions from piling up
+      const sign = hash[4] & 1 ? 1 : -1;
+      // Bigrams carry more meaning than single words but are rarer
+      vector[index] += sign * (feature.includes(' ') ? 1.5 : 1);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  // Crude suffix stripping so "thrillers" and "thriller" share a feature
+  private stem(token: string): string {
+    return token.replace(/(ing|ed|es|s)$/, '') || token;
+  }
+}
@@ -0,0 +1,114 @@
+import { OutputSchema } from './outputSchema';
+
+/**
+ * Incremental scanner that picks complete objects out of one top-level
+ * array field of a JSON response while it is still being generated, e.g.
+ * each entry of `{"recommendations": [...]}` as soon as its closing brace
+ * arrives. Anything around the JSON (such as a markdown fence) is ignored.
+ */
+class JsonArrayItemScanner {
+  private field: string;
+  private onObject: (raw: unknown) => void;
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // Last string closed directly inside the top-level object, i.e. a key or value
+  private lastTopLevelString: string | null = null;
+  // Depth inside the target array, or null when not in it
+  private arrayDepth: number | null = null;
+  private itemStart = -1;
+
+  constructor(field: string, onObject: (raw: unknown) => void) {
+    this.field = field;
+    this.onObject = onObject;
+  }
+
+  push(delta: string): void {
+    this.text += delta;
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1) {
+            try {
+              this.lastTopLevelString = JSON.parse(this.text.slice(this.stringStart, this.position + 1));
+            } catch {
+              this.lastTopLevelString = null;
+            }
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+        this.stringStart = this.position;
+      } else if (char === '{' || char === '[') {
+        if (char === '[' && this.depth === 1 && this.lastTopLevelString === this.field) {
+          this.arrayDepth = this.depth + 1;
+        } else if (char === '{' && this.depth === this.arrayDepth) {
+          this.itemStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (char === '}' && this.depth === this.arrayDepth && this.itemStart >= 0) {
+          this.emit(this.text.slice(this.itemStart, this.position + 1));
+          this.itemStart = -1;
+        } else if (char === ']' && this.arrayDepth !== null && this.depth === this.arrayDepth - 1) {
+          this.arrayDepth = null;
+        }
+      }
+    }
+  }
+
+  private emit(json: string): void {
+    try {
+      this.onObject(JSON.parse(json));
+    } catch {
+      // A malformed item is left to the full response's validation
+    }
+  }
+}
+
+/**
+ * Token callback for `completeStructured` that validates each item of a
+ * streamed array field on its own and hands over the ones that pass.
+ * A repair attempt restarts the scan; items already delivered from an
+ * earlier attempt are not delivered again.
+ */
+export const streamArrayItems = <T extends { movieId: number }>(
+  field: string,
+  schema: OutputSchema<T>,
+  onItem: (item: T) => void
+): ((delta: string, attempt: number) => void) => {
+  const delivered = new Set<number>();
+  let currentAttempt = 0;
+  let scanner: JsonArrayItemScanner | null = null;
+
+  const onObject = (raw: unknown) => {
+    const { value } = schema.validate(raw);
+    if (value && !delivered.has(value.movieId)) {
+      delivered.add(value.movieId);
+      onItem(value);
+    }
+  };
+
+  return (delta, attempt) => {
+    if (!scanner || attempt !== currentAttempt) {
+      scanner = new JsonArrayItemScanner(field, onObject);
+      currentAttempt = attempt;
+    }
+    scanner.push(delta);
+  };
+};
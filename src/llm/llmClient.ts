@@ -0,0 +1,204 @@
+import {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResponse,
+  GenerationSettings,
+  LLMProvider,
+  LLMTask
+} from './llmProvider';
+import { OutputSchema } from './outputSchema';
+import { emitEvent, isStreaming, recordLLMCall, reportProgress } from '../config/requestContext';
+import { logger } from '../config/logger';
+import { llmCallDuration, llmCallFailures } from '../config/metrics';
+
+export type TaskSettings = Record<LLMTask, GenerationSettings>;
+
+export const DEFAULT_TASK_SETTINGS: TaskSettings = {
+  enrichment: { temperature: 0.3, maxTokens: 500, responseFormat: 'json_object' },
+  // Several movies per prompt; room for ENRICHMENT_BATCH_SIZE up to 10
+  enrichmentBatch: { temperature: 0.3, maxTokens: 4000, responseFormat: 'json_object' },
+  preferences: { temperature: 0.3, maxTokens: 800, responseFormat: 'json_object' },
+  recommendations: { temperature: 0.5, maxTokens: 1500, responseFormat: 'json_object' },
+  query: { temperature: 0.4, maxTokens: 1500, responseFormat: 'json_object' },
+  compare: { temperature: 0.4, maxTokens: 2000, responseFormat: 'json_object' },
+  ratingPrediction: { temperature: 0.2, maxTokens: 1500, responseFormat: 'json_object' },
+  filters: { temperature: 0, maxTokens: 500, responseFormat: 'json_object' },
+  sessionSummary: { temperature: 0.2, maxTokens: 600, responseFormat: 'json_object' },
+  sql: { temperature: 0, maxTokens: 800, responseFormat: 'json_object' },
+  sqlExplanation: { temperature: 0.3, maxTokens: 800, responseFormat: 'json_object' },
+  companyProfile: { temperature: 0.4, maxTokens: 800, responseFormat: 'json_object' }
+};
+
+export interface LLMClientOptions {
+  model: string;
+  settings?: Partial<Record<LLMTask, Partial<GenerationSettings>>>;
+  // Extra attempts allowed after the first response fails validation
+  maxRepairAttempts?: number;
+}
+
+export interface StructuredCompletionOptions {
+  // Receives generated content as it streams, with the attempt it belongs to
+  onToken?: (delta: string, attempt: number) => void;
+}
+
+export interface StructuredCompletion<T> {
+  value: T;
+  response: CompletionResponse;
+  attempts: number;
+  validationErrors: string[][];
+}
+
+export class LLMOutputValidationError extends Error {
+  readonly task: LLMTask;
+  readonly validationErrors: string[][];
+
+  constructor(task: LLMTask, validationErrors: string[][]) {
+    const lastErrors = validationErrors[validationErrors.length - 1] || [];
+    super(
+      `LLM output for task '${task}' failed validation after ${validationErrors.length} attempt(s): ` +
+      lastErrors.join('; ')
+    );
+    this.name = 'LLMOutputValidationError';
+    this.task = task;
+    this.validationErrors = validationErrors;
+  }
+}
+
+/**
+ * Binds a provider to a model and per-task generation settings.
+ * Services depend on this rather than on a specific vendor SDK.
+ */
+export class LLMClient {
+  readonly provider: LLMProvider;
+  readonly model: string;
+  private settings: TaskSettings;
+  private maxRepairAttempts: number;
+
+  constructor(provider: LLMProvider, options: LLMClientOptions) {
+    this.provider = provider;
+    this.model = options.model;
+    this.settings = { ...DEFAULT_TASK_SETTINGS };
+    this.maxRepairAttempts = options.maxRepairAttempts ?? 2;
+
+    for (const task of Object.keys(options.settings || {}) as LLMTask[]) {
+      this.settings[task] = { ...this.settings[task], ...options.settings![task] };
+    }
+  }
+
+  getSettings(task: LLMTask): GenerationSettings {
+    return this.settings[task];
+  }
+
+  /**
+   * Complete a task. Content is streamed when the request is streaming to a
+   * client (as token events) or the caller passes `onToken`.
+   */
+  async complete(task: LLMTask, messages: ChatMessage[], onToken?: (delta: string) => void): Promise<CompletionResponse> {
+    const done = llmCallDuration.startTimer({ task });
+    const streaming = onToken !== undefined || isStreaming();
+    let streamed = false;
+
+    const forward = (delta: string) => {
+      streamed = true;
+      emitEvent('token', { task, delta });
+      onToken?.(delta);
+    };
+
+    try {
+      const response = await this.provider.complete({
+        ...this.request(task, messages),
+        ...(streaming && { onToken: forward })
+      });
+
+      // Cached and replayed responses arrive whole
+      if (streaming && !streamed && response.content) {
+        forward(response.content);
+      }
+
+      const seconds = done({ source: response.cached ? 'cache' : 'model' });
+      logger.debug('LLM call completed', {
+        task,
+        model: response.model,
+        cached: response.cached === true,
+        durationMs: Math.round(seconds * 1000),
+        totalTokens: response.usage?.totalTokens
+      });
+      return response;
+    } catch (error) {
+      const seconds = done({ source: 'error' });
+      llmCallFailures.inc({ task, reason: 'error' });
+      logger.error('LLM call failed', { task, durationMs: Math.round(seconds * 1000), error });
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a task whose output must match a schema. Invalid output is sent
+   * back to the model with the validation errors for a bounded number of
+   * repair attempts; every failure is logged and recorded on the request.
+   */
+  async completeStructured<T>(
+    task: LLMTask,
+    messages: ChatMessage[],
+    schema: OutputSchema<T>,
+    options: StructuredCompletionOptions = {}
+  ): Promise<StructuredCompletion<T>> {
+    const conversation = [...messages];
+    const validationErrors: string[][] = [];
+    let cached = true;
+
+    for (let attempt = 1; attempt <= this.maxRepairAttempts + 1; attempt++) {
+      if (attempt > 1) {
+        // Streaming clients should discard the tokens of the rejected attempt
+        reportProgress('repair', `Retrying ${task} after invalid output (attempt ${attempt})`);
+      }
+
+      const onToken = options.onToken;
+      const response = await this.complete(task, conversation, onToken && (delta => onToken(delta, attempt)));
+      cached = cached && response.cached === true;
+      const result = this.parseAndValidate(response.content, schema);
+
+      if (result.value !== undefined) {
+        recordLLMCall({ task, attempts: attempt, validationErrors, succeeded: true, cached });
+        return { value: result.value, response, attempts: attempt, validationErrors };
+      }
+
+      validationErrors.push(result.errors);
+      llmCallFailures.inc({ task, reason: 'validation' });
+      logger.warn('LLM output failed validation', { task, attempt, errors: result.errors });
+      await this.provider.discard?.(this.request(task, conversation));
+
+      conversation.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Your previous response did not match the required format:
+${result.errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with corrected JSON only, in exactly the format requested above.`
+        }
+      );
+    }
+
+    recordLLMCall({ task, attempts: validationErrors.length, validationErrors, succeeded: false, cached });
+    throw new LLMOutputValidationError(task, validationErrors);
+  }
+
+  private request(task: LLMTask, messages: ChatMessage[]): CompletionRequest {
+    return { task, model: this.model, messages: [...messages], ...this.settings[task] };
+  }
+
+  private parseAndValidate<T>(content: string, schema: OutputSchema<T>): { value?: T; errors: string[] } {
+    // Some models wrap JSON in markdown fences even when asked not to
+    const json = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error: any) {
+      return { errors: [`response is not valid JSON (${error.message})`] };
+    }
+
+    return schema.validate(parsed);
+  }
+}
@@ -0,0 +1,58 @@
+export type LLMTask =
+  | 'enrichment'
+  | 'enrichmentBatch'
+  | 'preferences'
+  | 'recommendations'
+  | 'query'
+  | 'compare'
+  | 'ratingPrediction'
+  | 'filters'
+  | 'sessionSummary'
+  | 'sql'
+  | 'sqlExplanation'
+  | 'companyProfile';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerationSettings {
+  temperature: number;
+  maxTokens: number;
+  responseFormat: 'json_object' | 'text';
+}
+
+export interface CompletionRequest extends GenerationSettings {
+  task: LLMTask;
+  model: string;
+  messages: ChatMessage[];
+  // Receives content as it is generated; providers that can't stream ignore it
+  onToken?: (delta: string) => void;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResponse {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+  // Set when the response was served from the response cache
+  cached?: boolean;
+  // Set when a spend limit sent the call to the fallback model
+  degraded?: boolean;
+}
+
+/**
+ * A backend capable of serving chat completions
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  // Forget a stored answer to the request that turned out to be unusable, e.g. invalid output
+  discard?(request: CompletionRequest): Promise<void>;
+}
@@ -0,0 +1,27 @@
+import { CompletionRequest } from './llmProvider';
+import { OpenAIProvider } from './openaiProvider';
+
+export interface LocalProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  supportsJsonMode?: boolean;
+}
+
+/**
+ * Chat completions served by a local OpenAI-compatible endpoint
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...)
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly name: string = 'local';
+  private supportsJsonMode: boolean;
+
+  constructor(options: LocalProviderOptions) {
+    // Most local servers ignore the key, but the SDK refuses to start without one
+    super({ apiKey: options.apiKey || 'local', baseURL: options.baseURL });
+    this.supportsJsonMode = options.supportsJsonMode ?? true;
+  }
+
+  protected useJsonMode(request: CompletionRequest): boolean {
+    return this.supportsJsonMode && super.useJsonMode(request);
+  }
+}
@@ -0,0 +1,39 @@
+import OpenAI from 'openai';
+import { EmbeddingProvider } from './embeddingProvider';
+
+export interface OpenAIEmbeddingProviderOptions {
+  apiKey: string;
+  model: string;
+  // Set for OpenAI-compatible local endpoints (e.g. Ollama)
+  baseURL?: string;
+}
+
+/**
+ * Embeddings served by the OpenAI API or an OpenAI-compatible endpoint
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIEmbeddingProviderOptions) {
+    if (!options.apiKey) {
+      throw new Error('An API key is required for the OpenAI embedding provider');
+    }
+
+    this.name = options.baseURL ? 'local' : 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+}
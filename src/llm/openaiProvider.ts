@@ -0,0 +1,91 @@
+import OpenAI from 'openai';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './llmProvider';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+}
+
+/**
+ * Chat completions served by the OpenAI API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    if (!options.apiKey) {
+      throw new Error('OPENAI_API_KEY is required when LLM_PROVIDER=openai');
+    }
+
+    // Retries and Retry-After are handled by the caller (RateLimitedExecutor)
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      maxRetries: 0
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if (request.onToken) {
+      return this.stream(request, request.onToken);
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(this.useJsonMode(request) && { response_format: { type: 'json_object' as const } })
+    });
+
+    return {
+      content: response.choices[0]?.message.content?.trim() || '',
+      model: response.model,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      }
+    };
+  }
+
+  private async stream(request: CompletionRequest, onToken: (delta: string) => void): Promise<CompletionResponse> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(this.useJsonMode(request) && { response_format: { type: 'json_object' as const } })
+    });
+
+    let content = '';
+    let model = request.model;
+    let usage: CompletionResponse['usage'];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      // Sent on the final chunk when include_usage is honoured
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        };
+      }
+    }
+
+    return { content: content.trim(), model, usage };
+  }
+
+  protected useJsonMode(request: CompletionRequest): boolean {
+    return request.responseFormat === 'json_object';
+  }
+}
@@ -0,0 +1,101 @@
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+/**
+ * Describes the shape an LLM task must return. `validate` receives the
+ * parsed JSON and either returns a normalized value or a list of errors
+ * that can be fed back to the model in a repair prompt.
+ */
+export interface OutputSchema<T> {
+  name: string;
+  validate(raw: unknown): ValidationResult<T>;
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const expectString = (
+  obj: Record<string, unknown>,
+  field: string,
+  errors: string[],
+  path: string = field
+): string => {
+  const value = obj[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path} must be a non-empty string`);
+    return '';
+  }
+  return value.trim();
+};
+
+export const expectNumber = (
+  obj: Record<string, unknown>,
+  field: string,
+  errors: string[],
+  range: { min: number; max: number },
+  path: string = field
+): number => {
+  const value = typeof obj[field] === 'string' ? Number(obj[field]) : obj[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a number`);
+    return NaN;
+  }
+  if (value < range.min || value > range.max) {
+    errors.push(`${path} must be between ${range.min} and ${range.max} (got ${value})`);
+  }
+  return value;
+};
+
+export const expectEnum = <T extends string>(
+  obj: Record<string, unknown>,
+  field: string,
+  allowed: readonly T[],
+  errors: string[],
+  path: string = field
+): T => {
+  const value = obj[field];
+  const match = allowed.find(a => typeof value === 'string' && a.toLowerCase() === value.trim().toLowerCase());
+  if (!match) {
+    errors.push(`${path} must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})`);
+    return allowed[0];
+  }
+  return match;
+};
+
+export const expectStringArray = (
+  obj: Record<string, unknown>,
+  field: string,
+  errors: string[],
+  options: { min?: number; max?: number } = {},
+  path: string = field
+): string[] => {
+  const value = obj[field];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    errors.push(`${path} must be an array of strings`);
+    return [];
+  }
+  if (options.min !== undefined && value.length < options.min) {
+    errors.push(`${path} must contain at least ${options.min} item(s)`);
+  }
+  if (options.max !== undefined && value.length > options.max) {
+    errors.push(`${path} must contain at most ${options.max} item(s)`);
+  }
+  return value.map(v => v.trim());
+};
+
+export const expectArray = (
+  obj: Record<string, unknown>,
+  field: string,
+  errors: string[],
+  path: string = field
+): unknown[] => {
+  const value = obj[field];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  return value;
+};
@@ -0,0 +1,70 @@
+/**
+ * An HTTP failure from a provider, shaped like the OpenAI SDK's APIError
+ * (status plus lower-cased headers) so both are classified the same way
+ */
+export class ProviderHttpError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(`${status} ${message}`);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export interface TransientFailure {
+  reason: 'rate_limit' | 'transient';
+  // Delay the provider asked for, if it sent one
+  retryAfterMs: number | null;
+}
+
+const CONNECTION_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError'];
+const CONNECTION_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+const header = (headers: unknown, name: string): string | null => {
+  if (!headers || typeof headers !== 'object') return null;
+  if (typeof (headers as any).get === 'function') return (headers as any).get(name);
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : null;
+};
+
+/**
+ * Milliseconds from the retry-after-ms header, or retry-after as seconds
+ * or an HTTP date
+ */
+const retryAfterMs = (headers: unknown): number | null => {
+  const millis = parseFloat(header(headers, 'retry-after-ms') || '');
+  if (Number.isFinite(millis) && millis >= 0) return millis;
+
+  const retryAfter = header(headers, 'retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = parseFloat(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Whether a failed LLM call is worth retrying: rate limits (429), request
+ * timeouts (408), server errors (5xx) and dropped connections are; bad
+ * requests, auth failures, invalid output and spend limits are not
+ */
+export const transientFailure = (error: unknown): TransientFailure | null => {
+  if (!error || typeof error !== 'object') return null;
+  const { status, headers, name, code } = error as { status?: unknown; headers?: unknown; name?: string; code?: string };
+
+  if (status === 429) {
+    return { reason: 'rate_limit', retryAfterMs: retryAfterMs(headers) };
+  }
+  if (status === 408 || (typeof status === 'number' && status >= 500)) {
+    return { reason: 'transient', retryAfterMs: retryAfterMs(headers) };
+  }
+  if ((name && CONNECTION_ERROR_NAMES.includes(name)) || (code && CONNECTION_ERROR_CODES.includes(code))) {
+    return { reason: 'transient', retryAfterMs: null };
+  }
+  return null;
+};
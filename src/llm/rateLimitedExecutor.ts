@@ -0,0 +1,162 @@
+import { logger } from '../config/logger';
+import { llmCallRetries } from '../config/metrics';
+import { transientFailure } from './providerErrors';
+
+export interface RateLimitOptions {
+  // Calls in flight at once
+  concurrency: number;
+  // Calls started per minute; 0 for no limit
+  requestsPerMinute: number;
+  // Retries of a call after a transient failure
+  maxRetries: number;
+  // First backoff delay, doubled on each retry
+  backoffBaseMs: number;
+}
+
+// Longest backoff between retries, however many have failed
+const MAX_BACKOFF_MS = 60_000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A call that kept failing transiently until its retries ran out
+ */
+export class RetriesExhaustedError extends Error {
+  readonly attempts: number;
+  readonly lastError: unknown;
+
+  constructor(attempts: number, lastError: unknown) {
+    super(`${lastError instanceof Error ? lastError.message : String(lastError)} (gave up after ${attempts} attempts)`);
+    this.name = 'RetriesExhaustedError';
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Token bucket holding up to `capacity` call starts, refilled at
+ * requestsPerMinute; callers wait their turn in arrival order
+ */
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+  private capacity: number;
+  private perMs: number;
+
+  constructor(capacity: number, requestsPerMinute: number) {
+    this.capacity = capacity;
+    this.tokens = capacity;
+    this.perMs = requestsPerMinute / 60_000;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(Math.ceil((1 - this.tokens) / this.perMs));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) * this.perMs);
+    this.refilledAt = now;
+  }
+}
+
+/**
+ * Runs LLM work with bounded concurrency under a requests-per-minute
+ * budget. Transient failures are retried with exponential backoff and
+ * jitter, or after the provider's Retry-After when it sends one; a rate
+ * limit pauses every caller sharing the executor, not just the one that
+ * hit it.
+ */
+export class RateLimitedExecutor {
+  private options: RateLimitOptions;
+  private bucket: TokenBucket | null;
+  private pausedUntil = 0;
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+    this.bucket = options.requestsPerMinute > 0
+      ? new TokenBucket(Math.max(1, options.concurrency), options.requestsPerMinute)
+      : null;
+  }
+
+  /**
+   * Run the worker over every item, at most `concurrency` at a time. No
+   * new items start once shouldStop returns true or a worker throws; the
+   * first worker error is rethrown after in-flight items settle.
+   */
+  async forEach<T>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<void>,
+    shouldStop: () => boolean = () => false
+  ): Promise<void> {
+    let next = 0;
+    let failure: { error: unknown } | null = null;
+
+    const lane = async () => {
+      while (next < items.length && !failure && !shouldStop()) {
+        const index = next++;
+        try {
+          await worker(items[index], index);
+        } catch (error) {
+          failure = failure || { error };
+        }
+      }
+    };
+
+    const lanes = Math.max(1, Math.min(this.options.concurrency, items.length));
+    await Promise.all(Array.from({ length: lanes }, lane));
+
+    if (failure) throw (failure as { error: unknown }).error;
+  }
+
+  /**
+   * Call fn once the rate limit allows, retrying transient failures.
+   * Other errors are rethrown as they are; a call that is still failing
+   * after maxRetries throws RetriesExhaustedError.
+   */
+  async call<R>(fn: () => Promise<R>, label: string = 'LLM call'): Promise<R> {
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForTurn();
+
+      try {
+        return await fn();
+      } catch (error) {
+        const transient = transientFailure(error);
+        if (!transient) throw error;
+        if (attempt > this.options.maxRetries) throw new RetriesExhaustedError(attempt, error);
+
+        const backoff = Math.min(MAX_BACKOFF_MS, this.options.backoffBaseMs * 2 ** (attempt - 1));
+        const delayMs = transient.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2;
+        if (transient.reason === 'rate_limit') {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+        }
+
+        llmCallRetries.inc({ reason: transient.reason });
+        logger.warn(`${label} failed, retrying`, {
+          attempt,
+          reason: transient.reason,
+          delayMs: Math.round(delayMs),
+          error: error instanceof Error ? error.message : String(error)
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private async waitForTurn(): Promise<void> {
+    while (Date.now() < this.pausedUntil) {
+      await sleep(this.pausedUntil - Date.now());
+    }
+    if (this.bucket) await this.bucket.take();
+  }
+}
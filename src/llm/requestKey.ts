@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { CompletionRequest } from './llmProvider';
+
+/**
+ * Collapse whitespace so cosmetic prompt edits (indentation, trailing spaces)
+ * don't produce a different key
+ */
+const normalizeText = (text: string): string => {
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Stable SHA-256 hex digest of everything that affects the completion
+ */
+export const requestKey = (request: CompletionRequest): string => {
+  const normalized = JSON.stringify([
+    request.task,
+    request.model,
+    request.temperature,
+    request.maxTokens,
+    request.responseFormat,
+    request.messages.map(m => [m.role, normalizeText(m.content)])
+  ]);
+
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+};
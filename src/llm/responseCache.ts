@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { CompletionResponse, LLMTask } from './llmProvider';
+
+// Seconds a response stays valid per task; 0 disables caching for the task.
+// Enrichment (single or batched) is versioned separately and should always reach the model.
+export const DEFAULT_CACHE_TTLS: Record<LLMTask, number> = {
+  enrichment: 0,
+  enrichmentBatch: 0,
+  preferences: 24 * 60 * 60,
+  recommendations: 60 * 60,
+  query: 60 * 60,
+  compare: 24 * 60 * 60,
+  ratingPrediction: 24 * 60 * 60,
+  filters: 24 * 60 * 60,
+  sessionSummary: 24 * 60 * 60,
+  sql: 24 * 60 * 60,
+  // Explains rows that change with the data, so keep it short-lived
+  sqlExplanation: 60 * 60,
+  companyProfile: 24 * 60 * 60
+};
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  writes: number;
+  bypassed: number;
+}
+
+export interface CacheTaskStats extends CacheCounters {
+  ttlSeconds: number;
+  entries: number;
+  hitRate: number | null;
+}
+
+export interface CacheStats {
+  path: string;
+  since: string;
+  totals: Omit<CacheTaskStats, 'ttlSeconds'>;
+  tasks: Partial<Record<LLMTask, CacheTaskStats>>;
+}
+
+const emptyCounters = (): CacheCounters => ({ hits: 0, misses: 0, writes: 0, bypassed: 0 });
+
+const hitRate = ({ hits, misses }: CacheCounters): number | null => {
+  return hits + misses > 0 ? Number((hits / (hits + misses)).toFixed(4)) : null;
+};
+
+/**
+ * SQLite store for LLM completions keyed by request hash. Counters cover
+ * lookups since the process started; entry counts come from the table.
+ */
+export class ResponseCache {
+  readonly path: string;
+  private ttls: Record<LLMTask, number>;
+  private db?: sqlite3.Database;
+  private ready?: Promise<void>;
+  private counters = new Map<LLMTask, CacheCounters>();
+  private since = new Date().toISOString();
+
+  constructor(dbPath: string, ttls: Partial<Record<LLMTask, number>> = {}) {
+    this.path = dbPath;
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...ttls };
+  }
+
+  ttlFor(task: LLMTask): number {
+    return this.ttls[task];
+  }
+
+  /**
+   * Cached response for a key, counting the lookup as a hit or miss.
+   * Expired entries are deleted on read.
+   */
+  async lookup(task: LLMTask, key: string): Promise<CompletionResponse | null> {
+    const rows = await this.query<{ response: string; expiresAt: number }>(
+      'SELECT response, expiresAt FROM llm_response_cache WHERE key = ?',
+      [key]
+    );
+    const row = rows[0];
+
+    if (!row || row.expiresAt <= Date.now()) {
+      if (row) {
+        await this.run('DELETE FROM llm_response_cache WHERE key = ?', [key]);
+      }
+      this.count(task, 'misses');
+      return null;
+    }
+
+    await this.run('UPDATE llm_response_cache SET hitCount = hitCount + 1 WHERE key = ?', [key]);
+    this.count(task, 'hits');
+    return JSON.parse(row.response) as CompletionResponse;
+  }
+
+  async store(task: LLMTask, key: string, response: CompletionResponse): Promise<void> {
+    const now = Date.now();
+    await this.run(
+      `INSERT OR REPLACE INTO llm_response_cache (key, task, model, response, createdAt, expiresAt, hitCount)
+       VALUES (?, ?, ?, ?, ?, ?, 0)`,
+      [key, task, response.model, JSON.stringify(response), now, now + this.ttlFor(task) * 1000]
+    );
+    this.count(task, 'writes');
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('DELETE FROM llm_response_cache WHERE key = ?', [key]);
+  }
+
+  recordBypass(task: LLMTask): void {
+    this.count(task, 'bypassed');
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const entries = await this.query<{ task: LLMTask; entries: number }>(
+      'SELECT task, COUNT(*) as entries FROM llm_response_cache WHERE expiresAt > ? GROUP BY task',
+      [Date.now()]
+    );
+    const entryCounts = new Map(entries.map(e => [e.task, e.entries]));
+
+    const tasks: Partial<Record<LLMTask, CacheTaskStats>> = {};
+    const totals = { ...emptyCounters(), entries: 0 };
+
+    for (const task of Object.keys(this.ttls) as LLMTask[]) {
+      const counters = this.counters.get(task) || emptyCounters();
+      const taskEntries = entryCounts.get(task) || 0;
+      tasks[task] = {
+        ttlSeconds: this.ttls[task],
+        entries: taskEntries,
+        ...counters,
+        hitRate: hitRate(counters)
+      };
+
+      totals.hits += counters.hits;
+      totals.misses += counters.misses;
+      totals.writes += counters.writes;
+      totals.bypassed += counters.bypassed;
+      totals.entries += taskEntries;
+    }
+
+    return {
+      path: this.path,
+      since: this.since,
+      totals: { ...totals, hitRate: hitRate(totals) },
+      tasks
+    };
+  }
+
+  /**
+   * Delete cached responses, optionally for one task only. Returns the number removed.
+   */
+  async clear(task?: LLMTask): Promise<number> {
+    const rows = await this.query<{ count: number }>(
+      `SELECT COUNT(*) as count FROM llm_response_cache${task ? ' WHERE task = ?' : ''}`,
+      task ? [task] : []
+    );
+    await this.run(`DELETE FROM llm_response_cache${task ? ' WHERE task = ?' : ''}`, task ? [task] : []);
+    return rows[0]?.count || 0;
+  }
+
+  close(): void {
+    this.db?.close();
+  }
+
+  private count(task: LLMTask, counter: keyof CacheCounters): void {
+    const counters = this.counters.get(task) || emptyCounters();
+    counters[counter]++;
+    this.counters.set(task, counters);
+  }
+
+  /**
+   * The database is opened on first use so processes that never hit a
+   * cached task don't create the file
+   */
+  private open(): Promise<sqlite3.Database> {
+    if (!this.ready) {
+      fs.mkdirSync(path.dirname(this.path), { recursive: true });
+      this.db = new sqlite3.Database(this.path);
+      this.ready = new Promise((resolve, reject) => {
+        this.db!.exec(`
+          CREATE TABLE IF NOT EXISTS llm_response_cache (
+            key TEXT PRIMARY KEY,
+            task TEXT NOT NULL,
+            model TEXT,
+            response TEXT NOT NULL,
+            createdAt INTEGER NOT NULL,
+            expiresAt INTEGER NOT NULL,
+            hitCount INTEGER NOT NULL DEFAULT 0
+          );
+          CREATE INDEX IF NOT EXISTS idx_llm_response_cache_task ON llm_response_cache (task, expiresAt);
+          DELETE FROM llm_response_cache WHERE expiresAt <= ${Date.now()};
+        `, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }
+    return this.ready.then(() => this.db!);
+  }
+
+  private async query<T>(sql: string, params: any[] = []): Promise<T[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows as T[]);
+      });
+    });
+  }
+
+  private async run(sql: string, params: any[] = []): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,492 @@
+import {
+  OutputSchema,
+  isObject,
+  expectArray,
+  expectEnum,
+  expectNumber,
+  expectString,
+  expectStringArray
+} from './outputSchema';
+import { QueryResult } from '../models/queryResult';
+import { MovieComparison } from '../models/movieComparison';
+import { EnrichmentValue, LLMAttribute, LLM_ATTRIBUTES } from '../config/enrichmentAttributes';
+import { SqlGuardOptions, validateReadOnlySql } from '../utils/sqlGuard';
+import { RecommendationFilters } from '../models/recommendationFilters';
+import { validateRecommendationFilters } from '../utils/recommendationFilters';
+
+export const BUDGET_PREFERENCES = ['High-budget', 'Mid-budget', 'Indie', 'Mixed'] as const;
+
+// Keyed by LLM attribute name from the enrichment registry
+export type EnrichmentOutput = Record<string, EnrichmentValue>;
+
+export interface BatchEnrichmentOutput {
+  movieId: number;
+  attributes: EnrichmentOutput;
+}
+
+export interface PreferencesOutput {
+  favoriteGenres: string[];
+  preferredEmotionalTones: string[];
+  budgetPreference: typeof BUDGET_PREFERENCES[number];
+  summary: string;
+}
+
+export interface RecommendationOutput {
+  movieId: number;
+  score: number;
+  reasoning: string;
+}
+
+export interface RatingPredictionOutput {
+  movieId: number;
+  predictedRating: number;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface FilterParseOutput {
+  filters: RecommendationFilters;
+  interpretation: string;
+  unsupported: string[];
+}
+
+export interface SessionSummaryOutput {
+  summary: string;
+}
+
+export interface SqlQueryOutput {
+  sql: string;
+}
+
+export interface SqlExplanationOutput {
+  explanation: string;
+}
+
+export interface CompanyProfileOutput {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+}
+
+const notAnObject = (name: string) => ({ errors: [`${name} response must be a JSON object`] });
+
+const validateRecommendationItem = (
+  item: unknown,
+  path: string,
+  candidateIds: Set<number>,
+  errors: string[]
+): RecommendationOutput | null => {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const movieId = expectNumber(item, 'movieId', errors, { min: 1, max: Number.MAX_SAFE_INTEGER }, `${path}.movieId`);
+  if (Number.isFinite(movieId) && !candidateIds.has(movieId)) {
+    errors.push(`${path}.movieId ${movieId} is not one of the available movies`);
+  }
+
+  return {
+    movieId,
+    score: expectNumber(item, 'score', errors, { min: 0, max: 100 }, `${path}.score`),
+    reasoning: expectString(item, 'reasoning', errors, `${path}.reasoning`)
+  };
+};
+
+const validateQueryMovieItem = (
+  item: unknown,
+  path: string,
+  knownIds: Set<number>,
+  errors: string[]
+): QueryResult['movies'][number] => {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return { movieId: NaN, title: '', reason: '' };
+  }
+
+  const movieId = expectNumber(item, 'movieId', errors, { min: 1, max: Number.MAX_SAFE_INTEGER }, `${path}.movieId`);
+  if (Number.isFinite(movieId) && !knownIds.has(movieId)) {
+    errors.push(`${path}.movieId ${movieId} is not in the movie database`);
+  }
+
+  return {
+    movieId,
+    title: expectString(item, 'title', errors, `${path}.title`),
+    reason: typeof item.reason === 'string' ? item.reason : ''
+  };
+};
+
+const validateComparisonItem = (
+  item: unknown,
+  path: string,
+  movieIds: number[],
+  errors: string[]
+): MovieComparison['movies'][number] => {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return { movieId: NaN, title: '', strengths: [], bestFor: '' };
+  }
+
+  const movieId = expectNumber(item, 'movieId', errors, { min: 1, max: Number.MAX_SAFE_INTEGER }, `${path}.movieId`);
+  if (Number.isFinite(movieId) && !movieIds.includes(movieId)) {
+    errors.push(`${path}.movieId ${movieId} is not one of the compared movies`);
+  }
+
+  return {
+    movieId,
+    title: expectString(item, 'title', errors, `${path}.title`),
+    strengths: expectStringArray(item, 'strengths', errors, { min: 1 }, `${path}.strengths`),
+    bestFor: expectString(item, 'bestFor', errors, `${path}.bestFor`)
+  };
+};
+
+/**
+ * Validate one LLM attribute according to its registry definition
+ */
+const validateAttribute = (
+  raw: Record<string, unknown>,
+  attribute: LLMAttribute,
+  errors: string[],
+  prefix: string = ''
+): EnrichmentValue => {
+  const { name, allowedValues = [] } = attribute;
+  const path = `${prefix}${name}`;
+
+  switch (attribute.type) {
+    case 'category':
+      return expectEnum(raw, name, allowedValues, errors, path);
+    case 'number': {
+      const value = expectNumber(raw, name, errors, {
+        min: attribute.min ?? -Infinity,
+        max: attribute.max ?? Infinity
+      }, path);
+      return attribute.integer ? Math.round(value) : value;
+    }
+    case 'tags': {
+      // Accept either "a, b" or ["a", "b"]
+      const tagsValue = Array.isArray(raw[name]) ? (raw[name] as unknown[]).join(',') : raw[name];
+      const tags = typeof tagsValue === 'string'
+        ? tagsValue.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)
+        : [];
+      const maxItems = attribute.maxItems ?? allowedValues.length;
+
+      if (tags.length < 1 || tags.length > maxItems) {
+        errors.push(`${path} must list 1-${maxItems} categories`);
+      }
+      const unknown = tags.filter(t => !allowedValues.includes(t));
+      if (unknown.length > 0) {
+        errors.push(`${path} contains unknown categories: ${unknown.join(', ')} (allowed: ${allowedValues.join(', ')})`);
+      }
+      return tags.join(', ');
+    }
+  }
+};
+
+export const enrichmentSchema: OutputSchema<EnrichmentOutput> = {
+  name: 'enrichment',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('enrichment');
+    const errors: string[] = [];
+
+    const value = Object.fromEntries(
+      LLM_ATTRIBUTES.map(attribute => [attribute.name, validateAttribute(raw, attribute, errors)])
+    );
+
+    return errors.length > 0 ? { errors } : { errors, value };
+  }
+};
+
+/**
+ * Attributes for several movies from one prompt, exactly one entry per movie
+ */
+export const batchEnrichmentSchema = (movieIds: number[]): OutputSchema<BatchEnrichmentOutput[]> => ({
+  name: 'enrichmentBatch',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('enrichmentBatch');
+    const errors: string[] = [];
+
+    const movies = expectArray(raw, 'movies', errors).map((item, i) => {
+      const path = `movies[${i}]`;
+      if (!isObject(item)) {
+        errors.push(`${path} must be an object`);
+        return { movieId: NaN, attributes: {} };
+      }
+
+      const movieId = expectNumber(item, 'movieId', errors, { min: 1, max: Number.MAX_SAFE_INTEGER }, `${path}.movieId`);
+      if (Number.isFinite(movieId) && !movieIds.includes(movieId)) {
+        errors.push(`${path}.movieId ${movieId} was not one of the movies to enrich`);
+      }
+
+      return {
+        movieId,
+        attributes: Object.fromEntries(
+          LLM_ATTRIBUTES.map(attribute => [attribute.name, validateAttribute(item, attribute, errors, `${path}.`)])
+        )
+      };
+    });
+
+    const missing = movieIds.filter(id => !movies.some(m => m.movieId === id));
+    if (missing.length > 0) {
+      errors.push(`movies is missing entries for movieId(s) ${missing.join(', ')}`);
+    }
+    const duplicates = movieIds.filter(id => movies.filter(m => m.movieId === id).length > 1);
+    if (duplicates.length > 0) {
+      errors.push(`movies has more than one entry for movieId(s) ${duplicates.join(', ')}`);
+    }
+
+    return errors.length > 0 ? { errors } : { errors, value: movies };
+  }
+});
+
+export const preferencesSchema: OutputSchema<PreferencesOutput> = {
+  name: 'preferences',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('preferences');
+    const errors: string[] = [];
+
+    const value = {
+      favoriteGenres: expectStringArray(raw, 'favoriteGenres', errors, { min: 1, max: 5 }),
+      preferredEmotionalTones: expectStringArray(raw, 'preferredEmotionalTones', errors, { min: 1 }),
+      budgetPreference: expectEnum(raw, 'budgetPreference', BUDGET_PREFERENCES, errors),
+      summary: expectString(raw, 'summary', errors)
+    };
+
+    return errors.length > 0 ? { errors } : { errors, value };
+  }
+};
+
+/**
+ * Recommendations must reference movies from the candidate set the model was shown
+ */
+export const recommendationsSchema = (
+  candidateIds: Set<number>,
+  count: number
+): OutputSchema<RecommendationOutput[]> => ({
+  name: 'recommendations',
+  validate(raw) {
+    // The prompt asks for { "recommendations": [...] } but tolerate a bare array
+    const items = Array.isArray(raw)
+      ? raw
+      : isObject(raw) && Array.isArray(raw.recommendations) ? raw.recommendations as unknown[] : null;
+
+    if (!items) {
+      return { errors: ['response must be an object with a "recommendations" array'] };
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<number>();
+    const value: RecommendationOutput[] = [];
+
+    // Extra items are dropped rather than sent back for repair
+    items.slice(0, count).forEach((item, i) => {
+      const path = `recommendations[${i}]`;
+      const recommendation = validateRecommendationItem(item, path, candidateIds, errors);
+      if (!recommendation) return;
+
+      if (seen.has(recommendation.movieId)) {
+        errors.push(`${path}.movieId ${recommendation.movieId} is recommended more than once`);
+      }
+      seen.add(recommendation.movieId);
+      value.push(recommendation);
+    });
+
+    return errors.length > 0 ? { errors } : { errors, value };
+  }
+});
+
+/**
+ * One entry of a streamed recommendations array, validated on its own
+ */
+export const recommendationItemSchema = (candidateIds: Set<number>): OutputSchema<RecommendationOutput> => ({
+  name: 'recommendations',
+  validate(raw) {
+    const errors: string[] = [];
+    const value = validateRecommendationItem(raw, 'recommendation', candidateIds, errors);
+    return errors.length > 0 || !value ? { errors } : { errors, value };
+  }
+});
+
+/**
+ * Movies cited in a query answer must exist in the data the model was shown
+ */
+export const querySchema = (knownIds: Set<number>): OutputSchema<QueryResult> => ({
+  name: 'query',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('query');
+    const errors: string[] = [];
+
+    const answer = expectString(raw, 'answer', errors);
+    const movies = (raw.movies === undefined ? [] : expectArray(raw, 'movies', errors))
+      .map((item, i) => validateQueryMovieItem(item, `movies[${i}]`, knownIds, errors));
+
+    return errors.length > 0 ? { errors } : { errors, value: { answer, movies } };
+  }
+});
+
+/**
+ * One entry of a streamed query answer's movies array
+ */
+export const queryMovieItemSchema = (knownIds: Set<number>): OutputSchema<QueryResult['movies'][number]> => ({
+  name: 'query',
+  validate(raw) {
+    const errors: string[] = [];
+    const value = validateQueryMovieItem(raw, 'movie', knownIds, errors);
+    return errors.length > 0 ? { errors } : { errors, value };
+  }
+});
+
+/**
+ * A comparison must cover exactly the movies that were compared
+ */
+export const comparisonSchema = (movieIds: number[]): OutputSchema<Omit<MovieComparison, 'matrix'>> => ({
+  name: 'compare',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('compare');
+    const errors: string[] = [];
+
+    const summary = expectString(raw, 'summary', errors);
+    const recommendation = typeof raw.recommendation === 'string' ? raw.recommendation : '';
+    const movies = expectArray(raw, 'movies', errors)
+      .map((item, i) => validateComparisonItem(item, `movies[${i}]`, movieIds, errors));
+
+    const missing = movieIds.filter(id => !movies.some(m => m.movieId === id));
+    if (missing.length > 0) {
+      errors.push(`movies is missing entries for movieId(s) ${missing.join(', ')}`);
+    }
+
+    return errors.length > 0 ? { errors } : { errors, value: { summary, movies, recommendation } };
+  }
+});
+
+/**
+ * One entry of a streamed comparison's movies array
+ */
+export const comparisonItemSchema = (movieIds: number[]): OutputSchema<MovieComparison['movies'][number]> => ({
+  name: 'compare',
+  validate(raw) {
+    const errors: string[] = [];
+    const value = validateComparisonItem(raw, 'movie', movieIds, errors);
+    return errors.length > 0 ? { errors } : { errors, value };
+  }
+});
+
+/**
+ * One prediction per target movie, on the 0.5-5.0 half-star scale
+ */
+export const ratingPredictionsSchema = (movieIds: number[]): OutputSchema<RatingPredictionOutput[]> => ({
+  name: 'ratingPrediction',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('ratingPrediction');
+    const errors: string[] = [];
+
+    const predictions = expectArray(raw, 'predictions', errors).map((item, i) => {
+      const path = `predictions[${i}]`;
+      if (!isObject(item)) {
+        errors.push(`${path} must be an object`);
+        return { movieId: NaN, predictedRating: NaN, confidence: NaN, reasoning: '' };
+      }
+
+      const movieId = expectNumber(item, 'movieId', errors, { min: 1, max: Number.MAX_SAFE_INTEGER }, `${path}.movieId`);
+      if (Number.isFinite(movieId) && !movieIds.includes(movieId)) {
+        errors.push(`${path}.movieId ${movieId} was not one of the movies to predict`);
+      }
+
+      const predictedRating = expectNumber(item, 'predictedRating', errors, { min: 0.5, max: 5 }, `${path}.predictedRating`);
+
+      return {
+        movieId,
+        // Snap to the half-star scale users rate on
+        predictedRating: Math.round(predictedRating * 2) / 2,
+        confidence: expectNumber(item, 'confidence', errors, { min: 0, max: 1 }, `${path}.confidence`),
+        reasoning: expectString(item, 'reasoning', errors, `${path}.reasoning`)
+      };
+    });
+
+    const missing = movieIds.filter(id => !predictions.some(p => p.movieId === id));
+    if (missing.length > 0) {
+      errors.push(`predictions is missing entries for movieId(s) ${missing.join(', ')}`);
+    }
+
+    return errors.length > 0 ? { errors } : { errors, value: predictions };
+  }
+});
+
+/**
+ * Generated SQL must pass the read-only allow-list; its errors go back to
+ * the model in the repair prompt
+ */
+export const sqlQuerySchema = (guard: SqlGuardOptions): OutputSchema<SqlQueryOutput> => ({
+  name: 'sql',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('sql');
+    const errors: string[] = [];
+
+    const sql = expectString(raw, 'sql', errors);
+    if (errors.length > 0) return { errors };
+
+    const checked = validateReadOnlySql(sql, guard);
+    if (checked.errors.length > 0) {
+      return { errors: checked.errors.map(e => `sql: ${e}`) };
+    }
+
+    return { errors, value: { sql: checked.sql } };
+  }
+});
+
+export const sqlExplanationSchema: OutputSchema<SqlExplanationOutput> = {
+  name: 'sqlExplanation',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('sqlExplanation');
+    const errors: string[] = [];
+
+    const explanation = expectString(raw, 'explanation', errors);
+
+    return errors.length > 0 ? { errors } : { errors, value: { explanation } };
+  }
+};
+
+/**
+ * Parsed filters must pass the same validation as filters sent directly
+ */
+export const filterParseSchema: OutputSchema<FilterParseOutput> = {
+  name: 'filters',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('filters');
+    const errors: string[] = [];
+
+    const parsed = validateRecommendationFilters(raw.filters);
+    errors.push(...parsed.errors);
+    const interpretation = expectString(raw, 'interpretation', errors);
+    const unsupported = raw.unsupported === undefined ? [] : expectStringArray(raw, 'unsupported', errors);
+
+    return errors.length > 0 || !parsed.value
+      ? { errors }
+      : { errors, value: { filters: parsed.value, interpretation, unsupported } };
+  }
+};
+
+export const sessionSummarySchema: OutputSchema<SessionSummaryOutput> = {
+  name: 'sessionSummary',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('sessionSummary');
+    const errors: string[] = [];
+
+    const summary = expectString(raw, 'summary', errors);
+
+    return errors.length > 0 ? { errors } : { errors, value: { summary } };
+  }
+};
+
+export const companyProfileSchema: OutputSchema<CompanyProfileOutput> = {
+  name: 'companyProfile',
+  validate(raw) {
+    if (!isObject(raw)) return notAnObject('companyProfile');
+    const errors: string[] = [];
+
+    const summary = expectString(raw, 'summary', errors);
+    const strengths = expectStringArray(raw, 'strengths', errors, { max: 5 });
+    const weaknesses = expectStringArray(raw, 'weaknesses', errors, { max: 5 });
+
+    return errors.length > 0 ? { errors } : { errors, value: { summary, strengths, weaknesses } };
+  }
+};
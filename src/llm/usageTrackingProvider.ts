@@ -0,0 +1,146 @@
+import { getRequestContext } from '../config/requestContext';
+import { CompletionRequest, CompletionResponse, LLMProvider, TokenUsage } from './llmProvider';
+import { LLMUsageRecord } from '../models/llmUsage';
+import { logger } from '../config/logger';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+export const SPEND_LIMIT_ACTIONS = ['reject', 'degrade'] as const;
+export type SpendLimitAction = typeof SPEND_LIMIT_ACTIONS[number];
+
+export interface SpendLimits {
+  // USD; 0 means no limit
+  dailyUsd: number;
+  monthlyUsd: number;
+  // reject fails the call; degrade sends it to `degradeModel` instead
+  action: SpendLimitAction;
+  degradeModel: string;
+}
+
+export interface UsageStore {
+  saveLLMUsage(record: LLMUsageRecord): Promise<void>;
+  getLLMSpendSince(since: string): Promise<number>;
+}
+
+export interface UsageTrackingOptions {
+  prices: Record<string, ModelPrice>;
+  limits: SpendLimits;
+}
+
+export class SpendLimitExceededError extends Error {
+  readonly period: 'daily' | 'monthly';
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+
+  constructor(period: 'daily' | 'monthly', limitUsd: number, spentUsd: number) {
+    super(`LLM ${period} spend limit of $${limitUsd.toFixed(2)} reached ($${spentUsd.toFixed(4)} spent)`);
+    this.name = 'SpendLimitExceededError';
+    this.period = period;
+    this.limitUsd = limitUsd;
+    this.spentUsd = spentUsd;
+  }
+}
+
+/**
+ * Price for a model, matching dated snapshots such as gpt-4o-mini-2024-07-18
+ * by the longest configured prefix
+ */
+export const priceFor = (model: string, prices: Record<string, ModelPrice>): ModelPrice | null => {
+  const match = Object.keys(prices)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+};
+
+export const costOf = (usage: TokenUsage | undefined, price: ModelPrice | null): number => {
+  if (!usage || !price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Records token usage and cost for every call that reaches the model,
+ * attributed to the current request, and enforces the spend limits.
+ * Sits beneath the cache and cassettes so replayed answers cost nothing.
+ */
+export class UsageTrackingProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+  private store: UsageStore;
+  private options: UsageTrackingOptions;
+
+  constructor(inner: LLMProvider, store: UsageStore, options: UsageTrackingOptions) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.store = store;
+    this.options = options;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const exceeded = await this.checkLimits();
+    const degraded = exceeded !== null;
+
+    if (exceeded && this.options.limits.action === 'reject') {
+      throw exceeded;
+    }
+
+    const effective = degraded ? { ...request, model: this.options.limits.degradeModel } : request;
+    const response = await this.inner.complete(effective);
+
+    try {
+      await this.record(effective, response, degraded);
+    } catch (error) {
+      logger.error('Failed to record LLM usage', { task: request.task, error });
+    }
+
+    return degraded ? { ...response, degraded: true } : response;
+  }
+
+  private async record(request: CompletionRequest, response: CompletionResponse, degraded: boolean): Promise<void> {
+    const context = getRequestContext();
+    const usage = response.usage;
+
+    await this.store.saveLLMUsage({
+      requestId: context?.requestId || null,
+      endpoint: context?.endpoint || null,
+      task: request.task,
+      model: response.model || request.model,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      totalTokens: usage?.totalTokens ?? 0,
+      costUsd: costOf(usage, priceFor(response.model || request.model, this.options.prices)),
+      degraded,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * The first limit already reached, checking the daily limit first
+   */
+  private async checkLimits(): Promise<SpendLimitExceededError | null> {
+    const { dailyUsd, monthlyUsd } = this.options.limits;
+    const today = new Date().toISOString().slice(0, 10);
+
+    if (dailyUsd > 0) {
+      const spent = await this.store.getLLMSpendSince(today);
+      if (spent >= dailyUsd) return new SpendLimitExceededError('daily', dailyUsd, spent);
+    }
+    if (monthlyUsd > 0) {
+      const spent = await this.store.getLLMSpendSince(`${today.slice(0, 7)}-01`);
+      if (spent >= monthlyUsd) return new SpendLimitExceededError('monthly', monthlyUsd, spent);
+    }
+    return null;
+  }
+}
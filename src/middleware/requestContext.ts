@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext, RequestContext } from '../config/requestContext';
+import { CASSETTE_MODES, CassetteMode } from '../llm/cassetteProvider';
+import { CACHE_MODES, CacheMode } from '../llm/cachingProvider';
+
+/**
+ * Builds the request context from headers and runs the rest of the
+ * middleware chain inside it
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  const requestId = req.header('X-Request-Id') || crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+
+  const context: RequestContext = {
+    requestId,
+    // Resolved lazily: the matched route is only known once the router has run
+    get endpoint() {
+      return `${req.method} ${req.route ? req.baseUrl + req.route.path : req.path}`;
+    },
+    llmCalls: []
+  };
+
+  const cassetteHeader = req.header('X-LLM-Cassette');
+  if (cassetteHeader) {
+    const mode = cassetteHeader.toLowerCase() as CassetteMode;
+    if (!CASSETTE_MODES.includes(mode)) {
+      return res.status(400).json({
+        error: `Invalid X-LLM-Cassette header '${cassetteHeader}' (expected ${CASSETTE_MODES.join(', ')})`
+      });
+    }
+    context.cassetteMode = mode;
+  }
+
+  // X-LLM-Cache wins over the standard Cache-Control directives
+  const cacheHeader = req.header('X-LLM-Cache');
+  if (cacheHeader) {
+    const mode = cacheHeader.toLowerCase() as CacheMode;
+    if (!CACHE_MODES.includes(mode)) {
+      return res.status(400).json({
+        error: `Invalid X-LLM-Cache header '${cacheHeader}' (expected ${CACHE_MODES.join(', ')})`
+      });
+    }
+    context.cacheMode = mode;
+  } else {
+    const cacheControl = (req.header('Cache-Control') || '').toLowerCase();
+    if (cacheControl.includes('no-store')) {
+      context.cacheMode = 'bypass';
+    } else if (cacheControl.includes('no-cache')) {
+      context.cacheMode = 'refresh';
+    }
+  }
+
+  runWithRequestContext(context, () => next());
+};
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { httpRequestDuration } from '../config/metrics';
+import { getRequestContext } from '../config/requestContext';
+
+/**
+ * Logs every finished request and records its latency. Requests that
+ * matched no route are grouped under "unmatched" to keep metric labels bounded.
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
+  const done = httpRequestDuration.startTimer();
+  // 'finish' fires outside the request's async context, so capture the id now
+  const requestId = getRequestContext()?.requestId;
+
+  res.on('finish', () => {
+    const route = req.route ? req.baseUrl + req.route.path : 'unmatched';
+    const seconds = done({ method: req.method, route, status: String(res.statusCode) });
+
+    const fields = {
+      requestId,
+      method: req.method,
+      path: req.originalUrl,
+      route,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1000)
+    };
+    if (res.statusCode >= 500) {
+      logger.error('Request failed', fields);
+    } else {
+      logger.info('Request completed', fields);
+    }
+  });
+
+  next();
+};
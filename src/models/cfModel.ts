@@ -0,0 +1,15 @@
+export interface CFModel {
+  version: 1;
+  trainedAt: string;
+  ratingCount: number;
+  globalMean: number;
+  // movieId -> [neighborMovieId, similarity][] sorted by similarity, descending
+  neighbors: Record<string, [number, number][]>;
+}
+
+export interface CFCandidate {
+  movieId: number;
+  predictedRating: number;
+  // Number of the user's rated movies that contributed to the prediction
+  support: number;
+}
@@ -0,0 +1,102 @@
+export type CompanySortField = 'movieCount' | 'name' | 'totalRevenue' | 'averageRating';
+
+export interface Company {
+  id: number;
+  name: string;
+}
+
+// A company's billing on one movie, with the movie's release and financials
+export interface CompanyCredit {
+  companyId: number;
+  movieId: number;
+  position: number;
+  releaseDate: string | null;
+  budget: number;
+  revenue: number;
+}
+
+export interface CompanyListQuery {
+  // Case-insensitive substring of the company name
+  search?: string;
+  // Only companies credited on at least this many movies
+  minMovies: number;
+  sort: CompanySortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface CompanyListItem extends Company {
+  movieCount: number;
+  // Movies on which the company is credited first
+  primaryCount: number;
+  // Sums over movies with a known (non-zero) figure
+  totalBudget: number;
+  totalRevenue: number;
+  // Mean of every rating given to the company's movies
+  averageRating: number | null;
+  ratingCount: number;
+  firstReleaseDate: string | null;
+  lastReleaseDate: string | null;
+}
+
+export interface CompanyMovie {
+  movieId: number;
+  title: string;
+  releaseDate: string | null;
+  genres: string[];
+  // 0 for the first-credited company
+  position: number;
+  coProducers: string[];
+  // Null when the catalog has no figure (stored as 0)
+  budget: number | null;
+  revenue: number | null;
+  roiPercent: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+/**
+ * ROI of the company's releases up to and including one movie. Only
+ * movies with a known budget and revenue are points on the series.
+ */
+export interface RollingRoiPoint {
+  movieId: number;
+  releaseDate: string;
+  roiPercent: number;
+  rollingRoiPercent: number;
+  // Releases averaged into rollingRoiPercent
+  window: number;
+}
+
+export interface GenreShare {
+  genre: string;
+  movies: number;
+  // Share of the company's movies, 0-1; a movie counts once per genre
+  share: number;
+}
+
+export interface CompanyAnalytics {
+  company: Company;
+  movieCount: number;
+  primaryCount: number;
+  // Movies with both a known budget and revenue
+  financialsKnown: number;
+  totalBudget: number;
+  totalRevenue: number;
+  averageRoiPercent: number | null;
+  // Share of movies with known financials that earned at least HIT_REVENUE_MULTIPLE times their budget
+  hitRate: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+  genreMix: GenreShare[];
+  rollingRoi: RollingRoiPoint[];
+  // Oldest first
+  filmography: CompanyMovie[];
+}
+
+export interface CompanyProfile {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+}
@@ -0,0 +1,61 @@
+export interface RatingStats {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  // Number of ratings at each half-star value, keyed "0.5" to "5.0"
+  distribution: Record<string, number>;
+}
+
+/**
+ * Percentile ranks (0-100) of a movie among the movies sharing one of its
+ * genres; null where the movie's own value is unknown
+ */
+export interface GenrePercentiles {
+  genre: string;
+  // Movies in the genre, including this one
+  peers: number;
+  budget: number | null;
+  revenue: number | null;
+  roiPercent: number | null;
+  ratingMean: number | null;
+}
+
+export interface MovieComparisonMetrics {
+  movieId: number;
+  title: string;
+  releaseDate: string | null;
+  releaseYear: number | null;
+  genres: string[];
+  runtime: number | null;
+  // Budget and revenue are null when the catalog has no figure (stored as 0)
+  budget: number | null;
+  revenue: number | null;
+  profit: number | null;
+  roiPercent: number | null;
+  revenueToBudget: number | null;
+  ratings: RatingStats;
+  genrePercentiles: GenrePercentiles[];
+  enriched: boolean;
+  // Enrichment attributes with no value, e.g. because the movie isn't enriched yet
+  missingAttributes: string[];
+}
+
+/**
+ * Differences between two compared movies, always first minus (or over) second
+ */
+export interface PairwiseComparison {
+  firstMovieId: number;
+  secondMovieId: number;
+  releaseGapDays: number | null;
+  runtimeDifference: number | null;
+  budgetRatio: number | null;
+  revenueRatio: number | null;
+  profitDifference: number | null;
+  roiPercentDifference: number | null;
+  ratingMeanDifference: number | null;
+}
+
+export interface ComparisonMatrix {
+  movies: MovieComparisonMetrics[];
+  pairs: PairwiseComparison[];
+}
@@ -0,0 +1,69 @@
+import { EnrichmentSampling, SampleDistribution } from './enrichmentSampling';
+
+export type EnrichmentJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EnrichmentSelection {
+  // Only re-enrich movies whose current enrichment came from an older prompt version
+  outdatedOnly?: boolean;
+  // Only retry movies on the dead-letter list
+  deadLettersOnly?: boolean;
+  // How movies are sampled otherwise; the first rated movies in catalog order by default
+  sampling?: EnrichmentSampling;
+}
+
+// How a run calls the LLM; defaults come from the ENRICHMENT_* settings
+export interface EnrichmentRunOptions {
+  // Movies (or batches) enriched at once
+  concurrency: number;
+  // LLM calls started per minute; 0 for no limit
+  requestsPerMinute: number;
+  // Retries of a rate-limited or failed call before the movie is dead-lettered
+  maxRetries: number;
+  // First retry delay, doubled on each retry unless the provider sends Retry-After
+  backoffBaseMs: number;
+  // Movies per prompt; 1 enriches each movie on its own
+  batchSize: number;
+}
+
+export interface EnrichmentJobFailure {
+  movieId: number;
+  title: string;
+  error: string;
+  failedAt: string;
+}
+
+// A movie that still failed after its retries, kept until a later run enriches it
+export interface EnrichmentDeadLetter {
+  movieId: number;
+  title: string;
+  // Job that last failed it; null for script runs
+  jobId: string | null;
+  error: string;
+  attempts: number;
+  failedAt: string;
+}
+
+export interface EnrichmentJob {
+  id: string;
+  status: EnrichmentJobStatus;
+  requestedCount: number;
+  selection: EnrichmentSelection;
+  // Overrides of the default run options, as requested
+  options: Partial<EnrichmentRunOptions>;
+  // Movies chosen for the job, in processing order; null until selection has run
+  movieIds: number[] | null;
+  // Make-up of the chosen movies; null until selection has run
+  sample: SampleDistribution | null;
+  // Index into movieIds before which every movie has been processed
+  cursor: number;
+  succeeded: number;
+  failed: number;
+  currentMovieId: number | null;
+  currentMovieTitle: string | null;
+  // Wall time spent processing movies, summed across restarts, used for the ETA
+  elapsedMs: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
@@ -0,0 +1,28 @@
+import { MovieEnrichment } from "./movieEnrichment";
+
+export interface EnrichmentProvenance {
+  version: number;
+  model: string | null;
+  promptVersion: string | null;
+  temperature: number | null;
+  // JSON of the inputs the prompt was built from
+  inputSnapshot: string | null;
+  rawResponse: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  createdAt: string | null;
+}
+
+export type EnrichmentVersion = MovieEnrichment & EnrichmentProvenance;
+
+export interface EnrichmentDiff {
+  movieId: number;
+  fromVersion: number;
+  toVersion: number;
+  changes: {
+    field: string;
+    from: unknown;
+    to: unknown;
+  }[];
+}
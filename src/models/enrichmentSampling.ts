@@ -0,0 +1,38 @@
+import { Movie } from './movie';
+
+// first: catalog order; random: seeded shuffle; mostRated: highest rating count first;
+// stratified: an even share of each stratum; ids: exactly the movies listed
+export type SamplingStrategy = 'first' | 'random' | 'mostRated' | 'stratified' | 'ids';
+
+// genre is a movie's first-listed genre; budget tiers use the nominal budget
+export type StratifyField = 'genre' | 'decade' | 'budgetTier' | 'language';
+
+export interface EnrichmentSampling {
+  strategy: SamplingStrategy;
+  // Required for stratified
+  stratifyBy?: StratifyField;
+  // Makes random and stratified samples reproducible
+  seed?: number;
+  // Only movies with at least this many ratings; not used by ids
+  minRatings?: number;
+  // Required for ids, in processing order
+  movieIds?: number[];
+}
+
+// A rated movie the sampler can choose from
+export type SamplingCandidate = Pick<Movie, 'movieId' | 'genres' | 'releaseDate' | 'budget' | 'language'> & {
+  ratingCount: number;
+};
+
+/**
+ * Make-up of a chosen sample, counts per stratum value, most common first
+ */
+export interface SampleDistribution {
+  movies: number;
+  genre: Record<string, number>;
+  decade: Record<string, number>;
+  budgetTier: Record<string, number>;
+  language: Record<string, number>;
+  // Over the sampled movies that have ratings
+  ratingCount: { min: number; median: number; max: number } | null;
+}
@@ -0,0 +1,38 @@
+export interface EvaluationOptions {
+  // Length of each recommendation list
+  k: number;
+  // Number of users sampled for evaluation
+  users: number;
+  // Share of each user's most recent ratings held out for testing
+  holdoutFraction: number;
+  // Users with fewer ratings are skipped
+  minRatings: number;
+  // Held-out ratings at or above this count as relevant
+  relevanceThreshold: number;
+  strategies: string[];
+}
+
+export interface EvaluationMetrics {
+  precisionAtK: number;
+  recallAtK: number;
+  ndcgAtK: number;
+  hitRate: number;
+  coverage: number;
+}
+
+export interface StrategyReport {
+  strategy: string;
+  metrics: EvaluationMetrics;
+  usersEvaluated: number;
+  failures: number;
+  durationMs: number;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  options: EvaluationOptions;
+  catalogSize: number;
+  results: StrategyReport[];
+  // Known ways the setup favours a strategy, to read the scores against
+  caveats: string[];
+}
@@ -0,0 +1,33 @@
+import { LLMTask } from "../llm/llmProvider";
+
+export interface LLMUsageRecord {
+  requestId: string | null;
+  // Route pattern, e.g. "POST /api/compare"; null outside HTTP requests
+  endpoint: string | null;
+  task: LLMTask;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  // Sent to the fallback model because a spend limit was reached
+  degraded: boolean;
+  createdAt: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsagePeriod extends UsageTotals {
+  // YYYY-MM-DD for days, YYYY-MM for months
+  period: string;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  key: string | null;
+}
\ No newline at end of file
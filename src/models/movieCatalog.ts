@@ -0,0 +1,32 @@
+import { Movie } from "./movie";
+import { RatingStats } from "./comparisonMatrix";
+import { EnrichmentVersion } from "./enrichmentProvenance";
+
+export type MovieSortField = 'relevance' | 'releaseDate' | 'revenue' | 'budget' | 'averageRating' | 'ratingCount' | 'title';
+
+export interface MovieListQuery {
+  // Keywords matched against title and overview
+  search?: string;
+  genre?: string;
+  language?: string;
+  status?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  sort: MovieSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface MovieListItem extends Movie {
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+export interface MovieDetails {
+  movie: Movie;
+  genres: string[];
+  ratingStats: RatingStats;
+  // Current enrichment version, or null if the movie isn't enriched
+  enrichment: EnrichmentVersion | null;
+}
@@ -0,0 +1,14 @@
+import { ComparisonMatrix } from "./comparisonMatrix";
+
+export interface MovieComparison {
+  summary: string;
+  movies: {
+    movieId: number;
+    title: string;
+    strengths: string[];
+    bestFor: string;
+  }[];
+  recommendation: string;
+  // Figures computed from the catalog and ratings, which the narrative cites
+  matrix: ComparisonMatrix;
+}
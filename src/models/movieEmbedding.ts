@@ -0,0 +1,8 @@
+export interface MovieEmbedding {
+  movieId: number;
+  model: string;
+  dimensions: number;
+  vector: number[];
+  contentHash: string;
+  updatedAt: string;
+}
@@ -1,3 +1,5 @@
+import { EnrichmentValue } from '../config/enrichmentAttributes';
+
 export interface MovieEnrichment {
   movieId: number;
   awardPotential: string;
@@ -5,4 +7,6 @@ export interface MovieEnrichment {
   emotionalGenres: string;
   productionCompanyRollingROI: number | null;
   productionEffectivenessScore: number;
+  // Any other attribute declared in the enrichment registry
+  [attribute: string]: EnrichmentValue;
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+export interface QueryResult {
+  answer: string;
+  movies: {
+    movieId: number;
+    title: string;
+    reason: string;
+  }[];
+}
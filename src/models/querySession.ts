@@ -0,0 +1,36 @@
+import { UserPreferences } from "./userPreferences";
+import { QueryResult } from "./queryResult";
+
+export type QuerySessionMovie = Pick<QueryResult['movies'][number], 'movieId' | 'title'>;
+
+export interface QuerySession {
+  id: string;
+  // Set when the session is bound to a user; their profile is loaded once at creation
+  userId: number | null;
+  preferences: UserPreferences | null;
+  // Condensed form of every message up to and including summarizedThroughId
+  summary: string | null;
+  summarizedThroughId: number | null;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuerySessionMessage {
+  id: number;
+  sessionId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Movies cited in an assistant answer, in order, for ordinal references
+  movies: QuerySessionMovie[];
+  createdAt: string;
+}
+
+/**
+ * A movie the question referred to, e.g. "the second one" or by title
+ */
+export interface ResolvedMovieReference {
+  movieId: number;
+  title: string;
+  reference: string;
+}
@@ -5,3 +5,11 @@ export interface Rating {
   rating: number;
   timestamp: number;
 }
+
+// Materialized per-movie aggregate of the ratings table
+export interface MovieRatingSummary {
+  movieId: number;
+  ratingCount: number;
+  ratingTotal: number;
+  averageRating: number;
+}
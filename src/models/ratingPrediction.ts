@@ -0,0 +1,17 @@
+export interface RatingExample {
+  movieId: number;
+  title: string;
+  rating: number;
+  similarity: number;
+}
+
+export interface RatingPrediction {
+  userId: number;
+  movieId: number;
+  title: string;
+  predictedRating: number;
+  // 0-1, how sure the model is given the examples it had
+  confidence: number;
+  reasoning: string;
+  examples: RatingExample[];
+}
@@ -5,4 +5,15 @@ export interface Recommendation {
   movie: Movie & Partial<MovieEnrichment>;
   score: number;
   reasoning: string;
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+export interface ScoreBreakdown {
+  cfScore: number | null;
+  llmScore: number;
+  cfWeight: number;
+  llmWeight: number;
+  // Points of the final score contributed by each stage
+  cfContribution: number;
+  llmContribution: number;
 }
@@ -0,0 +1,32 @@
+/**
+ * Hard constraints on recommendation candidates, applied in SQL before
+ * ranking. Every field is optional; list fields match any of their values.
+ */
+export interface RecommendationFilters {
+  includeGenres?: string[];
+  excludeGenres?: string[];
+  yearFrom?: number;
+  yearTo?: number;
+  // Minutes
+  runtimeMin?: number;
+  runtimeMax?: number;
+  // ISO 639-1 codes, e.g. en
+  languages?: string[];
+  budgetTiers?: string[];
+  revenueTiers?: string[];
+  awardPotential?: string[];
+  emotionalGenres?: string[];
+  minEffectivenessScore?: number;
+}
+
+/**
+ * Structured filters parsed from a natural-language phrase
+ */
+export interface ParsedRecommendationFilters {
+  text: string;
+  filters: RecommendationFilters;
+  // How the phrase was understood, in plain language
+  interpretation: string;
+  // Parts of the phrase that couldn't be expressed as a filter
+  unsupported: string[];
+}
@@ -0,0 +1,13 @@
+import { Movie } from "./movie";
+
+export interface SearchFilters {
+  genre?: string;
+  language?: string;
+  yearFrom?: number;
+  yearTo?: number;
+}
+
+export interface SearchResult {
+  movie: Movie;
+  similarity: number;
+}
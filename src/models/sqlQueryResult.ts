@@ -0,0 +1,9 @@
+export interface SqlQueryResult {
+  sql: string;
+  explanation: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  // True when the query matched more rows than the row limit allows
+  truncated: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { UserPreferences } from "./userPreferences";
+
+/**
+ * Stored preference analysis together with the rating state it was built from.
+ * A profile is reused until the user's rating count or latest timestamp changes.
+ */
+export interface UserProfile extends UserPreferences {
+  version: number;
+  ratingCount: number;
+  latestRatingTimestamp: number;
+  model: string | null;
+  createdAt: string;
+}
\ No newline at end of file
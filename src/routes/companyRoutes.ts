@@ -0,0 +1,114 @@
+import { Router, Request, Response } from 'express';
+import Database, { COMPANY_SORT_FIELDS } from '../config/database';
+import { CompanyService } from '../services/companyService';
+import { config } from '../config/env';
+import { createLLMClient } from '../config/llm';
+import { getLLMCalls } from '../config/requestContext';
+import { SpendLimitExceededError } from '../llm/usageTrackingProvider';
+import { logger } from '../config/logger';
+import { CompanySortField } from '../models/company';
+
+const router = Router();
+const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+const companyService = new CompanyService(db, createLLMClient());
+
+const SORT_ORDERS = ['asc', 'desc'];
+
+/**
+ * GET /api/companies?q=&minMovies=&sort=&order=&limit=&offset=
+ * List production companies with movie counts, box office totals and
+ * average rating. q matches part of the company name.
+ */
+router.get('/companies', async (req: Request, res: Response) => {
+  try {
+    const sort = (req.query.sort as string | undefined) || 'movieCount';
+    const order = (req.query.order as string | undefined) || (sort === 'name' ? 'asc' : 'desc');
+    const minMovies = parseInt(req.query.minMovies as string || '1', 10);
+    const limit = parseInt(req.query.limit as string || '20', 10);
+    const offset = parseInt(req.query.offset as string || '0', 10);
+
+    if (!COMPANY_SORT_FIELDS.includes(sort as CompanySortField)) {
+      return res.status(400).json({ error: `sort must be one of: ${COMPANY_SORT_FIELDS.join(', ')}` });
+    }
+
+    if (!SORT_ORDERS.includes(order)) {
+      return res.status(400).json({ error: `order must be one of: ${SORT_ORDERS.join(', ')}` });
+    }
+
+    if (isNaN(minMovies) || minMovies < 1) {
+      return res.status(400).json({ error: 'minMovies must be 1 or more' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 100' });
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return res.status(400).json({ error: 'Offset must be 0 or more' });
+    }
+
+    const { companies, total } = await companyService.listCompanies({
+      search: (req.query.q as string | undefined)?.trim() || undefined,
+      minMovies,
+      sort: sort as CompanySortField,
+      order: order as 'asc' | 'desc',
+      limit,
+      offset
+    });
+
+    res.json({
+      success: true,
+      total,
+      limit,
+      offset,
+      count: companies.length,
+      companies
+    });
+  } catch (error: any) {
+    logger.error('List companies error', { error });
+    res.status(500).json({
+      error: 'Failed to list companies',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:companyId?profile=false
+ * Get a company's filmography, rolling ROI, hit rate, average rating and
+ * genre mix, with an LLM-written profile unless profile=false
+ */
+router.get('/companies/:companyId', async (req: Request, res: Response) => {
+  try {
+    const companyId = parseInt(req.params.companyId, 10);
+    const withProfile = req.query.profile !== 'false';
+
+    if (isNaN(companyId)) {
+      return res.status(400).json({ error: 'Invalid company ID' });
+    }
+
+    const analytics = await companyService.getCompanyAnalytics(companyId);
+
+    if (!analytics) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+
+    const profile = withProfile ? await companyService.writeProfile(analytics) : null;
+
+    res.json({
+      success: true,
+      ...analytics,
+      profile,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  } catch (error: any) {
+    logger.error('Get company error', { error });
+    res.status(error instanceof SpendLimitExceededError ? 429 : 500).json({
+      error: 'Failed to fetch company',
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  }
+});
+
+export default router;
@@ -1,43 +1,219 @@
 import { Router, Request, Response } from 'express';
 import Database from '../config/database';
-import { EnrichmentService } from '../services/enrichmentService';
+import { EnrichmentService, ENRICHMENT_PROMPT_VERSION } from '../services/enrichmentService';
+import { EnrichmentJobService } from '../services/enrichmentJobService';
 import { config } from '../config/env';
+import { createLLMClient } from '../config/llm';
+import { ENRICHMENT_ATTRIBUTES } from '../config/enrichmentAttributes';
+import { validateEnrichmentRunOptions } from '../utils/enrichmentRunOptions';
+import { validateEnrichmentSampling } from '../utils/enrichmentSampling';
+import { logger } from '../config/logger';
 
 const router = Router();
 const db = new Database(config.moviesDbPath, config.ratingsDbPath);
-const enrichmentService = new EnrichmentService(db);
+const enrichmentService = new EnrichmentService(db, createLLMClient(), config.enrichment);
+const enrichmentJobService = new EnrichmentJobService(db, enrichmentService);
+
+// Pick up jobs interrupted by the last shutdown
+enrichmentJobService.resumeInterruptedJobs().catch(error => {
+  logger.error('Failed to resume enrichment jobs', { error });
+});
 
 /**
  * POST /api/enrich
- * Trigger enrichment process for N movies
+ * Start a background enrichment job for N movies
+ * (body: { count?: number, outdatedOnly?: boolean, deadLettersOnly?: boolean,
+ *   sampling?: { strategy, stratifyBy?, seed?, minRatings?, movieIds? },
+ *   options?: { concurrency, requestsPerMinute, maxRetries, backoffBaseMs, batchSize } })
+ * count defaults to the number of movieIds for ids sampling, otherwise 75
  */
 router.post('/enrich', async (req: Request, res: Response) => {
   try {
-    const count = parseInt(req.body.count || '75', 10);
+    const outdatedOnly = req.body.outdatedOnly === true;
+    const deadLettersOnly = req.body.deadLettersOnly === true;
+
+    const sampling = req.body.sampling === undefined ? undefined : validateEnrichmentSampling(req.body.sampling);
+    if (sampling && !sampling.value) {
+      return res.status(400).json({
+        error: 'Invalid sampling',
+        details: sampling.errors
+      });
+    }
+
+    const count = parseInt(req.body.count || String(sampling?.value?.movieIds?.length || 75), 10);
 
     if (count < 1 || count > 200) {
       return res.status(400).json({
         error: 'Count must be between 1 and 200'
       });
     }
+    if ([outdatedOnly, deadLettersOnly, sampling !== undefined].filter(Boolean).length > 1) {
+      return res.status(400).json({
+        error: 'outdatedOnly, deadLettersOnly and sampling cannot be combined'
+      });
+    }
+
+    const options = validateEnrichmentRunOptions(req.body.options ?? {});
+    if (!options.value) {
+      return res.status(400).json({
+        error: 'Invalid run options',
+        details: options.errors
+      });
+    }
+
+    const job = await enrichmentJobService.startJob(
+      count,
+      { outdatedOnly, deadLettersOnly, sampling: sampling?.value },
+      options.value
+    );
 
-    const enrichments = await enrichmentService.enrichMovies(count);
+    res.status(202).json({
+      success: true,
+      message: deadLettersOnly
+        ? `Started job retrying up to ${count} dead-lettered movies`
+        : outdatedOnly
+          ? `Started re-enrichment job for up to ${count} movies enriched by an older prompt version or before their ratings changed`
+          : sampling?.value
+            ? `Started enrichment job for up to ${count} movies sampled by ${sampling.value.strategy}`
+            : `Started enrichment job for ${count} movies`,
+      jobId: job.id,
+      status: job.status,
+      selection: job.selection,
+      options: enrichmentService.resolveRunOptions(job.options),
+      statusUrl: `/api/jobs/${job.id}`,
+      usageUrl: `/api/usage/requests/${job.id}`
+    });
+  } catch (error: any) {
+    logger.error('Enrichment error', { error });
+    res.status(500).json({
+      error: 'Failed to start enrichment job',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/jobs
+ * List enrichment jobs, newest first
+ */
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const jobs = await enrichmentJobService.listJobs();
 
     res.json({
       success: true,
-      message: `Enriched ${enrichments.length} movies`,
-      count: enrichments.length,
-      sample: enrichments.slice(0, 5)
+      count: jobs.length,
+      jobs
     });
   } catch (error: any) {
-    console.error('Enrichment error:', error);
+    logger.error('Get jobs error', { error });
     res.status(500).json({
-      error: 'Failed to enrich movies',
+      error: 'Failed to retrieve jobs',
       details: error.message
     });
   }
 });
 
+/**
+ * GET /api/jobs/:id
+ * Get progress, current movie, failures, ETA and sample distribution of an enrichment job
+ */
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await enrichmentJobService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      success: true,
+      job
+    });
+  } catch (error: any) {
+    logger.error('Get job error', { error });
+    res.status(500).json({
+      error: 'Failed to retrieve job',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running enrichment job
+ */
+router.delete('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await enrichmentJobService.getJob(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (existing.status !== 'queued' && existing.status !== 'running') {
+      return res.status(409).json({ error: `Job is already ${existing.status}` });
+    }
+
+    const job = await enrichmentJobService.cancelJob(req.params.id);
+
+    res.json({
+      success: true,
+      job
+    });
+  } catch (error: any) {
+    logger.error('Cancel job error', { error });
+    res.status(500).json({
+      error: 'Failed to cancel job',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/enrichment-dead-letters
+ * Movies that failed enrichment after their retries, oldest failure first.
+ * Retry them with POST /api/enrich { deadLettersOnly: true }
+ */
+router.get('/enrichment-dead-letters', async (req: Request, res: Response) => {
+  try {
+    const deadLetters = await enrichmentService.getDeadLetters();
+
+    res.json({
+      success: true,
+      count: deadLetters.length,
+      deadLetters
+    });
+  } catch (error: any) {
+    logger.error('Get dead letters error', { error });
+    res.status(500).json({
+      error: 'Failed to retrieve dead letters',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/enrichment-attributes
+ * List the attributes in the enrichment registry
+ */
+router.get('/enrichment-attributes', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    promptVersion: ENRICHMENT_PROMPT_VERSION,
+    count: ENRICHMENT_ATTRIBUTES.length,
+    attributes: ENRICHMENT_ATTRIBUTES.map(({ name, label, description, source, type, allowedValues, maxItems, min, max }) => ({
+      name,
+      label,
+      description,
+      source,
+      type,
+      allowedValues,
+      maxItems,
+      min,
+      max
+    }))
+  });
+});
+
 /**
  * GET /api/enrichments
  * Get all enriched movies
@@ -52,7 +228,7 @@ router.get('/enrichments', async (req: Request, res: Response) => {
       movies: enrichedMovies
     });
   } catch (error: any) {
-    console.error('Get enrichments error:', error);
+    logger.error('Get enrichments error', { error });
     res.status(500).json({
       error: 'Failed to retrieve enrichments',
       details: error.message
@@ -84,7 +260,7 @@ router.get('/enrichments/:movieId', async (req: Request, res: Response) => {
       enrichment
     });
   } catch (error: any) {
-    console.error('Get enrichment error:', error);
+    logger.error('Get enrichment error', { error });
     res.status(500).json({
       error: 'Failed to retrieve enrichment',
       details: error.message
@@ -92,4 +268,68 @@ router.get('/enrichments/:movieId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/enrichments/:movieId/history
+ * Get every saved version of a movie's enrichment with its provenance
+ */
+router.get('/enrichments/:movieId/history', async (req: Request, res: Response) => {
+  try {
+    const movieId = parseInt(req.params.movieId, 10);
+
+    if (isNaN(movieId)) {
+      return res.status(400).json({ error: 'Invalid movie ID' });
+    }
+
+    const history = await enrichmentService.getHistory(movieId);
+    if (history.length === 0) {
+      return res.status(404).json({ error: 'Enrichment not found for this movie' });
+    }
+
+    res.json({
+      success: true,
+      movieId,
+      count: history.length,
+      versions: history
+    });
+  } catch (error: any) {
+    logger.error('Get enrichment history error', { error });
+    res.status(500).json({
+      error: 'Failed to retrieve enrichment history',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/enrichments/:movieId/diff?from=1&to=2
+ * Compare two versions of a movie's enrichment
+ */
+router.get('/enrichments/:movieId/diff', async (req: Request, res: Response) => {
+  try {
+    const movieId = parseInt(req.params.movieId, 10);
+    const from = parseInt(req.query.from as string, 10);
+    const to = parseInt(req.query.to as string, 10);
+
+    if (isNaN(movieId) || isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ error: 'movieId, from and to must be numbers' });
+    }
+
+    const diff = await enrichmentService.diffVersions(movieId, from, to);
+    if (!diff) {
+      return res.status(404).json({ error: 'One or both enrichment versions not found' });
+    }
+
+    res.json({
+      success: true,
+      diff
+    });
+  } catch (error: any) {
+    logger.error('Diff enrichment error', { error });
+    res.status(500).json({
+      error: 'Failed to diff enrichment versions',
+      details: error.message
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { getResponseCache } from '../config/llm';
+import { config } from '../config/env';
+import { DEFAULT_CACHE_TTLS } from '../llm/responseCache';
+import { LLMTask } from '../llm/llmProvider';
+import { logger } from '../config/logger';
+
+const router = Router();
+
+/**
+ * GET /api/llm/cache/stats
+ * Hit/miss counters since startup and live entry counts per task
+ */
+router.get('/llm/cache/stats', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      enabled: config.llm.cache.enabled,
+      stats: await getResponseCache().getStats()
+    });
+  } catch (error: any) {
+    logger.error('Error in /llm/cache/stats', { error });
+    res.status(500).json({
+      error: 'Failed to get LLM cache statistics',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/llm/cache?task=
+ * Clear cached LLM responses, optionally for a single task
+ */
+router.delete('/llm/cache', async (req: Request, res: Response) => {
+  try {
+    const task = req.query.task as LLMTask | undefined;
+
+    if (task && !(task in DEFAULT_CACHE_TTLS)) {
+      return res.status(400).json({
+        error: `Unknown task '${task}' (expected one of ${Object.keys(DEFAULT_CACHE_TTLS).join(', ')})`
+      });
+    }
+
+    const removed = await getResponseCache().clear(task);
+
+    res.json({
+      success: true,
+      task: task || null,
+      removed
+    });
+  } catch (error: any) {
+    logger.error('Error in /llm/cache', { error });
+    res.status(500).json({
+      error: 'Failed to clear LLM cache',
+      details: error.message
+    });
+  }
+});
+
+export default router;
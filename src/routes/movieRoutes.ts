@@ -0,0 +1,119 @@
+import { Router, Request, Response } from 'express';
+import Database, { MOVIE_SORT_FIELDS } from '../config/database';
+import { MovieCatalogService } from '../services/movieCatalogService';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { MovieSortField } from '../models/movieCatalog';
+
+const router = Router();
+const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+const movieCatalogService = new MovieCatalogService(db);
+
+const SORT_ORDERS = ['asc', 'desc'];
+
+/**
+ * GET /api/movies?q=&genre=&language=&status=&yearFrom=&yearTo=&sort=&order=&limit=&offset=
+ * Browse the movie catalog. q is a keyword search over titles and
+ * overviews; results are sorted by relevance when it's given and by
+ * release date otherwise. Movies missing the sort value come last.
+ */
+router.get('/movies', async (req: Request, res: Response) => {
+  try {
+    const q = req.query.q as string | undefined;
+    const sort = (req.query.sort as string | undefined) || (q ? 'relevance' : 'releaseDate');
+    const order = (req.query.order as string | undefined) || (sort === 'title' ? 'asc' : 'desc');
+    const limit = parseInt(req.query.limit as string || '20', 10);
+    const offset = parseInt(req.query.offset as string || '0', 10);
+    const yearFrom = req.query.yearFrom ? parseInt(req.query.yearFrom as string, 10) : undefined;
+    const yearTo = req.query.yearTo ? parseInt(req.query.yearTo as string, 10) : undefined;
+
+    if (q !== undefined && q.trim() === '') {
+      return res.status(400).json({ error: 'q must not be empty' });
+    }
+
+    if (!MOVIE_SORT_FIELDS.includes(sort as MovieSortField)) {
+      return res.status(400).json({ error: `sort must be one of: ${MOVIE_SORT_FIELDS.join(', ')}` });
+    }
+
+    if (sort === 'relevance' && !q) {
+      return res.status(400).json({ error: 'sort=relevance requires q' });
+    }
+
+    if (!SORT_ORDERS.includes(order)) {
+      return res.status(400).json({ error: `order must be one of: ${SORT_ORDERS.join(', ')}` });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 100' });
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return res.status(400).json({ error: 'Offset must be 0 or more' });
+    }
+
+    if ((yearFrom !== undefined && isNaN(yearFrom)) || (yearTo !== undefined && isNaN(yearTo))) {
+      return res.status(400).json({ error: 'yearFrom and yearTo must be numbers' });
+    }
+
+    const { movies, total } = await movieCatalogService.listMovies({
+      search: q,
+      genre: req.query.genre as string | undefined,
+      language: req.query.language as string | undefined,
+      status: req.query.status as string | undefined,
+      yearFrom,
+      yearTo,
+      sort: sort as MovieSortField,
+      order: order as 'asc' | 'desc',
+      limit,
+      offset
+    });
+
+    res.json({
+      success: true,
+      total,
+      limit,
+      offset,
+      count: movies.length,
+      movies
+    });
+  } catch (error: any) {
+    logger.error('List movies error', { error });
+    res.status(500).json({
+      error: 'Failed to list movies',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/movies/:movieId
+ * Get a movie with its rating statistics and current enrichment, if any
+ */
+router.get('/movies/:movieId', async (req: Request, res: Response) => {
+  try {
+    const movieId = parseInt(req.params.movieId, 10);
+
+    if (isNaN(movieId)) {
+      return res.status(400).json({ error: 'Invalid movie ID' });
+    }
+
+    const details = await movieCatalogService.getMovieDetails(movieId);
+
+    if (!details) {
+      return res.status(404).json({ error: 'Movie not found' });
+    }
+
+    res.json({
+      success: true,
+      ...details
+    });
+  } catch (error: any) {
+    logger.error('Get movie error', { error });
+    res.status(500).json({
+      error: 'Failed to fetch movie',
+      details: error.message
+    });
+  }
+});
+
+export default router;
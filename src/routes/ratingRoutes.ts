@@ -0,0 +1,215 @@
+import { Router, Request, Response } from 'express';
+import Database from '../config/database';
+import { RatingService } from '../services/ratingService';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+import { RatingInput, validateRatingInput, validateRatingValue } from '../utils/ratingInput';
+
+const router = Router();
+const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+const ratingService = new RatingService(db);
+
+const MAX_IMPORT_RATINGS = 5000;
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * GET /api/users/:userId/ratings
+ * Get a user's ratings, newest first
+ */
+router.get('/users/:userId/ratings', async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const ratings = await ratingService.getUserRatings(userId);
+
+    res.json({
+      success: true,
+      userId,
+      count: ratings.length,
+      ratings
+    });
+  } catch (error: any) {
+    logger.error('Get ratings error', { error });
+    res.status(500).json({
+      error: 'Failed to fetch ratings',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/users/:userId/ratings
+ * Rate a movie (body: { movieId: number, rating: number }); the rating is
+ * timestamped now
+ */
+router.post('/users/:userId/ratings', async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const { errors, value } = validateRatingInput(
+      { userId, movieId: req.body.movieId, rating: req.body.rating },
+      'body',
+      nowSeconds()
+    );
+
+    if (!value) {
+      return res.status(400).json({ error: 'Invalid rating', details: errors });
+    }
+
+    if (!(await db.getMovieById(value.movieId))) {
+      return res.status(404).json({ error: 'Movie not found' });
+    }
+
+    if (await ratingService.getRating(value.userId, value.movieId)) {
+      return res.status(409).json({
+        error: 'User has already rated this movie; use PUT to change the rating'
+      });
+    }
+
+    const rating = await ratingService.createRating(value);
+
+    res.status(201).json({
+      success: true,
+      rating
+    });
+  } catch (error: any) {
+    logger.error('Create rating error', { error });
+    res.status(500).json({
+      error: 'Failed to create rating',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/users/:userId/ratings/:movieId
+ * Change a user's rating of a movie (body: { rating: number })
+ */
+router.put('/users/:userId/ratings/:movieId', async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+    const movieId = parseInt(req.params.movieId, 10);
+
+    if (isNaN(userId) || isNaN(movieId)) {
+      return res.status(400).json({ error: 'Invalid user or movie ID' });
+    }
+
+    const checked = validateRatingValue(req.body.rating);
+    if (checked.value === undefined) {
+      return res.status(400).json({ error: 'Invalid rating', details: checked.errors });
+    }
+
+    const rating = await ratingService.updateRating({ userId, movieId, rating: checked.value, timestamp: nowSeconds() });
+    if (!rating) {
+      return res.status(404).json({ error: 'Rating not found' });
+    }
+
+    res.json({
+      success: true,
+      rating
+    });
+  } catch (error: any) {
+    logger.error('Update rating error', { error });
+    res.status(500).json({
+      error: 'Failed to update rating',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/users/:userId/ratings/:movieId
+ * Remove a user's rating of a movie
+ */
+router.delete('/users/:userId/ratings/:movieId', async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+    const movieId = parseInt(req.params.movieId, 10);
+
+    if (isNaN(userId) || isNaN(movieId)) {
+      return res.status(400).json({ error: 'Invalid user or movie ID' });
+    }
+
+    if (!(await ratingService.deleteRating(userId, movieId))) {
+      return res.status(404).json({ error: 'Rating not found' });
+    }
+
+    res.json({
+      success: true,
+      userId,
+      movieId
+    });
+  } catch (error: any) {
+    logger.error('Delete rating error', { error });
+    res.status(500).json({
+      error: 'Failed to delete rating',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/ratings/import
+ * Create or replace ratings in bulk
+ * (body: { ratings: { userId, movieId, rating, timestamp? }[] }). Nothing
+ * is written unless every entry is valid and refers to an existing movie.
+ */
+router.post('/ratings/import', async (req: Request, res: Response) => {
+  try {
+    const { ratings } = req.body;
+
+    if (!Array.isArray(ratings) || ratings.length < 1 || ratings.length > MAX_IMPORT_RATINGS) {
+      return res.status(400).json({
+        error: `ratings must be an array of 1 to ${MAX_IMPORT_RATINGS} ratings`
+      });
+    }
+
+    const now = nowSeconds();
+    const errors: string[] = [];
+    const inputs: RatingInput[] = [];
+    ratings.forEach((raw, i) => {
+      const checked = validateRatingInput(raw, `ratings[${i}]`, now);
+      errors.push(...checked.errors);
+      if (checked.value) inputs.push(checked.value);
+    });
+
+    // The last entry for a user and movie wins
+    const unique = new Map(inputs.map(r => [`${r.userId}:${r.movieId}`, r]));
+    const movieIds = Array.from(new Set(inputs.map(r => r.movieId)));
+    const movies = movieIds.length > 0 ? await db.getMoviesByIds(movieIds) : [];
+    const missing = movieIds.filter(id => !movies.some(m => m.movieId === id));
+    if (missing.length > 0) {
+      errors.push(`Movies not found: ${missing.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid ratings', details: errors });
+    }
+
+    const { created, updated } = await ratingService.importRatings(Array.from(unique.values()));
+
+    res.json({
+      success: true,
+      received: ratings.length,
+      created,
+      updated
+    });
+  } catch (error: any) {
+    logger.error('Import ratings error', { error });
+    res.status(500).json({
+      error: 'Failed to import ratings',
+      details: error.message
+    });
+  }
+});
+
+export default router;
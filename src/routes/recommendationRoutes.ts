@@ -1,141 +1,589 @@
 import { Router, Request, Response } from 'express';
 import Database from '../config/database';
 import { RecommendationService } from '../services/recommendationService';
+import { CollaborativeFilteringService } from '../services/collaborativeFilteringService';
+import { RatingPredictionService } from '../services/ratingPredictionService';
+import { TextToSqlService } from '../services/textToSqlService';
+import { QuerySessionService } from '../services/querySessionService';
 import { config } from '../config/env';
+import { createLLMClient } from '../config/llm';
+import { getLLMCalls, reportProgress } from '../config/requestContext';
+import { SpendLimitExceededError } from '../llm/usageTrackingProvider';
+import { logger } from '../config/logger';
+import { RecommendationFilters } from '../models/recommendationFilters';
+import { describeRecommendationFilters, validateRecommendationFilters } from '../utils/recommendationFilters';
+import { EventStream, openEventStream } from '../utils/sse';
 
 const router = Router();
 const db = new Database(config.moviesDbPath, config.ratingsDbPath);
-const recommendationService = new RecommendationService(db);
+const cf = CollaborativeFilteringService.loadFromFile(config.collaborativeFiltering.modelPath);
+const llm = createLLMClient();
+const recommendationService = new RecommendationService(db, llm, cf, {
+  cfWeight: config.collaborativeFiltering.weight,
+  cfCandidates: config.collaborativeFiltering.candidates
+});
+const ratingPredictionService = new RatingPredictionService(db, llm, cf);
+const textToSqlService = new TextToSqlService(db, llm, config.textToSql);
+const querySessionService = new QuerySessionService(db, llm, recommendationService, config.querySessions);
+
+const QUERY_MODES = ['answer', 'sql'];
 
 /**
- * GET /api/users/:userId/preferences
- * Analyze and return user preferences
+ * A request that passed validation and is ready to run, or the client
+ * error to answer it with. Shared by the JSON and the streaming variants
+ * of an endpoint so both validate before anything is sent.
+ */
+type PreparedRequest =
+  | { status: number; body: Record<string, unknown> }
+  | { run: () => Promise<Record<string, unknown>> };
+
+interface FailureDescription {
+  log: string;
+  error: string;
+}
+
+const RECOMMENDATIONS_FAILURE: FailureDescription = { log: 'Get recommendations error', error: 'Failed to generate recommendations' };
+const QUERY_FAILURE: FailureDescription = { log: 'Query error', error: 'Failed to process query' };
+const COMPARE_FAILURE: FailureDescription = { log: 'Compare error', error: 'Failed to compare movies' };
+
+const failureResponse = (error: any, failure: FailureDescription) => {
+  logger.error(failure.log, { error });
+  return {
+    status: error instanceof SpendLimitExceededError ? 429 : 500,
+    body: {
+      error: failure.error,
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
+    }
+  };
+};
+
+const respond = async (res: Response, prepare: Promise<PreparedRequest>, failure: FailureDescription) => {
+  try {
+    const prepared = await prepare;
+    if ('status' in prepared) {
+      return res.status(prepared.status).json(prepared.body);
+    }
+
+    const body = await prepared.run();
+    res.json({ success: true, ...body, meta: { llmCalls: getLLMCalls() } });
+  } catch (error: any) {
+    const { status, body } = failureResponse(error, failure);
+    res.status(status).json(body);
+  }
+};
+
+/**
+ * Run a prepared request as a Server-Sent Events stream. Validation errors
+ * are still plain JSON responses; once the stream is open, failures are
+ * sent as an error event carrying the status the JSON endpoint would use.
+ */
+const respondWithStream = async (res: Response, prepare: Promise<PreparedRequest>, failure: FailureDescription) => {
+  let stream: EventStream | null = null;
+
+  try {
+    const prepared = await prepare;
+    if ('status' in prepared) {
+      return res.status(prepared.status).json(prepared.body);
+    }
+
+    stream = openEventStream(res);
+    const body = await prepared.run();
+    stream.send('result', { success: true, ...body, meta: { llmCalls: getLLMCalls() } });
+  } catch (error: any) {
+    const { status, body } = failureResponse(error, failure);
+    if (stream) {
+      stream.send('error', { ...body, status });
+    } else {
+      res.status(status).json(body);
+    }
+  } finally {
+    stream?.end();
+  }
+};
+
+const prepareRecommendations = async (req: Request): Promise<PreparedRequest> => {
+  const userId = parseInt(req.params.userId, 10);
+  const count = parseInt(req.query.count as string || '10', 10);
+  const filterText = req.query.filterText as string | undefined;
+
+  if (isNaN(userId)) {
+    return { status: 400, body: { error: 'Invalid user ID' } };
+  }
+
+  if (count < 1 || count > 50) {
+    return { status: 400, body: { error: 'Count must be between 1 and 50' } };
+  }
+
+  let explicitFilters: RecommendationFilters = {};
+  if (req.query.filters !== undefined) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(req.query.filters as string);
+    } catch {
+      return {
+        status: 400,
+        body: { error: 'filters must be a JSON object; use filterText for a natural-language phrase' }
+      };
+    }
+    const checked = validateRecommendationFilters(raw);
+    if (!checked.value) {
+      return { status: 400, body: { error: 'Invalid filters', details: checked.errors } };
+    }
+    explicitFilters = checked.value;
+  }
+
+  return {
+    run: async () => {
+      if (filterText) reportProgress('filters', 'Parsing filters');
+      const parsed = filterText ? await recommendationService.parseFilters(filterText) : null;
+
+      // Parsed and explicit filters can each be valid yet contradict each other,
+      // e.g. a parsed yearFrom after an explicit yearTo; explicit filters win then
+      const merged = validateRecommendationFilters({ ...parsed?.filters, ...explicitFilters });
+      const filters = merged.value || explicitFilters;
+
+      const recommendations = await recommendationService.getRecommendations(
+        userId,
+        count,
+        filters
+      );
+
+      return {
+        userId,
+        count: recommendations.length,
+        filters,
+        filterDescription: describeRecommendationFilters(filters),
+        ...(parsed && {
+          filterInterpretation: {
+            text: parsed.text,
+            interpretation: parsed.interpretation,
+            unsupported: parsed.unsupported,
+            ...(!merged.value && { discarded: merged.errors })
+          }
+        }),
+        recommendations
+      };
+    }
+  };
+};
+
+const prepareQuery = async (req: Request): Promise<PreparedRequest> => {
+  const { query, userId, sessionId, mode = 'answer' } = req.body;
+
+  if (!query || typeof query !== 'string') {
+    return { status: 400, body: { error: 'Query string is required' } };
+  }
+  if (!QUERY_MODES.includes(mode)) {
+    return { status: 400, body: { error: `mode must be one of: ${QUERY_MODES.join(', ')}` } };
+  }
+
+  if (sessionId !== undefined) {
+    if (mode !== 'answer') {
+      return { status: 400, body: { error: 'Query sessions only support mode=answer' } };
+    }
+
+    const session = await querySessionService.getSession(String(sessionId));
+    if (!session) {
+      return { status: 404, body: { error: 'Query session not found' } };
+    }
+
+    return {
+      run: async () => {
+        const { session: updated, result, references } = await querySessionService.ask(session, query);
+        return { query, mode, sessionId: updated.id, references, result };
+      }
+    };
+  }
+
+  if (mode === 'sql') {
+    return {
+      run: async () => ({ query, mode, result: await textToSqlService.answer(query) })
+    };
+  }
+
+  return {
+    run: async () => {
+      const result = await recommendationService.naturalLanguageQuery(
+        query,
+        userId ? parseInt(userId, 10) : undefined
+      );
+      return { query, mode, result };
+    }
+  };
+};
+
+const prepareComparison = async (req: Request): Promise<PreparedRequest> => {
+  const { movieIds, userId } = req.body;
+
+  if (!Array.isArray(movieIds) || movieIds.length < 2) {
+    return {
+      status: 400,
+      body: { error: 'movieIds array with at least 2 movie IDs is required' }
+    };
+  }
+  if (!movieIds.every(id => Number.isInteger(id) && id > 0) || new Set(movieIds).size !== movieIds.length) {
+    return { status: 400, body: { error: 'movieIds must be distinct positive integers' } };
+  }
+
+  const found = await db.getMoviesByIds(movieIds);
+  const missing = movieIds.filter(id => !found.some(m => m.movieId === id));
+  if (missing.length > 0) {
+    return { status: 404, body: { error: 'Movies not found', movieIds: missing } };
+  }
+
+  return {
+    run: async () => {
+      const comparison = await recommendationService.compareMovies(
+        movieIds,
+        userId ? parseInt(userId, 10) : undefined
+      );
+      return { comparison };
+    }
+  };
+};
+
+/**
+ * GET /api/users/:userId/preferences?refresh=
+ * Return the user's preference profile, re-analyzing only when their ratings
+ * changed since it was stored (or when refresh=true)
  */
 router.get('/users/:userId/preferences', async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.userId, 10);
+    const refresh = req.query.refresh === 'true';
 
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
     }
 
-    const preferences = await recommendationService.analyzeUserPreferences(userId);
+    const { profile, reused } = await recommendationService.getUserProfile(userId, refresh);
 
     res.json({
       success: true,
-      preferences
+      preferences: profile,
+      reused,
+      meta: { llmCalls: getLLMCalls() }
     });
   } catch (error: any) {
-    console.error('Get preferences error:', error);
-    res.status(500).json({
+    logger.error('Get preferences error', { error });
+    res.status(error instanceof SpendLimitExceededError ? 429 : 500).json({
       error: 'Failed to analyze user preferences',
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  }
+});
+
+/**
+ * GET /api/users/:userId/preferences/history
+ * Every stored version of the user's preference profile, oldest first
+ */
+router.get('/users/:userId/preferences/history', async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const history = await recommendationService.getUserProfileHistory(userId);
+
+    res.json({
+      success: true,
+      userId,
+      count: history.length,
+      history
+    });
+  } catch (error: any) {
+    logger.error('Get preference history error', { error });
+    res.status(500).json({
+      error: 'Failed to get preference history',
       details: error.message
     });
   }
 });
 
 /**
- * GET /api/users/:userId/recommendations
- * Get personalized movie recommendations for a user
+ * GET /api/users/:userId/recommendations?count=&filters=&filterText=
+ * Get personalized movie recommendations for a user. `filters` is a JSON
+ * object of structured filters; `filterText` is a phrase such as "no horror,
+ * after 2000" parsed into filters by the LLM. Explicit filters win where
+ * both set the same field.
+ */
+router.get('/users/:userId/recommendations', (req: Request, res: Response) => {
+  return respond(res, prepareRecommendations(req), RECOMMENDATIONS_FAILURE);
+});
+
+/**
+ * GET /api/users/:userId/recommendations/stream
+ * Same as above, streamed as Server-Sent Events: progress, token and one
+ * item event per recommendation as soon as it's generated, then a result
+ * event with the full response (or an error event)
+ */
+router.get('/users/:userId/recommendations/stream', (req: Request, res: Response) => {
+  return respondWithStream(res, prepareRecommendations(req), RECOMMENDATIONS_FAILURE);
+});
+
+/**
+ * GET /api/users/:userId/movies/:movieId/predicted-rating
+ * Predict how a user would rate a movie
+ */
+router.get('/users/:userId/movies/:movieId/predicted-rating', async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+    const movieId = parseInt(req.params.movieId, 10);
+
+    if (isNaN(userId) || isNaN(movieId)) {
+      return res.status(400).json({ error: 'Invalid user ID or movie ID' });
+    }
+
+    const movie = await db.getMovieById(movieId);
+    if (!movie) {
+      return res.status(404).json({ error: 'Movie not found' });
+    }
+
+    const prediction = await ratingPredictionService.predictRating(userId, movieId);
+
+    res.json({
+      success: true,
+      prediction,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  } catch (error: any) {
+    logger.error('Predict rating error', { error });
+    res.status(error instanceof SpendLimitExceededError ? 429 : 500).json({
+      error: 'Failed to predict rating',
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  }
+});
+
+/**
+ * POST /api/users/:userId/predicted-ratings
+ * Predict a user's ratings for many movies (body: { movieIds: number[] })
  */
-router.get('/users/:userId/recommendations', async (req: Request, res: Response) => {
+router.post('/users/:userId/predicted-ratings', async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.userId, 10);
-    const count = parseInt(req.query.count as string || '10', 10);
-    const filters = req.query.filters as string | undefined;
+    const { movieIds } = req.body;
 
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
     }
 
-    if (count < 1 || count > 50) {
-      return res.status(400).json({ error: 'Count must be between 1 and 50' });
+    if (!Array.isArray(movieIds) || movieIds.length < 1 || movieIds.length > 50 ||
+        movieIds.some(id => !Number.isInteger(id))) {
+      return res.status(400).json({
+        error: 'movieIds must be an array of 1 to 50 integer movie IDs'
+      });
     }
 
-    const recommendations = await recommendationService.getRecommendations(
-      userId,
-      count,
-      filters
-    );
+    const movies = await db.getMoviesByIds(movieIds);
+    const missing = movieIds.filter((id: number) => !movies.some(m => m.movieId === id));
+    if (missing.length > 0) {
+      return res.status(404).json({ error: 'Movies not found', movieIds: missing });
+    }
+
+    const predictions = await ratingPredictionService.predictRatings(userId, movieIds);
 
     res.json({
       success: true,
       userId,
-      count: recommendations.length,
-      recommendations
+      count: predictions.length,
+      predictions,
+      meta: { llmCalls: getLLMCalls() }
     });
   } catch (error: any) {
-    console.error('Get recommendations error:', error);
-    res.status(500).json({
-      error: 'Failed to generate recommendations',
-      details: error.message
+    logger.error('Predict ratings error', { error });
+    res.status(error instanceof SpendLimitExceededError ? 429 : 500).json({
+      error: 'Failed to predict ratings',
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  }
+});
+
+/**
+ * POST /api/recommendation-filters/parse
+ * Parse a natural-language filter phrase into structured recommendation filters
+ */
+router.post('/recommendation-filters/parse', async (req: Request, res: Response) => {
+  try {
+    const { text } = req.body;
+
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({ error: 'text string is required' });
+    }
+
+    const parsed = await recommendationService.parseFilters(text);
+
+    res.json({
+      success: true,
+      ...parsed,
+      description: describeRecommendationFilters(parsed.filters),
+      meta: { llmCalls: getLLMCalls() }
+    });
+  } catch (error: any) {
+    logger.error('Parse filters error', { error });
+    res.status(error instanceof SpendLimitExceededError ? 429 : 500).json({
+      error: 'Failed to parse filters',
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
     });
   }
 });
 
 /**
  * POST /api/query
- * Natural language query interface
+ * Natural language query interface. mode=sql answers analytics questions by
+ * running a generated read-only SQL query and returns the SQL, the rows and
+ * an explanation. With a sessionId the query is answered as a follow-up in
+ * that conversation
  */
-router.post('/query', async (req: Request, res: Response) => {
+router.post('/query', (req: Request, res: Response) => {
+  return respond(res, prepareQuery(req), QUERY_FAILURE);
+});
+
+/**
+ * POST /api/query/stream
+ * Same as above, streamed as Server-Sent Events; in answer mode each cited
+ * movie arrives as an item event
+ */
+router.post('/query/stream', (req: Request, res: Response) => {
+  return respondWithStream(res, prepareQuery(req), QUERY_FAILURE);
+});
+
+/**
+ * POST /api/query/sessions
+ * Start a conversational query session, optionally bound to a user whose
+ * preference profile is loaded once for the whole session
+ */
+router.post('/query/sessions', async (req: Request, res: Response) => {
   try {
-    const { query, userId } = req.body;
+    const { userId } = req.body || {};
+    const parsedUserId = userId !== undefined ? parseInt(userId, 10) : undefined;
 
-    if (!query || typeof query !== 'string') {
-      return res.status(400).json({ error: 'Query string is required' });
+    if (parsedUserId !== undefined && isNaN(parsedUserId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
     }
 
-    const result = await recommendationService.naturalLanguageQuery(
-      query,
-      userId ? parseInt(userId, 10) : undefined
-    );
+    const session = await querySessionService.createSession(parsedUserId);
+
+    res.status(201).json({
+      success: true,
+      session,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  } catch (error: any) {
+    logger.error('Create query session error', { error });
+    res.status(error instanceof SpendLimitExceededError ? 429 : 500).json({
+      error: 'Failed to create query session',
+      details: error.message,
+      meta: { llmCalls: getLLMCalls() }
+    });
+  }
+});
+
+/**
+ * GET /api/query/sessions?userId=
+ * List query sessions, most recently active first
+ */
+router.get('/query/sessions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.query.userId !== undefined ? parseInt(req.query.userId as string, 10) : undefined;
+
+    if (userId !== undefined && isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const sessions = await querySessionService.listSessions(userId);
 
     res.json({
       success: true,
-      query,
-      result
+      count: sessions.length,
+      sessions
     });
   } catch (error: any) {
-    console.error('Query error:', error);
+    logger.error('List query sessions error', { error });
     res.status(500).json({
-      error: 'Failed to process query',
+      error: 'Failed to list query sessions',
       details: error.message
     });
   }
 });
 
 /**
- * POST /api/compare
- * Compare multiple movies
+ * GET /api/query/sessions/:sessionId
+ * A query session with its full message history
  */
-router.post('/compare', async (req: Request, res: Response) => {
+router.get('/query/sessions/:sessionId', async (req: Request, res: Response) => {
   try {
-    const { movieIds, userId } = req.body;
-
-    if (!Array.isArray(movieIds) || movieIds.length < 2) {
-      return res.status(400).json({
-        error: 'movieIds array with at least 2 movie IDs is required'
-      });
+    const session = await querySessionService.getSession(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Query session not found' });
     }
 
-    const comparison = await recommendationService.compareMovies(
-      movieIds,
-      userId ? parseInt(userId, 10) : undefined
-    );
+    const messages = await querySessionService.getMessages(session.id);
 
     res.json({
       success: true,
-      comparison
+      session,
+      messages
     });
   } catch (error: any) {
-    console.error('Compare error:', error);
+    logger.error('Get query session error', { error });
     res.status(500).json({
-      error: 'Failed to compare movies',
+      error: 'Failed to get query session',
       details: error.message
     });
   }
 });
 
+/**
+ * DELETE /api/query/sessions/:sessionId
+ * Delete a query session and its messages
+ */
+router.delete('/query/sessions/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const deleted = await querySessionService.deleteSession(req.params.sessionId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Query session not found' });
+    }
+
+    res.json({
+      success: true,
+      sessionId: req.params.sessionId
+    });
+  } catch (error: any) {
+    logger.error('Delete query session error', { error });
+    res.status(500).json({
+      error: 'Failed to delete query session',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/compare
+ * Compare multiple movies. The response's comparison.matrix holds the
+ * computed figures the narrative is based on
+ */
+router.post('/compare', (req: Request, res: Response) => {
+  return respond(res, prepareComparison(req), COMPARE_FAILURE);
+});
+
+/**
+ * POST /api/compare/stream
+ * Same as above, streamed as Server-Sent Events: a matrix event once the
+ * metrics are computed, then each movie's part of the comparison as an
+ * item event
+ */
+router.post('/compare/stream', (req: Request, res: Response) => {
+  return respondWithStream(res, prepareComparison(req), COMPARE_FAILURE);
+});
+
 /**
  * GET /api/users
  * Get list of all available user IDs
@@ -150,7 +598,7 @@ router.get('/users', async (req: Request, res: Response) => {
       userIds: userIds.slice(0, 100) // Return first 100 for testing
     });
   } catch (error: any) {
-    console.error('Get users error:', error);
+    logger.error('Get users error', { error });
     res.status(500).json({
       error: 'Failed to retrieve users',
       details: error.message
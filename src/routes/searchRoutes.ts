@@ -0,0 +1,57 @@
+import { Router, Request, Response } from 'express';
+import Database from '../config/database';
+import { EmbeddingService } from '../services/embeddingService';
+import { config } from '../config/env';
+import { createEmbeddingProvider } from '../config/llm';
+import { logger } from '../config/logger';
+
+const router = Router();
+const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+const embeddingService = new EmbeddingService(db, createEmbeddingProvider());
+
+/**
+ * GET /api/search?q=&genre=&language=&yearFrom=&yearTo=&limit=
+ * Semantic similarity search over movie titles, genres and overviews
+ */
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const q = req.query.q as string | undefined;
+    const limit = parseInt(req.query.limit as string || '10', 10);
+    const yearFrom = req.query.yearFrom ? parseInt(req.query.yearFrom as string, 10) : undefined;
+    const yearTo = req.query.yearTo ? parseInt(req.query.yearTo as string, 10) : undefined;
+
+    if (!q || q.trim() === '') {
+      return res.status(400).json({ error: 'Query parameter q is required' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 100' });
+    }
+
+    if ((yearFrom !== undefined && isNaN(yearFrom)) || (yearTo !== undefined && isNaN(yearTo))) {
+      return res.status(400).json({ error: 'yearFrom and yearTo must be numbers' });
+    }
+
+    const results = await embeddingService.search(q, {
+      genre: req.query.genre as string | undefined,
+      language: req.query.language as string | undefined,
+      yearFrom,
+      yearTo
+    }, limit);
+
+    res.json({
+      success: true,
+      query: q,
+      count: results.length,
+      results
+    });
+  } catch (error: any) {
+    logger.error('Search error', { error });
+    res.status(500).json({
+      error: 'Failed to search movies',
+      details: error.message
+    });
+  }
+});
+
+export default router;
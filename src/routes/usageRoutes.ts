@@ -0,0 +1,97 @@
+import { Router, Request, Response } from 'express';
+import Database from '../config/database';
+import { config } from '../config/env';
+import { logger } from '../config/logger';
+
+const router = Router();
+const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+
+/**
+ * GET /api/usage?days=
+ * LLM token usage and cost: daily totals for the last N days, monthly totals
+ * for the last 12 months, this month's spend by task, endpoint and model,
+ * and the configured spend limits
+ */
+router.get('/usage', async (req: Request, res: Response) => {
+  try {
+    const days = parseInt(req.query.days as string || '30', 10);
+
+    if (isNaN(days) || days < 1 || days > 366) {
+      return res.status(400).json({ error: 'days must be between 1 and 366' });
+    }
+
+    await db.initializeUsageTable();
+
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    const monthStart = `${today.slice(0, 7)}-01`;
+    const dailySince = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const monthlySince = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1)).toISOString().slice(0, 10);
+
+    const [daily, monthly, byTask, byEndpoint, byModel, todaySpend, monthSpend] = await Promise.all([
+      db.getLLMUsageByPeriod('day', dailySince),
+      db.getLLMUsageByPeriod('month', monthlySince),
+      db.getLLMUsageBreakdown('task', monthStart),
+      db.getLLMUsageBreakdown('endpoint', monthStart),
+      db.getLLMUsageBreakdown('model', monthStart),
+      db.getLLMSpendSince(today),
+      db.getLLMSpendSince(monthStart)
+    ]);
+
+    const { dailyUsd, monthlyUsd, action, degradeModel } = config.llm.spendLimits;
+
+    res.json({
+      success: true,
+      limits: {
+        action,
+        degradeModel: degradeModel || null,
+        daily: { limitUsd: dailyUsd || null, spentUsd: todaySpend, exceeded: dailyUsd > 0 && todaySpend >= dailyUsd },
+        monthly: { limitUsd: monthlyUsd || null, spentUsd: monthSpend, exceeded: monthlyUsd > 0 && monthSpend >= monthlyUsd }
+      },
+      daily,
+      monthly,
+      currentMonth: {
+        byTask,
+        byEndpoint,
+        byModel
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error in /usage', { error });
+    res.status(500).json({
+      error: 'Failed to get LLM usage',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/usage/requests/:requestId
+ * Every LLM call made for one request (X-Request-Id) or enrichment job id
+ */
+router.get('/usage/requests/:requestId', async (req: Request, res: Response) => {
+  try {
+    await db.initializeUsageTable();
+
+    const { totals, calls } = await db.getLLMUsageForRequest(req.params.requestId);
+
+    if (calls.length === 0) {
+      return res.status(404).json({ error: 'No LLM usage recorded for this request' });
+    }
+
+    res.json({
+      success: true,
+      requestId: req.params.requestId,
+      totals,
+      calls
+    });
+  } catch (error: any) {
+    logger.error('Error in /usage/requests/:requestId', { error });
+    res.status(500).json({
+      error: 'Failed to get LLM usage for request',
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,178 @@
+import Database from '../config/database';
+import { CompanyRoiIndex } from '../services/companyRoiIndex';
+import { config } from '../config/env';
+import { Movie } from '../models/movie';
+
+// Inputs gathered per movie before the LLM call, the part of enrichment being measured
+interface MovieInputs {
+  movieId: number;
+  avgRating: number;
+  ratingCount: number;
+  companyROI: number | null;
+}
+
+const time = async <T>(fn: () => Promise<T>): Promise<{ value: T; ms: number }> => {
+  const started = process.hrtime.bigint();
+  const value = await fn();
+  return { value, ms: Number(process.hrtime.bigint() - started) / 1e6 };
+};
+
+const formatMs = (ms: number): string => `${ms.toFixed(1)} ms`.padStart(12);
+
+// The previous implementation: scan the catalog, one rating query per movie
+const legacySelectMoviesWithRatings = async (db: Database, limit: number): Promise<Movie[]> => {
+  const movies = await db.getMovies();
+  const moviesWithRatings: Movie[] = [];
+
+  for (const movie of movies) {
+    if (moviesWithRatings.length >= limit) break;
+
+    const ratingStats = await db.getAverageRatingForMovie(movie.movieId);
+    if (ratingStats && ratingStats.count > 0) {
+      moviesWithRatings.push(movie);
+    }
+  }
+
+  return moviesWithRatings;
+};
+
+// The previous implementation: reload and re-parse the catalog for every movie
+const legacyCompanyROI = async (db: Database, movie: Movie): Promise<number | null> => {
+  if (!movie.productionCompanies || movie.productionCompanies.trim() === '') return null;
+
+  let companies: string[] = [];
+  try {
+    companies = JSON.parse(movie.productionCompanies).map((c: any) => c.name || '').filter((n: string) => n !== '');
+  } catch {
+    return null;
+  }
+  if (companies.length === 0) return null;
+
+  const allMovies = await db.getMovies();
+  const previousMovies = allMovies
+    .filter(m => {
+      try {
+        return JSON.parse(m.productionCompanies || '[]').some((c: any) => c.name === companies[0]);
+      } catch {
+        return false;
+      }
+    })
+    .filter(m => m.releaseDate && m.releaseDate < movie.releaseDate)
+    .sort((a, b) => a.releaseDate.localeCompare(b.releaseDate))
+    .slice(-10);
+
+  const rois = previousMovies
+    .filter(m => m.budget > 0 && m.revenue > 0)
+    .map(m => ((m.revenue - m.budget) / m.budget) * 100);
+  return rois.length > 0 ? rois.reduce((sum, roi) => sum + roi, 0) / rois.length : null;
+};
+
+const sameInputs = (a: MovieInputs, b: MovieInputs): boolean => {
+  const close = (x: number | null, y: number | null) => (x === null || y === null ? x === y : Math.abs(x - y) < 1e-6);
+  return a.movieId === b.movieId && a.ratingCount === b.ratingCount &&
+    close(a.avgRating, b.avgRating) && close(a.companyROI, b.companyROI);
+};
+
+/**
+ * Times selecting movies for an enrichment run and gathering their
+ * rating and company inputs (everything but the LLM call), the previous
+ * way and through the rating stats table and company index.
+ * Usage: npm run benchmark:enrichment -- [--count 200] [--skip-before]
+ */
+export const main = async () => {
+  console.log('=== Enrichment Input Benchmark ===\n');
+
+  const countArg = process.argv.indexOf('--count');
+  const count = countArg >= 0 ? parseInt(process.argv[countArg + 1], 10) : 200;
+  const skipBefore = process.argv.includes('--skip-before');
+  if (!(count > 0)) {
+    console.error('--count must be a positive integer');
+    process.exit(1);
+  }
+
+  const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+
+  try {
+    console.log(`Movies DB:  ${config.moviesDbPath}`);
+    console.log(`Ratings DB: ${config.ratingsDbPath}`);
+    console.log(`Movies:     ${count}\n`);
+
+    // One-off cost, paid the first time the tables are created
+    await db.initializeRatingStatsTable();
+    await db.initializeCompanyTables();
+    const ratingStatsBuild = await time(() => db.rebuildRatingStats());
+    const companyIndexBuild = await time(() => db.rebuildCompanyIndex());
+
+    const afterSelect = await time(() => db.getMoviesWithRatings(count));
+    const afterInputs = await time(async () => {
+      const index = await CompanyRoiIndex.load(db);
+      const inputs: MovieInputs[] = [];
+      for (const movie of afterSelect.value) {
+        const [stats] = await db.getMovieRatingSummaries([movie.movieId]);
+        inputs.push({
+          movieId: movie.movieId,
+          avgRating: stats?.averageRating || 0,
+          ratingCount: stats?.ratingCount || 0,
+          companyROI: index.rollingRoi(movie, 'primary')
+        });
+      }
+      return inputs;
+    });
+
+    console.log('Stats tables (one-off):');
+    console.log(`  movie_rating_stats rebuild ${formatMs(ratingStatsBuild.ms)}`);
+    console.log(`  company index rebuild      ${formatMs(companyIndexBuild.ms)}  (${companyIndexBuild.value.companies} companies, ${companyIndexBuild.value.credits} credits)\n`);
+
+    if (skipBefore) {
+      console.log(`                 ${'after'.padStart(12)}`);
+      console.log(`  select movies  ${formatMs(afterSelect.ms)}`);
+      console.log(`  movie inputs   ${formatMs(afterInputs.ms)}`);
+      console.log(`  total          ${formatMs(afterSelect.ms + afterInputs.ms)}`);
+      return;
+    }
+
+    const beforeSelect = await time(() => legacySelectMoviesWithRatings(db, count));
+    const beforeInputs = await time(async () => {
+      const inputs: MovieInputs[] = [];
+      for (const movie of beforeSelect.value) {
+        const stats = await db.getAverageRatingForMovie(movie.movieId);
+        inputs.push({
+          movieId: movie.movieId,
+          avgRating: stats?.avgRating || 0,
+          ratingCount: stats?.count || 0,
+          companyROI: await legacyCompanyROI(db, movie)
+        });
+      }
+      return inputs;
+    });
+
+    const speedup = (before: number, after: number) => `${(before / Math.max(after, 0.001)).toFixed(1)}x`.padStart(10);
+    const beforeTotal = beforeSelect.ms + beforeInputs.ms;
+    const afterTotal = afterSelect.ms + afterInputs.ms;
+
+    console.log(`                 ${'before'.padStart(12)}${'after'.padStart(12)}${'speedup'.padStart(10)}`);
+    console.log(`  select movies  ${formatMs(beforeSelect.ms)}${formatMs(afterSelect.ms)}${speedup(beforeSelect.ms, afterSelect.ms)}`);
+    console.log(`  movie inputs   ${formatMs(beforeInputs.ms)}${formatMs(afterInputs.ms)}${speedup(beforeInputs.ms, afterInputs.ms)}`);
+    console.log(`  total          ${formatMs(beforeTotal)}${formatMs(afterTotal)}${speedup(beforeTotal, afterTotal)}`);
+
+    // Both paths should select the same movies and compute the same inputs
+    const mismatches = beforeInputs.value.filter((input, i) => {
+      const other = afterInputs.value[i];
+      return !other || !sameInputs(input, other);
+    });
+    const lengthsDiffer = beforeInputs.value.length !== afterInputs.value.length;
+    if (mismatches.length > 0 || lengthsDiffer) {
+      console.log(`\n✗ Results differ for ${mismatches.length} movie(s)${lengthsDiffer ? ' and the selections differ in size' : ''}`);
+      process.exitCode = 1;
+    } else {
+      console.log(`\n✓ Both paths selected the same ${afterInputs.value.length} movies with identical inputs`);
+    }
+  } catch (error) {
+    console.error('Error during benchmark:', error);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
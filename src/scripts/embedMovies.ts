@@ -0,0 +1,31 @@
+import Database from '../config/database';
+import { EmbeddingService } from '../services/embeddingService';
+import { config } from '../config/env';
+import { createEmbeddingProvider } from '../config/llm';
+
+export const main = async () => {
+  console.log('=== Movie Embedding Script ===\n');
+
+  const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+  const force = process.argv.includes('--force');
+
+  try {
+    const embeddings = createEmbeddingProvider();
+    console.log(`Embedding provider: ${embeddings.name} (${embeddings.model})`);
+
+    const embeddingService = new EmbeddingService(db, embeddings);
+    const result = await embeddingService.indexMovies(100, force);
+
+    console.log('\n=== Embedding Summary ===');
+    console.log(`Movies embedded: ${result.embedded}`);
+    console.log(`Movies unchanged: ${result.skipped}`);
+    console.log('\n✓ Embeddings saved to movie_embeddings table.');
+  } catch (error) {
+    console.error('Error during embedding:', error);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
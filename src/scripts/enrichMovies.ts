@@ -1,7 +1,34 @@
 import Database from '../config/database';
 import { EnrichmentService } from '../services/enrichmentService';
 import { config } from '../config/env';
+import { createLLMClient } from '../config/llm';
+import { ENRICHMENT_ATTRIBUTES } from '../config/enrichmentAttributes';
+import { validateEnrichmentRunOptions } from '../utils/enrichmentRunOptions';
+import { validateEnrichmentSampling } from '../utils/enrichmentSampling';
+import { EnrichmentSampling } from '../models/enrichmentSampling';
 
+// Command-line flags overriding the ENRICHMENT_* run defaults
+const RUN_OPTION_FLAGS = {
+  '--concurrency': 'concurrency',
+  '--rpm': 'requestsPerMinute',
+  '--max-retries': 'maxRetries',
+  '--backoff-ms': 'backoffBaseMs',
+  '--batch-size': 'batchSize'
+} as const;
+
+// Flags describing a --strategy sample
+const SAMPLING_FLAGS = ['--stratify-by', '--seed', '--min-ratings', '--ids'];
+
+const flagValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+/**
+ * Usage: npm run enrich -- [--count N] [--outdated | --dead-letters | --strategy S]
+ *   [--stratify-by genre|decade|budgetTier|language] [--seed N] [--min-ratings N] [--ids 1,2,3]
+ *   [--concurrency N] [--rpm N] [--max-retries N] [--backoff-ms N] [--batch-size N]
+ */
 export const main = async () => {
   console.log('=== Movie Enrichment Script ===\n');
 
@@ -10,13 +37,66 @@ export const main = async () => {
 
   try {
     // Create enrichment service
-    const enrichmentService = new EnrichmentService(db);
+    const enrichmentService = new EnrichmentService(db, createLLMClient(), config.enrichment);
+
+    const rawOptions: Record<string, string | undefined> = {};
+    for (const [flag, option] of Object.entries(RUN_OPTION_FLAGS)) {
+      rawOptions[option] = flagValue(flag);
+    }
+    const runOptions = validateEnrichmentRunOptions(rawOptions);
+    if (!runOptions.value) {
+      console.error(`Invalid run options: ${runOptions.errors.join('; ')}`);
+      process.exit(1);
+    }
+
+    // Enrich 75 movies (between 50-100 as specified), or only re-enrich
+    // movies produced by an older prompt version or whose ratings changed since, with --outdated,
+    // or retry the movies that failed after their retries in earlier runs, with --dead-letters,
+    // or sample by a strategy with --strategy, e.g. --strategy stratified --stratify-by decade
+    const outdatedOnly = process.argv.includes('--outdated');
+    const deadLettersOnly = process.argv.includes('--dead-letters');
+    const strategy = flagValue('--strategy');
+    if ([outdatedOnly, deadLettersOnly, strategy !== undefined].filter(Boolean).length > 1) {
+      console.error('--outdated, --dead-letters and --strategy cannot be combined');
+      process.exit(1);
+    }
+    const orphaned = SAMPLING_FLAGS.filter(flag => process.argv.includes(flag));
+    if (strategy === undefined && orphaned.length > 0) {
+      console.error(`${orphaned.join(', ')} can only be used with --strategy`);
+      process.exit(1);
+    }
 
-    // Enrich 75 movies (between 50-100 as specified)
-    const enrichments = await enrichmentService.enrichMovies(75);
+    let sampling: EnrichmentSampling | undefined;
+    if (strategy !== undefined) {
+      const numberFlag = (flag: string) => flagValue(flag) === undefined ? undefined : Number(flagValue(flag));
+      const result = validateEnrichmentSampling({
+        strategy,
+        stratifyBy: flagValue('--stratify-by'),
+        seed: numberFlag('--seed'),
+        minRatings: numberFlag('--min-ratings'),
+        movieIds: flagValue('--ids')?.split(',').map(Number)
+      });
+      if (!result.value) {
+        console.error(`Invalid sampling: ${result.errors.join('; ')}`);
+        process.exit(1);
+      }
+      sampling = result.value;
+    }
+
+    const count = parseInt(flagValue('--count') || String(sampling?.movieIds?.length || 75), 10);
+    if (!(count > 0)) {
+      console.error('--count must be a positive integer');
+      process.exit(1);
+    }
+
+    const enrichments = await enrichmentService.enrichMovies(count, { outdatedOnly, deadLettersOnly, sampling }, runOptions.value);
+    const deadLetters = await enrichmentService.getDeadLetters();
 
     console.log('\n=== Enrichment Summary ===');
     console.log(`Total movies enriched: ${enrichments.length}`);
+    if (deadLetters.length > 0) {
+      console.log(`Dead-lettered movies: ${deadLetters.length} (retry with --dead-letters)`);
+    }
 
     // Show sample results
     console.log('\n=== Sample Results (first 3) ===');
@@ -25,11 +105,10 @@ export const main = async () => {
     for (let i = 0; i < Math.min(3, sampleMovies.length); i++) {
       const m = sampleMovies[i];
       console.log(`\n${i + 1}. ${m.title} (${m.movieId})`);
-      console.log(`   Award Potential: ${m.awardPotential}`);
-      console.log(`   Popularity-Quality Index: ${m.popularityQualityIndex}`);
-      console.log(`   Emotional Genres: ${m.emotionalGenres}`);
-      console.log(`   Company Rolling ROI: ${m.productionCompanyRollingROI?.toFixed(2) || 'N/A'}%`);
-      console.log(`   Production Effectiveness: ${m.productionEffectivenessScore.toFixed(2)}`);
+      for (const attribute of ENRICHMENT_ATTRIBUTES) {
+        const value = m[attribute.name];
+        console.log(`   ${attribute.label}: ${typeof value === 'number' ? value.toFixed(2) : value ?? 'N/A'}`);
+      }
     }
 
     console.log('\n✓ Enrichment complete! Data saved to movie_enrichments table.');
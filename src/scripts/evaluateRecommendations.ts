@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import Database from '../config/database';
+import { EvaluationService, DEFAULT_EVALUATION_OPTIONS } from '../services/evaluationService';
+import { EvaluationOptions } from '../models/evaluation';
+import { config } from '../config/env';
+import { createLLMClient } from '../config/llm';
+
+/**
+ * Parse `--name value` / `--name=value` flags
+ */
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+
+    const [name, inline] = argv[i].slice(2).split('=');
+    args[name] = inline ?? argv[++i];
+  }
+  return args;
+};
+
+export const main = async () => {
+  console.log('=== Recommendation Evaluation Script ===\n');
+
+  const args = parseArgs(process.argv.slice(2));
+  const options: EvaluationOptions = {
+    k: parseInt(args.k || String(DEFAULT_EVALUATION_OPTIONS.k), 10),
+    users: parseInt(args.users || String(DEFAULT_EVALUATION_OPTIONS.users), 10),
+    holdoutFraction: parseFloat(args.holdout || String(DEFAULT_EVALUATION_OPTIONS.holdoutFraction)),
+    minRatings: parseInt(args['min-ratings'] || String(DEFAULT_EVALUATION_OPTIONS.minRatings), 10),
+    relevanceThreshold: parseFloat(args.threshold || String(DEFAULT_EVALUATION_OPTIONS.relevanceThreshold)),
+    strategies: args.strategies ? args.strategies.split(',') : DEFAULT_EVALUATION_OPTIONS.strategies
+  };
+  const outDir = path.resolve(args.out || './reports');
+
+  const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+
+  try {
+    const evaluationService = new EvaluationService(db, createLLMClient());
+    const report = await evaluationService.evaluate(options);
+
+    const stamp = report.generatedAt.replace(/[:.]/g, '-');
+    const jsonPath = path.join(outDir, `evaluation-${stamp}.json`);
+    const markdownPath = path.join(outDir, `evaluation-${stamp}.md`);
+    const markdown = evaluationService.toMarkdown(report);
+
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2) + '\n');
+    fs.writeFileSync(markdownPath, markdown);
+
+    console.log('\n' + markdown);
+    console.log(`✓ Report written to ${jsonPath} and ${markdownPath}`);
+  } catch (error) {
+    console.error('Error during evaluation:', error);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,28 @@
+import Database from '../config/database';
+import { config } from '../config/env';
+
+/**
+ * Re-derive the company tables after the catalog's production companies
+ * change. Usage: npm run companies:rebuild
+ */
+export const main = async () => {
+  console.log('=== Company Index Rebuild ===\n');
+
+  const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+
+  try {
+    await db.initializeCompanyTables();
+    const { companies, credits } = await db.rebuildCompanyIndex();
+
+    console.log(`Companies: ${companies}`);
+    console.log(`Movie credits: ${credits}`);
+    console.log('\n✓ Company index saved to companies and movie_companies tables.');
+  } catch (error) {
+    console.error('Error rebuilding company index:', error);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,32 @@
+import Database from '../config/database';
+import { CollaborativeFilteringService, trainItemItemModel } from '../services/collaborativeFilteringService';
+import { config } from '../config/env';
+
+export const main = async () => {
+  console.log('=== Collaborative Filtering Training Script ===\n');
+
+  const db = new Database(config.moviesDbPath, config.ratingsDbPath);
+
+  try {
+    const ratings = await db.getAllRatings();
+    console.log(`Loaded ${ratings.length} ratings`);
+
+    const started = Date.now();
+    const model = trainItemItemModel(ratings);
+    console.log(`Trained item-item model in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+    CollaborativeFilteringService.saveToFile(model, config.collaborativeFiltering.modelPath);
+
+    console.log('\n=== Training Summary ===');
+    console.log(`Movies with neighbors: ${Object.keys(model.neighbors).length}`);
+    console.log(`Global mean rating: ${model.globalMean.toFixed(3)}`);
+    console.log(`\n✓ Model saved to ${config.collaborativeFiltering.modelPath}`);
+  } catch (error) {
+    console.error('Error during training:', error);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,228 @@
+import fs from 'fs';
+import path from 'path';
+import { Rating } from '../models/rating';
+import { CFCandidate, CFModel } from '../models/cfModel';
+import { logger } from '../config/logger';
+
+export interface TrainingOptions {
+  // Neighbors kept per movie
+  neighbors: number;
+  // Users who must have rated both movies before a similarity counts
+  minCoRaters: number;
+  // Damps similarities built from few co-raters: sim * n / (n + shrinkage)
+  shrinkage: number;
+}
+
+const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  neighbors: 50,
+  minCoRaters: 3,
+  shrinkage: 10
+};
+
+/**
+ * Train an item-item model using adjusted cosine similarity (ratings
+ * centered on each user's mean), keeping the top neighbors of each movie
+ */
+export const trainItemItemModel = (
+  ratings: Rating[],
+  options: Partial<TrainingOptions> = {}
+): CFModel => {
+  const { neighbors, minCoRaters, shrinkage } = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+
+  // Center each rating on its user's mean
+  const userTotals = new Map<number, { sum: number; count: number }>();
+  for (const r of ratings) {
+    const totals = userTotals.get(r.userId) || { sum: 0, count: 0 };
+    totals.sum += r.rating;
+    totals.count++;
+    userTotals.set(r.userId, totals);
+  }
+
+  const itemIds: number[] = [];
+  const itemIndex = new Map<number, number>();
+  const itemRaters: [number, number][][] = [];
+  const userItems = new Map<number, [number, number][]>();
+
+  for (const r of ratings) {
+    if (!itemIndex.has(r.movieId)) {
+      itemIndex.set(r.movieId, itemIds.length);
+      itemIds.push(r.movieId);
+      itemRaters.push([]);
+    }
+    const idx = itemIndex.get(r.movieId)!;
+    const totals = userTotals.get(r.userId)!;
+    const centered = r.rating - totals.sum / totals.count;
+
+    itemRaters[idx].push([r.userId, centered]);
+    if (!userItems.has(r.userId)) userItems.set(r.userId, []);
+    userItems.get(r.userId)!.push([idx, centered]);
+  }
+
+  const norms = itemRaters.map(raters => Math.sqrt(raters.reduce((sum, [, c]) => sum + c * c, 0)));
+
+  // Accumulate dot products one item at a time so memory stays O(items)
+  const dot = new Float64Array(itemIds.length);
+  const coRaters = new Uint32Array(itemIds.length);
+  const model: CFModel = {
+    version: 1,
+    trainedAt: new Date().toISOString(),
+    ratingCount: ratings.length,
+    globalMean: ratings.reduce((sum, r) => sum + r.rating, 0) / Math.max(ratings.length, 1),
+    neighbors: {}
+  };
+
+  for (let i = 0; i < itemIds.length; i++) {
+    const touched: number[] = [];
+
+    for (const [userId, ci] of itemRaters[i]) {
+      for (const [j, cj] of userItems.get(userId)!) {
+        if (j === i) continue;
+        if (coRaters[j] === 0) touched.push(j);
+        dot[j] += ci * cj;
+        coRaters[j]++;
+      }
+    }
+
+    const similar: [number, number][] = [];
+    for (const j of touched) {
+      const denominator = norms[i] * norms[j];
+      if (coRaters[j] >= minCoRaters && denominator > 0) {
+        const similarity = (dot[j] / denominator) * (coRaters[j] / (coRaters[j] + shrinkage));
+        if (similarity > 0) {
+          similar.push([itemIds[j], Number(similarity.toFixed(4))]);
+        }
+      }
+      dot[j] = 0;
+      coRaters[j] = 0;
+    }
+
+    if (similar.length > 0) {
+      model.neighbors[itemIds[i]] = similar.sort((a, b) => b[1] - a[1]).slice(0, neighbors);
+    }
+  }
+
+  return model;
+};
+
+/**
+ * Serves candidates and predicted ratings from a trained item-item model
+ */
+export class CollaborativeFilteringService {
+  private model: CFModel | null;
+
+  constructor(model: CFModel | null) {
+    this.model = model;
+  }
+
+  /**
+   * Load a persisted model; a missing file leaves the service disabled
+   */
+  static loadFromFile(modelPath: string): CollaborativeFilteringService {
+    if (!fs.existsSync(modelPath)) {
+      logger.warn('No collaborative filtering model; run "npm run train:cf" to enable CF candidates', { modelPath });
+      return new CollaborativeFilteringService(null);
+    }
+
+    const model = JSON.parse(fs.readFileSync(modelPath, 'utf-8')) as CFModel;
+    logger.info('Loaded collaborative filtering model', { movies: Object.keys(model.neighbors).length, trainedAt: model.trainedAt });
+    return new CollaborativeFilteringService(model);
+  }
+
+  static saveToFile(model: CFModel, modelPath: string): void {
+    fs.mkdirSync(path.dirname(modelPath), { recursive: true });
+    fs.writeFileSync(modelPath, JSON.stringify(model));
+  }
+
+  isLoaded(): boolean {
+    return this.model !== null;
+  }
+
+  /**
+   * Predict ratings for movies similar to what the user has rated, best first
+   */
+  recommend(userRatings: Rating[], limit: number, exclude: Set<number> = new Set()): CFCandidate[] {
+    if (!this.model || userRatings.length === 0) return [];
+
+    const userMean = userRatings.reduce((sum, r) => sum + r.rating, 0) / userRatings.length;
+    const rated = new Set(userRatings.map(r => r.movieId));
+    const scores = new Map<number, { numerator: number; denominator: number; support: number }>();
+
+    for (const rating of userRatings) {
+      const centered = rating.rating - userMean;
+
+      for (const [movieId, similarity] of this.model.neighbors[rating.movieId] || []) {
+        if (rated.has(movieId) || exclude.has(movieId)) continue;
+
+        const score = scores.get(movieId) || { numerator: 0, denominator: 0, support: 0 };
+        score.numerator += similarity * centered;
+        score.denominator += similarity;
+        score.support++;
+        scores.set(movieId, score);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([movieId, s]) => ({
+        movieId,
+        // The +1 shrinks predictions backed by little similarity mass toward the user's mean
+        predictedRating: this.clampRating(userMean + s.numerator / (s.denominator + 1)),
+        support: s.support
+      }))
+      .sort((a, b) => b.predictedRating - a.predictedRating || b.support - a.support)
+      .slice(0, limit);
+  }
+
+  /**
+   * Predict a single movie's rating from the user's ratings of its neighbors
+   */
+  predict(userRatings: Rating[], movieId: number): CFCandidate | null {
+    if (!this.model || userRatings.length === 0) return null;
+
+    const userMean = userRatings.reduce((sum, r) => sum + r.rating, 0) / userRatings.length;
+    const ratingsByMovie = new Map(userRatings.map(r => [r.movieId, r.rating]));
+    let numerator = 0;
+    let denominator = 0;
+    let support = 0;
+
+    for (const [neighborId, similarity] of this.model.neighbors[movieId] || []) {
+      const rating = ratingsByMovie.get(neighborId);
+      if (rating === undefined) continue;
+
+      numerator += similarity * (rating - userMean);
+      denominator += similarity;
+      support++;
+    }
+
+    if (support === 0) return null;
+
+    return {
+      movieId,
+      predictedRating: this.clampRating(userMean + numerator / (denominator + 1)),
+      support
+    };
+  }
+
+  /**
+   * Similarity between two movies, if either lists the other as a neighbor
+   */
+  similarity(movieA: number, movieB: number): number | null {
+    if (!this.model) return null;
+
+    const forward = (this.model.neighbors[movieA] || []).find(([id]) => id === movieB);
+    if (forward) return forward[1];
+
+    const backward = (this.model.neighbors[movieB] || []).find(([id]) => id === movieA);
+    return backward ? backward[1] : null;
+  }
+
+  /**
+   * Map a predicted rating onto the 0-100 scale the LLM scores on
+   */
+  toScore(predictedRating: number): number {
+    return Number((((predictedRating - 0.5) / 4.5) * 100).toFixed(2));
+  }
+
+  private clampRating(rating: number): number {
+    return Number(Math.min(5, Math.max(0.5, rating)).toFixed(3));
+  }
+}
@@ -0,0 +1,79 @@
+import Database from '../config/database';
+import { CompanyCredit } from '../models/company';
+import { Movie } from '../models/movie';
+import { ROLLING_ROI_WINDOW, averageRoi } from '../utils/roi';
+
+// primary: the first-credited production company; weighted: all co-producers
+export type CompanyRoiMode = 'primary' | 'weighted';
+
+/**
+ * Every company credit held in memory, loaded with one query, so the
+ * rolling ROI of a whole enrichment run's movies costs a lookup and a
+ * binary search per company instead of catalog scans.
+ */
+export class CompanyRoiIndex {
+  // Each company's dated releases, oldest first
+  private releases = new Map<number, CompanyCredit[]>();
+  // Each movie's companies in billing order
+  private credits = new Map<number, CompanyCredit[]>();
+
+  constructor(credits: CompanyCredit[]) {
+    credits.forEach(credit => {
+      if (!this.credits.has(credit.movieId)) this.credits.set(credit.movieId, []);
+      this.credits.get(credit.movieId)!.push(credit);
+
+      if (!credit.releaseDate) return;
+      if (!this.releases.has(credit.companyId)) this.releases.set(credit.companyId, []);
+      this.releases.get(credit.companyId)!.push(credit);
+    });
+
+    this.credits.forEach(list => list.sort((a, b) => a.position - b.position));
+  }
+
+  static async load(db: Database): Promise<CompanyRoiIndex> {
+    return new CompanyRoiIndex(await db.getCompanyCredits());
+  }
+
+  /**
+   * Mean ROI of each company's previous ROLLING_ROI_WINDOW releases. In
+   * primary mode only the first-credited company counts; in weighted mode
+   * every co-producer does, weighted by billing order (1, 1/2, 1/3, ...)
+   * over the companies that have a figure.
+   */
+  rollingRoi(movie: Pick<Movie, 'movieId' | 'releaseDate'>, mode: CompanyRoiMode): number | null {
+    if (!movie.releaseDate) return null;
+
+    const credits = this.credits.get(movie.movieId) || [];
+    const companies = mode === 'primary' ? credits.slice(0, 1) : credits;
+
+    let weightedROI = 0;
+    let totalWeight = 0;
+
+    for (const company of companies) {
+      const releases = this.releases.get(company.companyId) || [];
+      const end = this.countReleasedBefore(releases, movie.releaseDate);
+      const roi = averageRoi(releases.slice(Math.max(0, end - ROLLING_ROI_WINDOW), end));
+      if (roi === null) continue;
+
+      const weight = 1 / (company.position + 1);
+      weightedROI += roi * weight;
+      totalWeight += weight;
+    }
+
+    return totalWeight > 0 ? weightedROI / totalWeight : null;
+  }
+
+  /**
+   * Number of releases dated strictly before the given day
+   */
+  private countReleasedBefore(releases: CompanyCredit[], releaseDate: string): number {
+    let low = 0;
+    let high = releases.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (releases[mid].releaseDate! < releaseDate) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -0,0 +1,197 @@
+import Database from '../config/database';
+import { LLMClient } from '../llm/llmClient';
+import { companyProfileSchema } from '../llm/schemas';
+import {
+  CompanyAnalytics,
+  CompanyListItem,
+  CompanyListQuery,
+  CompanyMovie,
+  CompanyProfile,
+  GenreShare,
+  RollingRoiPoint
+} from '../models/company';
+import { parseGenres } from '../utils/movieFields';
+import { ROLLING_ROI_WINDOW, roiPercent } from '../utils/roi';
+import { logger } from '../config/logger';
+
+// A release counts as a hit when it grosses at least this multiple of its budget
+export const HIT_REVENUE_MULTIPLE = 2;
+
+// Films listed in the profile prompt; the analytics cover all of them
+const PROFILE_PROMPT_MOVIES = 30;
+
+const round = (value: number, digits: number = 2): number => Number(value.toFixed(digits));
+
+/**
+ * Production-company analytics over the normalized company index:
+ * filmography, rolling ROI, hit rate, ratings and genre mix, plus an
+ * LLM-written profile grounded in those figures.
+ */
+export class CompanyService {
+  private db: Database;
+  private llm: LLMClient;
+  private ready?: Promise<void>;
+
+  constructor(db: Database, llm: LLMClient) {
+    this.db = db;
+    this.llm = llm;
+  }
+
+  async listCompanies(query: CompanyListQuery): Promise<{ companies: CompanyListItem[]; total: number }> {
+    await this.initialize();
+    return this.db.getCompanies(query);
+  }
+
+  /**
+   * Analytics for one company; null if there is no company with the id
+   */
+  async getCompanyAnalytics(companyId: number): Promise<CompanyAnalytics | null> {
+    await this.initialize();
+
+    const company = await this.db.getCompanyById(companyId);
+    if (!company) return null;
+
+    const movies = await this.db.getCompanyMovies(companyId);
+    const credits = movies.length > 0 ? await this.db.getMovieCompanies(movies.map(m => m.movieId)) : [];
+
+    const filmography: CompanyMovie[] = movies.map(movie => {
+      const roi = roiPercent(movie);
+      return {
+        movieId: movie.movieId,
+        title: movie.title,
+        releaseDate: movie.releaseDate || null,
+        genres: parseGenres(movie),
+        position: movie.position,
+        coProducers: credits
+          .filter(c => c.movieId === movie.movieId && c.companyId !== companyId)
+          .map(c => c.name),
+        budget: movie.budget > 0 ? movie.budget : null,
+        revenue: movie.revenue > 0 ? movie.revenue : null,
+        roiPercent: roi === null ? null : round(roi, 1),
+        averageRating: movie.ratingTotal !== null && movie.ratingCount > 0
+          ? round(movie.ratingTotal / movie.ratingCount)
+          : null,
+        ratingCount: movie.ratingCount
+      };
+    });
+
+    const financed = movies.filter(m => roiPercent(m) !== null);
+    const rois = financed.map(m => roiPercent(m)!);
+    const hits = financed.filter(m => m.revenue >= m.budget * HIT_REVENUE_MULTIPLE).length;
+    const ratingCount = movies.reduce((sum, m) => sum + m.ratingCount, 0);
+    const ratingTotal = movies.reduce((sum, m) => sum + (m.ratingTotal || 0), 0);
+
+    return {
+      company,
+      movieCount: movies.length,
+      primaryCount: movies.filter(m => m.position === 0).length,
+      financialsKnown: financed.length,
+      totalBudget: movies.reduce((sum, m) => sum + Math.max(m.budget, 0), 0),
+      totalRevenue: movies.reduce((sum, m) => sum + Math.max(m.revenue, 0), 0),
+      averageRoiPercent: rois.length > 0 ? round(rois.reduce((sum, r) => sum + r, 0) / rois.length, 1) : null,
+      hitRate: financed.length > 0 ? round(hits / financed.length, 3) : null,
+      averageRating: ratingCount > 0 ? round(ratingTotal / ratingCount) : null,
+      ratingCount,
+      genreMix: this.genreMix(filmography),
+      rollingRoi: this.rollingRoi(filmography),
+      filmography
+    };
+  }
+
+  /**
+   * LLM-written profile of a company from its computed analytics
+   */
+  async writeProfile(analytics: CompanyAnalytics): Promise<CompanyProfile> {
+    logger.info('Writing company profile', { companyId: analytics.company.id, name: analytics.company.name });
+
+    const { filmography, rollingRoi, ...summary } = analytics;
+    const latestRolling = rollingRoi.length > 0 ? rollingRoi[rollingRoi.length - 1] : null;
+    const films = filmography
+      .slice(-PROFILE_PROMPT_MOVIES)
+      .map(m => `- ${m.title} (${m.releaseDate ? m.releaseDate.slice(0, 4) : 'unknown year'})${m.position > 0 ? ' [co-producer]' : ''}: ` +
+        `ROI ${m.roiPercent === null ? 'unknown' : `${m.roiPercent}%`}, ` +
+        `rating ${m.averageRating === null ? 'unrated' : `${m.averageRating}/5 from ${m.ratingCount}`}, ` +
+        `genres ${m.genres.join(', ') || 'unknown'}`)
+      .join('\n');
+
+    const prompt = `Write a profile of the production company "${analytics.company.name}" for movie fans and industry analysts.
+
+Computed analytics (authoritative; do not contradict or invent other figures):
+${JSON.stringify({ ...summary, latestRollingRoiPercent: latestRolling?.rollingRoiPercent ?? null }, null, 2)}
+
+hitRate is the share of films with known budget and revenue that grossed at least ${HIT_REVENUE_MULTIPLE}x their budget. averageRating is on a 0.5-5 scale.
+
+${filmography.length > PROFILE_PROMPT_MOVIES ? `Its ${PROFILE_PROMPT_MOVIES} most recent films` : 'Its films'}, oldest first:
+${films || '(none)'}
+
+Describe the company's output, commercial track record and how audiences rate its films, and note any trend in the rolling ROI. Keep strengths and weaknesses to at most 5 short points each, and base them on the figures above.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "summary": "2-4 sentence profile",
+  "strengths": ["strength"],
+  "weaknesses": ["weakness"]
+}`;
+
+    const { value } = await this.llm.completeStructured('companyProfile', [
+      {
+        role: 'system',
+        content: 'You are a film industry analyst who profiles production companies from their data. Always respond with valid JSON.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], companyProfileSchema);
+
+    return value;
+  }
+
+  /**
+   * Trailing-window ROI at each release with known financials
+   */
+  private rollingRoi(filmography: CompanyMovie[]): RollingRoiPoint[] {
+    const points: RollingRoiPoint[] = [];
+    const window: number[] = [];
+
+    filmography
+      .filter(m => m.releaseDate !== null && m.roiPercent !== null)
+      .forEach(movie => {
+        window.push(movie.roiPercent!);
+        if (window.length > ROLLING_ROI_WINDOW) window.shift();
+
+        points.push({
+          movieId: movie.movieId,
+          releaseDate: movie.releaseDate!,
+          roiPercent: movie.roiPercent!,
+          rollingRoiPercent: round(window.reduce((sum, r) => sum + r, 0) / window.length, 1),
+          window: window.length
+        });
+      });
+
+    return points;
+  }
+
+  private genreMix(filmography: CompanyMovie[]): GenreShare[] {
+    const counts = new Map<string, number>();
+    filmography.forEach(m => m.genres.forEach(g => counts.set(g, (counts.get(g) || 0) + 1)));
+
+    return Array.from(counts.entries())
+      .map(([genre, movies]) => ({ genre, movies, share: round(movies / filmography.length, 3) }))
+      .sort((a, b) => b.movies - a.movies || a.genre.localeCompare(b.genre));
+  }
+
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        this.db.initializeCompanyTables(),
+        this.db.initializeRatingStatsTable()
+      ]).then(() => undefined);
+
+      this.ready.catch(() => {
+        this.ready = undefined;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,205 @@
+import Database from '../config/database';
+import { Movie } from '../models/movie';
+import { MovieEnrichment } from '../models/movieEnrichment';
+import {
+  ComparisonMatrix,
+  GenrePercentiles,
+  MovieComparisonMetrics,
+  PairwiseComparison,
+  RatingStats
+} from '../models/comparisonMatrix';
+import { ENRICHMENT_ATTRIBUTES } from '../config/enrichmentAttributes';
+import { parseGenres, releaseYear } from '../utils/movieFields';
+import { ratingStats } from '../utils/ratingStats';
+
+type ComparedMovie = Movie & Partial<MovieEnrichment>;
+
+// Values of one genre's movies that a compared movie is ranked against
+interface GenrePeers {
+  count: number;
+  budget: number[];
+  revenue: number[];
+  roiPercent: number[];
+  ratingMean: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits: number = 2): number => Number(value.toFixed(digits));
+
+// The catalog stores unknown budgets, revenues and runtimes as 0
+const known = (value: number | null | undefined): number | null => {
+  return typeof value === 'number' && value > 0 ? value : null;
+};
+
+const roiPercent = (budget: number | null, revenue: number | null): number | null => {
+  return budget !== null && revenue !== null ? round(((revenue - budget) / budget) * 100, 1) : null;
+};
+
+const ratio = (a: number | null, b: number | null): number | null => {
+  return a !== null && b !== null && b !== 0 ? round(a / b) : null;
+};
+
+const difference = (a: number | null, b: number | null): number | null => {
+  return a !== null && b !== null ? round(a - b) : null;
+};
+
+/**
+ * Share of values below the given one, counting ties as half, on a 0-100 scale
+ */
+const percentileRank = (values: number[], value: number | null): number | null => {
+  if (value === null || values.length === 0) return null;
+  const below = values.filter(v => v < value).length;
+  const equal = values.filter(v => v === value).length;
+  return round(((below + equal / 2) / values.length) * 100, 1);
+};
+
+/**
+ * Computes the quantitative side of a movie comparison from the catalog
+ * and the ratings database, so the LLM only has to write the narrative.
+ * Works on raw movie fields; enrichment attributes are only checked for
+ * presence.
+ */
+export class ComparisonMatrixService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async buildMatrix(movies: ComparedMovie[]): Promise<ComparisonMatrix> {
+    const movieIds = movies.map(m => m.movieId);
+    const [ratingCounts, averages, catalog] = await Promise.all([
+      this.db.getRatingCountsByValue(movieIds),
+      this.db.getMovieRatingAverages(),
+      this.db.getMovieGenreFinancials()
+    ]);
+
+    const ratingMeans = new Map(averages.map(a => [a.movieId, a.avgRating]));
+    const peers = this.collectGenrePeers(catalog, ratingMeans, new Set(movies.flatMap(m => parseGenres(m))));
+
+    const metrics = movies.map(movie => {
+      const counts = new Map<number, number>();
+      ratingCounts
+        .filter(r => r.movieId === movie.movieId)
+        .forEach(r => counts.set(r.rating, r.count));
+
+      return this.movieMetrics(movie, ratingStats(counts), ratingMeans.get(movie.movieId) ?? null, peers);
+    });
+
+    const pairs: PairwiseComparison[] = [];
+    for (let i = 0; i < metrics.length; i++) {
+      for (let j = i + 1; j < metrics.length; j++) {
+        pairs.push(this.comparePair(metrics[i], metrics[j]));
+      }
+    }
+
+    return { movies: metrics, pairs };
+  }
+
+  private movieMetrics(
+    movie: ComparedMovie,
+    ratings: RatingStats,
+    ratingMean: number | null,
+    peers: Map<string, GenrePeers>
+  ): MovieComparisonMetrics {
+    const budget = known(movie.budget);
+    const revenue = known(movie.revenue);
+    const roi = roiPercent(budget, revenue);
+    const genres = parseGenres(movie);
+
+    const genrePercentiles: GenrePercentiles[] = genres
+      .filter(genre => peers.has(genre))
+      .map(genre => {
+        const group = peers.get(genre)!;
+        return {
+          genre,
+          peers: group.count,
+          budget: percentileRank(group.budget, budget),
+          revenue: percentileRank(group.revenue, revenue),
+          roiPercent: percentileRank(group.roiPercent, roi),
+          ratingMean: percentileRank(group.ratingMean, ratingMean)
+        };
+      });
+
+    const missingAttributes = ENRICHMENT_ATTRIBUTES
+      .filter(a => movie[a.name] === null || movie[a.name] === undefined)
+      .map(a => a.name);
+
+    return {
+      movieId: movie.movieId,
+      title: movie.title,
+      releaseDate: movie.releaseDate || null,
+      releaseYear: releaseYear(movie),
+      genres,
+      runtime: known(movie.runtime),
+      budget,
+      revenue,
+      profit: difference(revenue, budget),
+      roiPercent: roi,
+      revenueToBudget: ratio(revenue, budget),
+      ratings,
+      genrePercentiles,
+      enriched: missingAttributes.length < ENRICHMENT_ATTRIBUTES.length,
+      missingAttributes
+    };
+  }
+
+  private comparePair(first: MovieComparisonMetrics, second: MovieComparisonMetrics): PairwiseComparison {
+    const released = (m: MovieComparisonMetrics) => {
+      const time = m.releaseDate ? Date.parse(m.releaseDate) : NaN;
+      return isNaN(time) ? null : time;
+    };
+    const firstRelease = released(first);
+    const secondRelease = released(second);
+
+    return {
+      firstMovieId: first.movieId,
+      secondMovieId: second.movieId,
+      releaseGapDays: firstRelease !== null && secondRelease !== null
+        ? Math.round((firstRelease - secondRelease) / DAY_MS)
+        : null,
+      runtimeDifference: difference(first.runtime, second.runtime),
+      budgetRatio: ratio(first.budget, second.budget),
+      revenueRatio: ratio(first.revenue, second.revenue),
+      profitDifference: difference(first.profit, second.profit),
+      roiPercentDifference: difference(first.roiPercent, second.roiPercent),
+      ratingMeanDifference: difference(first.ratings.mean, second.ratings.mean)
+    };
+  }
+
+  /**
+   * Known values of every catalog movie in each of the given genres
+   */
+  private collectGenrePeers(
+    catalog: Pick<Movie, 'movieId' | 'genres' | 'budget' | 'revenue'>[],
+    ratingMeans: Map<number, number>,
+    genres: Set<string>
+  ): Map<string, GenrePeers> {
+    const peers = new Map<string, GenrePeers>();
+
+    catalog.forEach(movie => {
+      const movieGenres = parseGenres(movie).filter(g => genres.has(g));
+      if (movieGenres.length === 0) return;
+
+      const budget = known(movie.budget);
+      const revenue = known(movie.revenue);
+      const roi = roiPercent(budget, revenue);
+      const ratingMean = ratingMeans.get(movie.movieId) ?? null;
+
+      movieGenres.forEach(genre => {
+        if (!peers.has(genre)) {
+          peers.set(genre, { count: 0, budget: [], revenue: [], roiPercent: [], ratingMean: [] });
+        }
+        const group = peers.get(genre)!;
+        group.count++;
+        if (budget !== null) group.budget.push(budget);
+        if (revenue !== null) group.revenue.push(revenue);
+        if (roi !== null) group.roiPercent.push(roi);
+        if (ratingMean !== null) group.ratingMean.push(ratingMean);
+      });
+    });
+
+    return peers;
+  }
+}
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import Database from '../config/database';
+import { Movie } from '../models/movie';
+import { SearchFilters, SearchResult } from '../models/searchResult';
+import { EmbeddingProvider } from '../llm/embeddingProvider';
+import { parseGenres, releaseYear } from '../utils/movieFields';
+import { logger } from '../config/logger';
+
+interface IndexedMovie {
+  movieId: number;
+  vector: Float32Array;
+  genres: string[];
+  language: string;
+  year: number | null;
+}
+
+export class EmbeddingService {
+  private db: Database;
+  private embeddings: EmbeddingProvider;
+  private index: IndexedMovie[] | null = null;
+  // Embedding table version the index was loaded at, see getEmbeddingVersion
+  private indexVersion: string | null = null;
+
+  constructor(db: Database, embeddings: EmbeddingProvider) {
+    this.db = db;
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Embed every movie in the catalog, skipping movies whose text hasn't
+   * changed since they were last embedded with the current model
+   */
+  async indexMovies(batchSize: number = 100, force: boolean = false): Promise<{ embedded: number; skipped: number }> {
+    await this.db.initializeEmbeddingTable();
+    const existingHashes = force ? new Map<number, string>() : await this.db.getEmbeddingHashes(this.embeddings.model);
+
+    let embedded = 0;
+    let skipped = 0;
+
+    for (let offset = 0; ; offset += batchSize) {
+      const movies = await this.db.getMovies(batchSize, offset);
+      if (movies.length === 0) break;
+
+      const pending = movies
+        .map(movie => ({ movie, text: this.buildText(movie) }))
+        .map(item => ({ ...item, hash: this.hashText(item.text) }))
+        .filter(item => existingHashes.get(item.movie.movieId) !== item.hash);
+
+      skipped += movies.length - pending.length;
+
+      if (pending.length > 0) {
+        const vectors = await this.embeddings.embed(pending.map(p => p.text));
+        const updatedAt = new Date().toISOString();
+
+        for (let i = 0; i < pending.length; i++) {
+          await this.db.saveEmbedding({
+            movieId: pending[i].movie.movieId,
+            model: this.embeddings.model,
+            dimensions: vectors[i].length,
+            vector: vectors[i],
+            contentHash: pending[i].hash,
+            updatedAt
+          });
+        }
+        embedded += pending.length;
+      }
+
+      logger.info('Indexed movie embeddings', { indexed: offset + movies.length, embedded, unchanged: skipped });
+      if (movies.length < batchSize) break;
+    }
+
+    // Force the in-memory index to reload on the next search
+    this.index = null;
+
+    return { embedded, skipped };
+  }
+
+  /**
+   * Rank catalog movies by cosine similarity to the query text
+   */
+  async search(query: string, filters: SearchFilters = {}, limit: number = 10): Promise<SearchResult[]> {
+    const index = await this.loadIndex();
+    if (index.length === 0) {
+      throw new Error(`No embeddings found for model ${this.embeddings.model}. Run "npm run embed" first.`);
+    }
+
+    const [queryVector] = await this.embeddings.embed([query]);
+    const genre = filters.genre?.toLowerCase();
+    const language = filters.language?.toLowerCase();
+
+    const scored = index
+      .filter(m => !genre || m.genres.includes(genre))
+      .filter(m => !language || m.language === language)
+      .filter(m => filters.yearFrom === undefined || (m.year !== null && m.year >= filters.yearFrom))
+      .filter(m => filters.yearTo === undefined || (m.year !== null && m.year <= filters.yearTo))
+      .map(m => ({ movieId: m.movieId, similarity: this.cosineSimilarity(queryVector, m.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+    if (scored.length === 0) return [];
+
+    const movies = await this.db.getMoviesByIds(scored.map(s => s.movieId));
+
+    return scored
+      .map(s => ({
+        movie: movies.find(m => m.movieId === s.movieId) as Movie,
+        similarity: Number(s.similarity.toFixed(4))
+      }))
+      .filter(r => r.movie);
+  }
+
+  /**
+   * The in-memory index, reloaded when embeddings have been written since
+   * it was loaded, e.g. by "npm run embed" in another process
+   */
+  private async loadIndex(): Promise<IndexedMovie[]> {
+    await this.db.initializeEmbeddingTable();
+    const version = await this.db.getEmbeddingVersion(this.embeddings.model);
+
+    if (!this.index || version !== this.indexVersion) {
+      const rows = await this.db.getEmbeddingsWithMovies(this.embeddings.model);
+
+      this.index = rows.map(r => ({
+        movieId: r.movieId,
+        vector: r.vector,
+        genres: parseGenres(r).map(g => g.toLowerCase()),
+        language: (r.language || '').toLowerCase(),
+        year: releaseYear(r)
+      }));
+      this.indexVersion = version;
+      logger.info('Loaded movie embeddings', { count: this.index.length, model: this.embeddings.model });
+    }
+    return this.index;
+  }
+
+  private buildText(movie: Movie): string {
+    return [
+      movie.title,
+      `Genres: ${parseGenres(movie).join(', ')}`,
+      movie.overview || ''
+    ].join('\n');
+  }
+
+  private hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  private cosineSimilarity(a: number[], b: Float32Array): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
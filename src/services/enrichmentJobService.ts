@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import Database from '../config/database';
+import { EnrichmentService } from './enrichmentService';
+import { EnrichmentJob, EnrichmentJobFailure, EnrichmentRunOptions, EnrichmentSelection } from '../models/enrichmentJob';
+import { Movie } from '../models/movie';
+import { getRequestContext, runWithRequestContext } from '../config/requestContext';
+import { logger } from '../config/logger';
+import { enrichmentJobMovies, enrichmentJobsActive, enrichmentJobsFinished } from '../config/metrics';
+
+export interface EnrichmentJobProgress extends EnrichmentJob {
+  total: number | null;
+  processed: number;
+  percentComplete: number | null;
+  etaSeconds: number | null;
+  failures: EnrichmentJobFailure[];
+}
+
+/**
+ * Runs enrichment in the background as persisted jobs. Progress is written
+ * after every movie, so a job interrupted by a restart resumes from its
+ * cursor; movies that finished out of order past it are enriched again.
+ */
+export class EnrichmentJobService {
+  private db: Database;
+  private enrichmentService: EnrichmentService;
+  // Jobs being processed by this process, mapped to their cancellation flag
+  private active = new Map<string, { cancelled: boolean }>();
+  private initialized: Promise<void> | null = null;
+
+  constructor(db: Database, enrichmentService: EnrichmentService) {
+    this.db = db;
+    this.enrichmentService = enrichmentService;
+  }
+
+  /**
+   * Create a job and start processing it without waiting for it to finish
+   */
+  async startJob(
+    count: number,
+    selection: EnrichmentSelection = {},
+    options: Partial<EnrichmentRunOptions> = {}
+  ): Promise<EnrichmentJob> {
+    await this.initialize();
+
+    const now = new Date().toISOString();
+    const job: EnrichmentJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      requestedCount: count,
+      selection,
+      options,
+      movieIds: null,
+      sample: null,
+      cursor: 0,
+      succeeded: 0,
+      failed: 0,
+      currentMovieId: null,
+      currentMovieTitle: null,
+      elapsedMs: 0,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: null
+    };
+
+    await this.db.saveJob(job);
+    this.runInBackground(job);
+
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<EnrichmentJobProgress | null> {
+    await this.initialize();
+
+    const job = await this.db.getJob(jobId);
+    if (!job) return null;
+
+    return this.withProgress(job, await this.db.getJobFailures(jobId));
+  }
+
+  async listJobs(): Promise<EnrichmentJobProgress[]> {
+    await this.initialize();
+
+    const jobs = await this.db.getJobs();
+    // Failure details are only included when fetching a single job
+    return jobs.map(job => this.withProgress(job, []));
+  }
+
+  /**
+   * Cancel a queued or running job. Movies already being enriched finish first.
+   */
+  async cancelJob(jobId: string): Promise<EnrichmentJob | null> {
+    await this.initialize();
+
+    const job = await this.db.getJob(jobId);
+    if (!job) return null;
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new Error(`Job ${jobId} is already ${job.status}`);
+    }
+
+    const handle = this.active.get(jobId);
+    if (handle) handle.cancelled = true;
+
+    const now = new Date().toISOString();
+    const cancelled: EnrichmentJob = {
+      ...job,
+      status: 'cancelled',
+      currentMovieId: null,
+      currentMovieTitle: null,
+      updatedAt: now,
+      finishedAt: now
+    };
+    await this.db.saveJob(cancelled);
+    enrichmentJobsFinished.inc({ status: 'cancelled' });
+    logger.info('Enrichment job cancelled', { jobId });
+
+    return cancelled;
+  }
+
+  /**
+   * Pick up jobs that were queued or running when the server last stopped
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    await this.initialize();
+
+    const jobs = await this.db.getJobs(['queued', 'running']);
+    for (const job of jobs) {
+      logger.info('Resuming enrichment job', { jobId: job.id, cursor: job.cursor });
+      this.runInBackground(job);
+    }
+    return jobs.length;
+  }
+
+  private initialize(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = Promise.all([
+        this.db.initializeJobTables(),
+        this.db.initializeEnrichmentTable()
+      ]).then(() => undefined);
+    }
+    return this.initialized;
+  }
+
+  private runInBackground(job: EnrichmentJob): void {
+    if (this.active.has(job.id)) return;
+
+    const handle = { cancelled: false };
+    this.active.set(job.id, handle);
+    enrichmentJobsActive.inc();
+
+    // LLM usage is attributed to the job id rather than the request that started it
+    const parent = getRequestContext();
+    const context = {
+      requestId: job.id,
+      endpoint: 'POST /api/enrich',
+      cassetteMode: parent?.cassetteMode,
+      cacheMode: parent?.cacheMode,
+      llmCalls: []
+    };
+
+    runWithRequestContext(context, () => this.runJob(job, handle))
+      .catch(async (error: any) => {
+        // A cancel has already been persisted and counted; don't overwrite it
+        if (handle.cancelled) {
+          logger.warn('Cancelled enrichment job failed while stopping', { jobId: job.id, error });
+          return;
+        }
+        logger.error('Enrichment job failed', { jobId: job.id, error });
+        enrichmentJobsFinished.inc({ status: 'failed' });
+        const now = new Date().toISOString();
+        await this.db.saveJob({ ...job, status: 'failed', error: error.message, updatedAt: now, finishedAt: now });
+      })
+      .catch(error => logger.error('Could not record enrichment job failure', { jobId: job.id, error }))
+      .finally(() => {
+        this.active.delete(job.id);
+        enrichmentJobsActive.dec();
+      });
+  }
+
+  private async runJob(job: EnrichmentJob, handle: { cancelled: boolean }): Promise<void> {
+    await this.enrichmentService.prepareRun();
+
+    if (!job.movieIds) {
+      const selected = await this.enrichmentService.selectMovies(job.requestedCount, job.selection);
+      job.movieIds = selected.map(m => m.movieId);
+      job.sample = await this.enrichmentService.getSampleDistribution(selected);
+    }
+
+    // Cancelled while selecting; the cancelled row must not be overwritten
+    if (handle.cancelled) return;
+
+    job.status = 'running';
+    await this.save(job);
+
+    const first = job.cursor;
+    const remaining = job.movieIds.slice(first);
+    const found = remaining.length > 0 ? await this.db.getMoviesByIds(remaining) : [];
+    const elapsedBefore = job.elapsedMs;
+    const started = Date.now();
+    // Positions in movieIds processed ahead of the cursor
+    const processed = new Set<number>();
+
+    const advance = async (position: number) => {
+      processed.add(position);
+      while (processed.has(job.cursor)) {
+        processed.delete(job.cursor);
+        job.cursor++;
+      }
+      job.elapsedMs = elapsedBefore + (Date.now() - started);
+      // A cancel that arrived mid-run has already been persisted; don't overwrite it
+      if (!handle.cancelled) await this.save(job);
+    };
+
+    const recordFailure = async (movieId: number, title: string, error: string) => {
+      job.failed++;
+      enrichmentJobMovies.inc({ outcome: 'failed' });
+      logger.warn('Failed to enrich movie', { jobId: job.id, movieId, title, error });
+      await this.db.saveJobFailure(job.id, { movieId, title, error, failedAt: new Date().toISOString() });
+    };
+
+    // Movies deleted since selection fail without reaching the LLM
+    const movies: Movie[] = [];
+    const positions: number[] = [];
+    for (let i = 0; i < remaining.length; i++) {
+      const movie = found.find(m => m.movieId === remaining[i]);
+      if (movie) {
+        movies.push(movie);
+        positions.push(first + i);
+      } else {
+        await recordFailure(remaining[i], '', `Movie ${remaining[i]} no longer exists`);
+        await advance(first + i);
+      }
+    }
+
+    await this.enrichmentService.runEnrichment(movies, job.options, {
+      jobId: job.id,
+      shouldStop: () => handle.cancelled,
+      onStart: async batch => {
+        job.currentMovieId = batch[0].movieId;
+        job.currentMovieTitle = batch[0].title;
+        if (!handle.cancelled) await this.save(job);
+      },
+      onOutcome: async ({ index, movie, error }) => {
+        if (error) {
+          await recordFailure(movie.movieId, movie.title, error.message);
+        } else {
+          job.succeeded++;
+          enrichmentJobMovies.inc({ outcome: 'succeeded' });
+          logger.info('Enriched movie', { jobId: job.id, movieId: movie.movieId, title: movie.title });
+        }
+        await advance(positions[index]);
+      }
+    });
+
+    if (handle.cancelled) return;
+
+    const now = new Date().toISOString();
+    await this.db.saveJob({
+      ...job,
+      status: 'completed',
+      currentMovieId: null,
+      currentMovieTitle: null,
+      updatedAt: now,
+      finishedAt: now
+    });
+    enrichmentJobsFinished.inc({ status: 'completed' });
+    logger.info('Enrichment job complete', { jobId: job.id, succeeded: job.succeeded, failed: job.failed });
+  }
+
+  private async save(job: EnrichmentJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await this.db.saveJob(job);
+  }
+
+  private withProgress(job: EnrichmentJob, failures: EnrichmentJobFailure[]): EnrichmentJobProgress {
+    const total = job.movieIds ? job.movieIds.length : null;
+    const processed = job.cursor;
+    const remaining = total !== null ? total - processed : null;
+    const running = job.status === 'running' || job.status === 'queued';
+
+    // Average wall time per movie so far, at the job's concurrency
+    const perMovieMs = processed > 0 ? job.elapsedMs / processed : null;
+
+    return {
+      ...job,
+      total,
+      processed,
+      percentComplete: total ? Number(((processed / total) * 100).toFixed(1)) : null,
+      etaSeconds: running && remaining !== null && perMovieMs !== null
+        ? Math.round((remaining * perMovieMs) / 1000)
+        : null,
+      failures
+    };
+  }
+}
@@ -1,287 +1,621 @@
-import openai from '../config/openai';
 import Database from '../config/database';
+import { LLMClient, StructuredCompletion } from '../llm/llmClient';
+import { CompletionResponse } from '../llm/llmProvider';
+import { BatchEnrichmentOutput, EnrichmentOutput, batchEnrichmentSchema, enrichmentSchema } from '../llm/schemas';
+import { RateLimitedExecutor, RetriesExhaustedError } from '../llm/rateLimitedExecutor';
+import { SpendLimitExceededError } from '../llm/usageTrackingProvider';
+import {
+  FORMULA_ATTRIBUTES,
+  LLMAttribute,
+  LLM_ATTRIBUTES,
+  llmAttributesFingerprint
+} from '../config/enrichmentAttributes';
 import { Movie } from '../models/movie';
 import { MovieEnrichment } from '../models/movieEnrichment';
 import { EnrichmentInput } from '../models/enrichmentInput';
+import { EnrichmentDiff, EnrichmentProvenance, EnrichmentVersion } from '../models/enrichmentProvenance';
+import { EnrichmentDeadLetter, EnrichmentRunOptions, EnrichmentSelection } from '../models/enrichmentJob';
+import { EnrichmentSampling, SampleDistribution } from '../models/enrichmentSampling';
+import { describeSample, sampleCandidates } from '../utils/enrichmentSampling';
+import { CompanyRoiIndex, CompanyRoiMode } from './companyRoiIndex';
+import { logger } from '../config/logger';
+
+// Bump whenever the enrichment prompt wording changes, so older rows can be re-enriched.
+// The suffix follows the attribute registry, so adding an LLM attribute outdates rows too.
+export const ENRICHMENT_PROMPT_VERSION = `enrichment-v3+${llmAttributesFingerprint()}`;
+
+const ENRICHMENT_SYSTEM_PROMPT = 'You are a film industry analyst expert at evaluating movies for awards, popularity, and emotional resonance. Always respond with valid JSON only.';
+
+export interface EnrichmentOptions {
+  // Which production companies the rolling ROI attribute is computed from
+  companyRoi: CompanyRoiMode;
+  // Defaults for each run, merged under the run's own overrides
+  run: EnrichmentRunOptions;
+}
+
+const DEFAULT_ENRICHMENT_OPTIONS: EnrichmentOptions = {
+  companyRoi: 'primary',
+  run: {
+    concurrency: 2,
+    requestsPerMinute: 60,
+    maxRetries: 4,
+    backoffBaseMs: 1000,
+    batchSize: 1
+  }
+};
+
+// What happened to one movie of a run; error is set when it was dead-lettered
+export interface EnrichmentOutcome {
+  // Position of the movie in the list given to runEnrichment
+  index: number;
+  movie: Movie;
+  enrichment?: MovieEnrichment;
+  error?: Error;
+}
+
+export interface EnrichmentRunHooks {
+  // Job the run belongs to, recorded on its dead letters
+  jobId?: string;
+  // Checked before each movie or batch starts; true stops the run
+  shouldStop?: () => boolean;
+  onStart?: (movies: Movie[]) => Promise<void> | void;
+  onOutcome?: (outcome: EnrichmentOutcome) => Promise<void> | void;
+}
+
+type EnrichmentResult = {
+  enrichment: MovieEnrichment;
+  provenance: Omit<EnrichmentProvenance, 'version'>;
+};
 
 export class EnrichmentService {
   private db: Database;
+  private llm: LLMClient;
+  private options: EnrichmentOptions;
+  private ready?: Promise<void>;
+  private companyIndex?: Promise<CompanyRoiIndex>;
 
-  constructor(db: Database) {
+  constructor(db: Database, llm: LLMClient, options: Partial<EnrichmentOptions> = {}) {
     this.db = db;
+    this.llm = llm;
+    this.options = {
+      ...DEFAULT_ENRICHMENT_OPTIONS,
+      ...options,
+      run: { ...DEFAULT_ENRICHMENT_OPTIONS.run, ...options.run }
+    };
   }
 
   /**
    * Main method to enrich a batch of movies
    */
-  async enrichMovies(movieCount: number = 75): Promise<MovieEnrichment[]> {
-    console.log(`Starting enrichment process for ${movieCount} movies...`);
+  async enrichMovies(
+    movieCount: number = 75,
+    selection: EnrichmentSelection = {},
+    runOptions: Partial<EnrichmentRunOptions> = {}
+  ): Promise<MovieEnrichment[]> {
+    logger.info('Starting enrichment run', { movieCount, selection, options: this.resolveRunOptions(runOptions) });
 
-    // Get movies that have ratings
-    const movies = await this.selectMoviesWithRatings(movieCount);
-    console.log(`Selected ${movies.length} movies with ratings`);
+    await this.prepareRun();
 
-    // Initialize enrichment table
-    await this.db.initializeEnrichmentTable();
+    const movies = await this.selectMovies(movieCount, selection);
+    logger.info('Selected movies for enrichment', { selected: movies.length, sample: await this.getSampleDistribution(movies) });
 
     const enrichments: MovieEnrichment[] = [];
+    let finished = 0;
+
+    await this.runEnrichment(movies, runOptions, {
+      onOutcome: ({ movie, enrichment, error }) => {
+        finished++;
+        if (enrichment) {
+          enrichments.push(enrichment);
+          logger.info('Enriched movie', { position: finished, total: movies.length, movieId: movie.movieId, title: movie.title });
+        } else {
+          logger.error('Failed to enrich movie', { position: finished, total: movies.length, movieId: movie.movieId, title: movie.title, error });
+        }
+      }
+    });
 
-    for (let i = 0; i < movies.length; i++) {
-      const movie = movies[i];
-      console.log(`\nEnriching ${i + 1}/${movies.length}: ${movie.title} (${movie.movieId})`);
+    logger.info('Enrichment run complete', { enriched: enrichments.length, deadLettered: finished - enrichments.length });
+    return enrichments;
+  }
 
-      try {
-        const enrichment = await this.enrichSingleMovie(movie);
-        await this.db.saveEnrichment(enrichment);
-        enrichments.push(enrichment);
-        console.log(`✓ Completed: ${movie.title}`);
-
-        // Add small delay to avoid rate limiting
-        if (i < movies.length - 1) {
-          await this.delay(500);
+  /**
+   * Enrich and save the movies under the run's concurrency, rate limit and
+   * batching options. Movies that still fail after their retries go on the
+   * dead-letter list, and leave it once a later run enriches them. A spend
+   * limit stops the run, since every remaining movie would fail the same way.
+   */
+  async runEnrichment(
+    movies: Movie[],
+    runOptions: Partial<EnrichmentRunOptions> = {},
+    hooks: EnrichmentRunHooks = {}
+  ): Promise<void> {
+    await this.initialize();
+
+    const options = this.resolveRunOptions(runOptions);
+    const executor = new RateLimitedExecutor(options);
+    const batches: { movie: Movie; index: number }[][] = [];
+    movies.forEach((movie, index) => {
+      if (index % options.batchSize === 0) batches.push([]);
+      batches[batches.length - 1].push({ movie, index });
+    });
+
+    await executor.forEach(batches, async batch => {
+      await hooks.onStart?.(batch.map(b => b.movie));
+
+      const results = batch.length > 1
+        ? await this.enrichBatchWithRetries(batch.map(b => b.movie), executor)
+        : [await this.enrichWithRetries(batch[0].movie, executor)];
+
+      for (let i = 0; i < batch.length; i++) {
+        const { movie, index } = batch[i];
+        const result = results[i];
+
+        if (result instanceof Error) {
+          await this.db.saveDeadLetter({
+            movieId: movie.movieId,
+            title: movie.title,
+            jobId: hooks.jobId || null,
+            error: result.message,
+            attempts: result instanceof RetriesExhaustedError ? result.attempts : 1,
+            failedAt: new Date().toISOString()
+          });
+          await hooks.onOutcome?.({ index, movie, error: result });
+        } else {
+          await this.db.deleteDeadLetter(movie.movieId);
+          await hooks.onOutcome?.({ index, movie, enrichment: result });
         }
-      } catch (error) {
-        console.error(`✗ Error enriching ${movie.title}:`, error);
       }
-    }
+    }, hooks.shouldStop);
+  }
 
-    console.log(`\nEnrichment complete! Processed ${enrichments.length} movies`);
-    return enrichments;
+  /**
+   * Defaults from the service options with the given overrides applied
+   */
+  resolveRunOptions(runOptions: Partial<EnrichmentRunOptions> = {}): EnrichmentRunOptions {
+    return { ...this.options.run, ...runOptions };
+  }
+
+  /**
+   * Create the tables enrichment reads and writes, and reload the company
+   * index so a run sees the current catalog. Call before each run.
+   */
+  async prepareRun(): Promise<void> {
+    await this.initialize();
+    this.companyIndex = undefined;
+    await this.getCompanyIndex();
+  }
+
+  /**
+   * Enrich one movie and persist the result
+   */
+  async enrichAndSave(movie: Movie): Promise<MovieEnrichment> {
+    const { enrichment, provenance } = await this.enrichSingleMovie(movie);
+    await this.db.saveEnrichment(enrichment, provenance);
+    return enrichment;
+  }
+
+  /**
+   * Choose which movies an enrichment run should process
+   */
+  async selectMovies(limit: number, selection: EnrichmentSelection): Promise<Movie[]> {
+    if (selection.deadLettersOnly) return this.selectDeadLetters(limit);
+    if (selection.outdatedOnly) return this.selectOutdatedMovies(limit);
+    return selection.sampling
+      ? this.selectSample(limit, selection.sampling)
+      : this.selectMoviesWithRatings(limit);
+  }
+
+  /**
+   * Genre, decade, budget tier, language and rating-count make-up of a selection
+   */
+  async getSampleDistribution(movies: Movie[]): Promise<SampleDistribution> {
+    await this.initialize();
+    const summaries = movies.length > 0 ? await this.db.getMovieRatingSummaries(movies.map(m => m.movieId)) : [];
+    return describeSample(movies, new Map(summaries.map(s => [s.movieId, s.ratingCount])));
+  }
+
+  /**
+   * Movies on the dead-letter list, oldest failure first
+   */
+  async getDeadLetters(): Promise<EnrichmentDeadLetter[]> {
+    await this.initialize();
+    return this.db.getDeadLetters();
+  }
+
+  /**
+   * All saved versions of a movie's enrichment, oldest first
+   */
+  async getHistory(movieId: number): Promise<EnrichmentVersion[]> {
+    await this.db.initializeEnrichmentTable();
+    return this.db.getEnrichmentHistory(movieId);
+  }
+
+  /**
+   * Field-by-field differences between two versions of a movie's enrichment.
+   * Input snapshot fields are compared individually.
+   */
+  async diffVersions(movieId: number, fromVersion: number, toVersion: number): Promise<EnrichmentDiff | null> {
+    const history = await this.getHistory(movieId);
+    const from = history.find(v => v.version === fromVersion);
+    const to = history.find(v => v.version === toVersion);
+    if (!from || !to) return null;
+
+    const flatten = (version: EnrichmentVersion): Record<string, unknown> => {
+      const { inputSnapshot, rawResponse, createdAt, version: _, ...fields } = version;
+      const snapshot = inputSnapshot ? JSON.parse(inputSnapshot) : {};
+      return {
+        ...fields,
+        ...Object.fromEntries(Object.entries(snapshot).map(([key, value]) => [`inputSnapshot.${key}`, value]))
+      };
+    };
+
+    const before = flatten(from);
+    const after = flatten(to);
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+    return {
+      movieId,
+      fromVersion,
+      toVersion,
+      changes: fields
+        .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+        .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }))
+    };
+  }
+
+  /**
+   * Select enriched movies whose current version came from an older prompt
+   */
+  async selectOutdatedMovies(limit: number): Promise<Movie[]> {
+    await this.db.initializeEnrichmentTable();
+    const movieIds = await this.db.getOutdatedEnrichmentMovieIds(ENRICHMENT_PROMPT_VERSION, limit);
+    return movieIds.length > 0 ? this.db.getMoviesByIds(movieIds) : [];
+  }
+
+  /**
+   * Select dead-lettered movies to retry, oldest failure first
+   */
+  async selectDeadLetters(limit: number): Promise<Movie[]> {
+    await this.initialize();
+    return this.getMoviesInOrder((await this.db.getDeadLetters(limit)).map(d => d.movieId));
+  }
+
+  /**
+   * Select rated movies by a sampling strategy, or exactly the listed ones
+   * (rated or not) in their given order
+   */
+  async selectSample(limit: number, sampling: EnrichmentSampling): Promise<Movie[]> {
+    await this.initialize();
+    const movieIds = sampling.strategy === 'ids'
+      ? (sampling.movieIds || []).slice(0, limit)
+      : sampleCandidates(await this.db.getSamplingCandidates(sampling.minRatings), sampling, limit);
+    return this.getMoviesInOrder(movieIds);
   }
 
   /**
    * Select movies that have ratings (to ensure we can compute popularity metrics)
    */
-  private async selectMoviesWithRatings(limit: number): Promise<Movie[]> {
-    // Get movies with ratings, prioritize diverse selection
-    const movies = await this.db.getMovies();
-    const moviesWithRatings: Movie[] = [];
+  async selectMoviesWithRatings(limit: number): Promise<Movie[]> {
+    await this.initialize();
+    return this.db.getMoviesWithRatings(limit);
+  }
 
-    for (const movie of movies) {
-      if (moviesWithRatings.length >= limit) break;
+  /**
+   * Movies by id in the order given, skipping ids not in the catalog
+   */
+  private async getMoviesInOrder(movieIds: number[]): Promise<Movie[]> {
+    const movies = movieIds.length > 0 ? await this.db.getMoviesByIds(movieIds) : [];
+    return movieIds.map(id => movies.find(m => m.movieId === id)).filter((m): m is Movie => m !== undefined);
+  }
+
+  /**
+   * Enrich and save one movie through the executor; an error is returned
+   * rather than thrown unless it should stop the run
+   */
+  private async enrichWithRetries(movie: Movie, executor: RateLimitedExecutor): Promise<MovieEnrichment | Error> {
+    try {
+      return await executor.call(() => this.enrichAndSave(movie), `Enrichment of movie ${movie.movieId}`);
+    } catch (error: any) {
+      if (error instanceof SpendLimitExceededError) throw error;
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Enrich and save several movies from one prompt. If the model can't
+   * produce valid output for the whole batch, each movie is retried on its
+   * own; if the provider keeps failing, every movie in the batch fails.
+   */
+  private async enrichBatchWithRetries(movies: Movie[], executor: RateLimitedExecutor): Promise<(MovieEnrichment | Error)[]> {
+    let results: EnrichmentResult[];
+    try {
+      results = await executor.call(() => this.enrichBatch(movies), `Enrichment of ${movies.length} movies`);
+    } catch (error: any) {
+      if (error instanceof SpendLimitExceededError) throw error;
+      if (error instanceof RetriesExhaustedError) return movies.map(() => error);
+
+      logger.warn('Batch enrichment failed, enriching movies individually', {
+        movieIds: movies.map(m => m.movieId),
+        error: error.message
+      });
+      const fallback: (MovieEnrichment | Error)[] = [];
+      for (const movie of movies) {
+        fallback.push(await this.enrichWithRetries(movie, executor));
+      }
+      return fallback;
+    }
 
-      const ratingStats = await this.db.getAverageRatingForMovie(movie.movieId);
-      if (ratingStats && ratingStats.count > 0) {
-        moviesWithRatings.push(movie);
+    // A failed save fails only that movie; asking the LLM again would add
+    // another version for movies already saved
+    const saved: (MovieEnrichment | Error)[] = [];
+    for (const { enrichment, provenance } of results) {
+      try {
+        await this.db.saveEnrichment(enrichment, provenance);
+        saved.push(enrichment);
+      } catch (error: any) {
+        saved.push(error instanceof Error ? error : new Error(String(error)));
       }
     }
+    return saved;
+  }
+
+  /**
+   * Enrich a single movie with every registered attribute
+   */
+  private async enrichSingleMovie(movie: Movie): Promise<EnrichmentResult> {
+    const input = await this.buildInput(movie);
+
+    // Use LLM to generate enrichments
+    const { value, response } = await this.getLLMEnrichments(input);
+    return this.toResult(input, value, response, 1);
+  }
+
+  /**
+   * Enrich several movies with every registered attribute from one prompt.
+   * Token usage is split evenly between them.
+   */
+  private async enrichBatch(movies: Movie[]): Promise<EnrichmentResult[]> {
+    const inputs: EnrichmentInput[] = [];
+    for (const movie of movies) {
+      inputs.push(await this.buildInput(movie));
+    }
 
-    return moviesWithRatings;
+    const { value, response } = await this.getLLMBatchEnrichments(inputs);
+    return inputs.map(input => {
+      const output = value.find(item => item.movieId === input.movie.movieId)!;
+      return this.toResult(input, output.attributes, response, inputs.length);
+    });
   }
 
   /**
-   * Enrich a single movie with all 5 attributes
+   * Rating statistics and production company rolling ROI for a movie
    */
-  private async enrichSingleMovie(movie: Movie): Promise<MovieEnrichment> {
+  private async buildInput(movie: Movie): Promise<EnrichmentInput> {
+    await this.initialize();
+
     // Get rating statistics
-    const ratingStats = await this.db.getAverageRatingForMovie(movie.movieId);
-    const avgRating = ratingStats?.avgRating || 0;
-    const ratingCount = ratingStats?.count || 0;
+    const [ratingStats] = await this.db.getMovieRatingSummaries([movie.movieId]);
 
     // Calculate production company rolling ROI
-    const companyROI = await this.calculateCompanyROI(movie);
+    const companyIndex = await this.getCompanyIndex();
 
-    const input: EnrichmentInput = {
+    return {
       movie,
-      avgRating,
-      ratingCount,
-      companyROI
+      avgRating: ratingStats?.averageRating || 0,
+      ratingCount: ratingStats?.ratingCount || 0,
+      companyROI: companyIndex.rollingRoi(movie, this.options.companyRoi)
     };
+  }
 
-    // Use LLM to generate enrichments
-    const llmEnrichments = await this.getLLMEnrichments(input);
-
-    // Calculate production effectiveness score (formula-based)
-    const productionEffectivenessScore = this.calculateProductionEffectiveness(
-      movie,
-      avgRating
-    );
-
-    return {
+  /**
+   * Combine the LLM attributes with the formula attributes and record how
+   * they were produced
+   */
+  private toResult(
+    input: EnrichmentInput,
+    output: EnrichmentOutput,
+    response: CompletionResponse,
+    batchSize: number
+  ): EnrichmentResult {
+    const { movie, avgRating, ratingCount, companyROI } = input;
+
+    // Formula-based attributes are computed from the same inputs
+    const enrichment = {
       movieId: movie.movieId,
-      awardPotential: llmEnrichments.awardPotential,
-      popularityQualityIndex: llmEnrichments.popularityQualityIndex,
-      emotionalGenres: llmEnrichments.emotionalGenres,
-      productionCompanyRollingROI: companyROI,
-      productionEffectivenessScore
+      ...output,
+      ...Object.fromEntries(FORMULA_ATTRIBUTES.map(attribute => [attribute.name, attribute.compute(input)]))
+    } as MovieEnrichment;
+
+    const share = (tokens: number | undefined) => tokens === undefined ? null : Math.round(tokens / batchSize);
+    const provenance: Omit<EnrichmentProvenance, 'version'> = {
+      model: response.model,
+      promptVersion: ENRICHMENT_PROMPT_VERSION,
+      temperature: this.llm.getSettings(batchSize > 1 ? 'enrichmentBatch' : 'enrichment').temperature,
+      inputSnapshot: JSON.stringify({
+        title: movie.title,
+        overview: movie.overview,
+        runtime: movie.runtime,
+        budget: movie.budget,
+        revenue: movie.revenue,
+        releaseDate: movie.releaseDate,
+        genres: movie.genres,
+        avgRating,
+        ratingCount,
+        companyROI,
+        companyROIMode: this.options.companyRoi,
+        // Movies sharing the prompt, only recorded for batched runs
+        ...(batchSize > 1 && { batchSize })
+      }),
+      rawResponse: response.content,
+      promptTokens: share(response.usage?.promptTokens),
+      completionTokens: share(response.usage?.completionTokens),
+      totalTokens: share(response.usage?.totalTokens),
+      createdAt: new Date().toISOString()
     };
+
+    return { enrichment, provenance };
   }
 
   /**
-   * Use OpenAI to generate Award Potential, Popularity-Quality Index, and Emotional Genres
+   * Use the LLM to generate every LLM-derived attribute in the registry
    */
-  private async getLLMEnrichments(input: EnrichmentInput): Promise<{
-    awardPotential: string;
-    popularityQualityIndex: number;
-    emotionalGenres: string;
-  }> {
-    const { movie, avgRating, ratingCount } = input;
-
-    const prompt = `Analyze the following movie and provide three specific attributes:
+  private async getLLMEnrichments(input: EnrichmentInput): Promise<StructuredCompletion<EnrichmentOutput>> {
+    const prompt = `Analyze the following movie and provide ${LLM_ATTRIBUTES.length} specific attributes:
 
 Movie Information:
-- Title: ${movie.title}
-- Overview: ${movie.overview}
-- Runtime: ${movie.runtime} minutes
-- Budget: $${movie.budget.toLocaleString()}
-- Revenue: $${movie.revenue.toLocaleString()}
-- Release Date: ${movie.releaseDate}
-- Genres: ${movie.genres}
-- Average Rating: ${avgRating.toFixed(2)}/5.0
-- Number of Ratings: ${ratingCount}
+${this.describeMovie(input)}
 
 Please provide the following analyses:
 
-1. **Award Potential** (Category: High/Medium/Low)
-   - Consider: Does the overview sound like "award-bait" (prestige, critical tone)?
-   - Runtime factor: Longer dramas (>120min) often correlate with awards
-   - Budget/Revenue ratio: Modest budget with acclaim suggests prestige
-   - Year-normalized rating quality
-
-2. **Popularity-Quality Index** (Numeric score 0-100)
-   - Combine rating count × average rating (weighted)
-   - Sentiment of overview (emotional appeal)
-   - Correlation with revenue (does popularity translate to box office?)
-
-3. **Emotional Genre Classification** (Multiple categories allowed)
-   - Classify into nuanced emotional categories beyond standard genres
-   - Options: fast-paced, emotional, spectacle, contemplative, intense, uplifting, dark, whimsical, gritty, romantic
-   - Provide 1-3 categories that best describe the movie's emotional tone
+${this.attributeSections()}
 
 Respond ONLY with valid JSON in this exact format (no markdown, no extra text):
 {
-  "awardPotential": "High|Medium|Low",
-  "popularityQualityIndex": 0-100,
-  "emotionalGenres": "category1, category2"
+${this.attributeFormat('  ')}
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a film industry analyst expert at evaluating movies for awards, popularity, and emotional resonance. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3,
-      max_tokens: 500
-    });
-
-    const content = response.choices[0].message.content?.trim() || '{}';
-
-    try {
-      const parsed = JSON.parse(content);
-      return {
-        awardPotential: parsed.awardPotential || 'Medium',
-        popularityQualityIndex: parsed.popularityQualityIndex || 50,
-        emotionalGenres: parsed.emotionalGenres || 'emotional'
-      };
-    } catch (error) {
-      console.error('Error parsing LLM response:', content);
-      return {
-        awardPotential: 'Medium',
-        popularityQualityIndex: 50,
-        emotionalGenres: 'emotional'
-      };
-    }
+    return this.llm.completeStructured('enrichment', [
+      {
+        role: 'system',
+        content: ENRICHMENT_SYSTEM_PROMPT
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], enrichmentSchema);
   }
 
   /**
-   * Calculate rolling ROI for the movie's production company
+   * Use the LLM to generate every LLM-derived attribute for several movies at once
    */
-  private async calculateCompanyROI(movie: Movie): Promise<number | null> {
-    if (!movie.productionCompanies || movie.productionCompanies.trim() === '') {
-      return null;
-    }
+  private async getLLMBatchEnrichments(inputs: EnrichmentInput[]): Promise<StructuredCompletion<BatchEnrichmentOutput[]>> {
+    const movies = inputs
+      .map(input => `Movie ID: ${input.movie.movieId}\n${this.describeMovie(input)}`)
+      .join('\n\n');
 
-    // Parse production companies (stored as JSON array)
-    let companies: string[] = [];
-    try {
-      const parsed = JSON.parse(movie.productionCompanies);
-      companies = parsed.map((c: any) => c.name || '').filter((n: string) => n !== '');
-    } catch {
-      return null;
-    }
+    const prompt = `Analyze each of the following ${inputs.length} movies and provide ${LLM_ATTRIBUTES.length} specific attributes for each:
 
-    if (companies.length === 0) return null;
+${movies}
 
-    // Use the first production company
-    const primaryCompany = companies[0];
+Please provide the following analyses for every movie:
 
-    // Get all movies from this company, ordered by release date
-    const allMovies = await this.db.getMovies();
-    const companyMovies = allMovies.filter(m => {
-      try {
-        const mCompanies = JSON.parse(m.productionCompanies || '[]');
-        return mCompanies.some((c: any) => c.name === primaryCompany);
-      } catch {
-        return false;
-      }
-    })
-    .filter(m => m.releaseDate && m.releaseDate < movie.releaseDate)
-    .sort((a, b) => a.releaseDate.localeCompare(b.releaseDate));
+${this.attributeSections()}
 
-    // Take last 5-10 movies before this one
-    const previousMovies = companyMovies.slice(-10);
+Respond ONLY with valid JSON in this exact format (no markdown, no extra text), with exactly one entry per movie ID:
+{
+  "movies": [
+    {
+      "movieId": ${inputs[0].movie.movieId},
+${this.attributeFormat('      ')}
+    }
+  ]
+}`;
 
-    if (previousMovies.length === 0) return null;
+    return this.llm.completeStructured('enrichmentBatch', [
+      {
+        role: 'system',
+        content: ENRICHMENT_SYSTEM_PROMPT
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], batchEnrichmentSchema(inputs.map(input => input.movie.movieId)));
+  }
 
-    // Calculate average ROI
-    let totalROI = 0;
-    let validCount = 0;
+  /**
+   * Movie facts and rating statistics as prompt lines
+   */
+  private describeMovie({ movie, avgRating, ratingCount }: EnrichmentInput): string {
+    return `- Title: ${movie.title}
+- Overview: ${movie.overview}
+- Runtime: ${movie.runtime} minutes
+- Budget: $${movie.budget.toLocaleString()}
+- Revenue: $${movie.revenue.toLocaleString()}
+- Release Date: ${movie.releaseDate}
+- Genres: ${movie.genres}
+- Average Rating: ${avgRating.toFixed(2)}/5.0
+- Number of Ratings: ${ratingCount}`;
+  }
 
-    for (const m of previousMovies) {
-      if (m.budget > 0 && m.revenue > 0) {
-        const roi = ((m.revenue - m.budget) / m.budget) * 100;
-        totalROI += roi;
-        validCount++;
-      }
-    }
+  /**
+   * Numbered instructions for every LLM attribute in the registry
+   */
+  private attributeSections(): string {
+    return LLM_ATTRIBUTES
+      .map((attribute, i) => `${i + 1}. **${attribute.label}** (${this.describeType(attribute)})\n${this.indent(attribute.promptFragment)}`)
+      .join('\n\n');
+  }
 
-    return validCount > 0 ? totalROI / validCount : null;
+  /**
+   * JSON fields of the response format, one per LLM attribute
+   */
+  private attributeFormat(indent: string): string {
+    return LLM_ATTRIBUTES
+      .map(attribute => `${indent}"${attribute.name}": ${this.formatExample(attribute)}`)
+      .join(',\n');
   }
 
   /**
-   * Calculate Production Effectiveness Score
-   * Combines rating, budget efficiency, and revenue performance
+   * Heading hint for an attribute, e.g. "Category: High/Medium/Low"
    */
-  private calculateProductionEffectiveness(movie: Movie, avgRating: number): number {
-    // Normalize components to 0-100 scale
-    const ratingScore = (avgRating / 5.0) * 100; // Rating out of 5
-
-    // ROI score (capped at reasonable values)
-    let roiScore = 0;
-    if (movie.budget > 0 && movie.revenue > 0) {
-      const roi = ((movie.revenue - movie.budget) / movie.budget) * 100;
-      roiScore = Math.min(100, Math.max(0, (roi + 50) / 2)); // Normalize around 0-100
+  private describeType(attribute: LLMAttribute): string {
+    switch (attribute.type) {
+      case 'category':
+        return `Category: ${attribute.allowedValues?.join('/')}`;
+      case 'number':
+        return `Numeric score ${attribute.min ?? ''}-${attribute.max ?? ''}`;
+      case 'tags':
+        return `Up to ${attribute.maxItems ?? attribute.allowedValues?.length} categories from: ${attribute.allowedValues?.join(', ')}`;
     }
+  }
 
-    // Revenue tier score (log scale for fairness)
-    let revenueScore = 0;
-    if (movie.revenue > 0) {
-      revenueScore = Math.min(100, (Math.log10(movie.revenue) / 9) * 100); // 10^9 = 1B
+  /**
+   * Placeholder value shown for an attribute in the JSON format example
+   */
+  private formatExample(attribute: LLMAttribute): string {
+    switch (attribute.type) {
+      case 'category':
+        return `"${attribute.allowedValues?.join('|')}"`;
+      case 'number':
+        return `${attribute.min ?? 0}-${attribute.max ?? 100}`;
+      case 'tags':
+        return '"category1, category2"';
     }
+  }
 
-    // Weighted average
-    const weights = {
-      rating: 0.4,
-      roi: 0.35,
-      revenue: 0.25
-    };
+  /**
+   * Company index loaded once and shared by the movies of a run
+   */
+  private getCompanyIndex(): Promise<CompanyRoiIndex> {
+    if (!this.companyIndex) {
+      this.companyIndex = this.initialize().then(() => CompanyRoiIndex.load(this.db));
 
-    return Number((
-      ratingScore * weights.rating +
-      roiScore * weights.roi +
-      revenueScore * weights.revenue
-    ).toFixed(2));
+      this.companyIndex.catch(() => {
+        this.companyIndex = undefined;
+      });
+    }
+    return this.companyIndex;
+  }
+
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        this.db.initializeEnrichmentTable(),
+        this.db.initializeJobTables(),
+        this.db.initializeCompanyTables(),
+        this.db.initializeRatingStatsTable()
+      ]).then(() => undefined);
+
+      this.ready.catch(() => {
+        this.ready = undefined;
+      });
+    }
+    return this.ready;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private indent(fragment: string): string {
+    return fragment.split('\n').map(line => `   ${line}`).join('\n');
   }
 }
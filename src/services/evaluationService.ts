@@ -0,0 +1,320 @@
+import Database from '../config/database';
+import { LLMClient } from '../llm/llmClient';
+import { Rating } from '../models/rating';
+import {
+  EvaluationMetrics,
+  EvaluationOptions,
+  EvaluationReport,
+  StrategyReport
+} from '../models/evaluation';
+import { CollaborativeFilteringService, trainItemItemModel } from './collaborativeFilteringService';
+import { RecommendationService } from './recommendationService';
+import { logger } from '../config/logger';
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  k: 10,
+  users: 50,
+  holdoutFraction: 0.2,
+  minRatings: 20,
+  relevanceThreshold: 4.0,
+  strategies: ['popularity', 'cf', 'llm']
+};
+
+interface UserSplit {
+  userId: number;
+  train: Rating[];
+  test: Rating[];
+}
+
+/**
+ * A way of producing a top-k list from a user's training ratings
+ */
+export interface RecommendationStrategy {
+  name: string;
+  recommend(userId: number, trainRatings: Rating[], k: number): Promise<number[]>;
+}
+
+/**
+ * Baseline: the most-rated movies the user hasn't seen
+ */
+export class PopularityStrategy implements RecommendationStrategy {
+  readonly name = 'popularity';
+  private ranked: number[];
+
+  constructor(trainingRatings: Rating[]) {
+    const counts = new Map<number, number>();
+    for (const r of trainingRatings) {
+      counts.set(r.movieId, (counts.get(r.movieId) || 0) + 1);
+    }
+    this.ranked = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([movieId]) => movieId);
+  }
+
+  async recommend(userId: number, trainRatings: Rating[], k: number): Promise<number[]> {
+    const seen = new Set(trainRatings.map(r => r.movieId));
+    const result: number[] = [];
+
+    for (const movieId of this.ranked) {
+      if (result.length >= k) break;
+      if (!seen.has(movieId)) result.push(movieId);
+    }
+    return result;
+  }
+}
+
+/**
+ * Item-item collaborative filtering alone, without LLM re-ranking
+ */
+export class CollaborativeFilteringStrategy implements RecommendationStrategy {
+  readonly name = 'cf';
+  private cf: CollaborativeFilteringService;
+
+  constructor(cf: CollaborativeFilteringService) {
+    this.cf = cf;
+  }
+
+  async recommend(userId: number, trainRatings: Rating[], k: number): Promise<number[]> {
+    return this.cf.recommend(trainRatings, k).map(c => c.movieId);
+  }
+}
+
+/**
+ * The production pipeline: CF candidates re-ranked by the LLM
+ */
+export class LLMRankerStrategy implements RecommendationStrategy {
+  readonly name = 'llm';
+  private recommendationService: RecommendationService;
+
+  constructor(recommendationService: RecommendationService) {
+    this.recommendationService = recommendationService;
+  }
+
+  async recommend(userId: number, trainRatings: Rating[], k: number): Promise<number[]> {
+    const preferences = await this.recommendationService.analyzePreferencesFromRatings(userId, trainRatings);
+    const recommendations = await this.recommendationService.recommendFromRatings(userId, trainRatings, preferences, k);
+    return recommendations.map(r => r.movie.movieId);
+  }
+}
+
+export class EvaluationService {
+  private db: Database;
+  private llm: LLMClient;
+
+  constructor(db: Database, llm: LLMClient) {
+    this.db = db;
+    this.llm = llm;
+  }
+
+  /**
+   * Run every requested strategy over the same time-based holdout split and
+   * score the lists against each user's held-out ratings
+   */
+  async evaluate(options: Partial<EvaluationOptions> = {}): Promise<EvaluationReport> {
+    const opts = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+
+    const ratings = await this.db.getAllRatings();
+    const splits = this.splitByTime(ratings, opts);
+    logger.info('Evaluating recommendation strategies', { users: splits.length, k: opts.k, holdout: opts.holdoutFraction });
+
+    // Anything held out for an evaluated user must be invisible to training
+    const heldOut = new Set(splits.flatMap(s => s.test.map(r => r.ratingId)));
+    const trainingRatings = ratings.filter(r => !heldOut.has(r.ratingId));
+    const catalogSize = new Set(trainingRatings.map(r => r.movieId)).size;
+
+    const strategies = this.buildStrategies(opts.strategies, trainingRatings);
+    const results: StrategyReport[] = [];
+
+    for (const strategy of strategies) {
+      logger.info('Running strategy', { strategy: strategy.name });
+      results.push(await this.runStrategy(strategy, splits, opts, catalogSize));
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      options: opts,
+      catalogSize,
+      results,
+      caveats: this.caveats(opts)
+    };
+  }
+
+  /**
+   * Hold out each user's most recent ratings. Users are sampled evenly across
+   * the user id range so runs are reproducible.
+   */
+  splitByTime(ratings: Rating[], options: EvaluationOptions): UserSplit[] {
+    const byUser = new Map<number, Rating[]>();
+    for (const r of ratings) {
+      if (!byUser.has(r.userId)) byUser.set(r.userId, []);
+      byUser.get(r.userId)!.push(r);
+    }
+
+    const eligible = Array.from(byUser.keys())
+      .filter(userId => byUser.get(userId)!.length >= options.minRatings)
+      .sort((a, b) => a - b);
+
+    const step = Math.max(1, eligible.length / options.users);
+    const sampled: number[] = [];
+    for (let i = 0; i < eligible.length && sampled.length < options.users; i += step) {
+      sampled.push(eligible[Math.floor(i)]);
+    }
+
+    return sampled.map(userId => {
+      const userRatings = byUser.get(userId)!.sort((a, b) => a.timestamp - b.timestamp);
+      const cut = Math.max(1, Math.round(userRatings.length * (1 - options.holdoutFraction)));
+      return {
+        userId,
+        train: userRatings.slice(0, cut),
+        test: userRatings.slice(cut)
+      };
+    });
+  }
+
+  /**
+   * Render a report as a Markdown table
+   */
+  toMarkdown(report: EvaluationReport): string {
+    const { options } = report;
+    const k = options.k;
+    const rows = report.results.map(r =>
+      `| ${r.strategy} | ${r.metrics.precisionAtK.toFixed(4)} | ${r.metrics.recallAtK.toFixed(4)} | ` +
+      `${r.metrics.ndcgAtK.toFixed(4)} | ${r.metrics.hitRate.toFixed(4)} | ${r.metrics.coverage.toFixed(4)} | ` +
+      `${r.usersEvaluated} | ${r.failures} | ${(r.durationMs / 1000).toFixed(1)}s |`
+    );
+
+    return `# Recommendation Evaluation
+
+Generated: ${report.generatedAt}
+
+- Users sampled: ${options.users} (min ${options.minRatings} ratings each)
+- Holdout: most recent ${(options.holdoutFraction * 100).toFixed(0)}% of each user's ratings
+- Relevant: held-out ratings >= ${options.relevanceThreshold}
+- Catalog size (movies in training data): ${report.catalogSize}
+
+| Strategy | Precision@${k} | Recall@${k} | NDCG@${k} | Hit rate | Coverage | Users | Failures | Time |
+|---|---|---|---|---|---|---|---|---|
+${rows.join('\n')}
+${report.caveats.length > 0 ? `\n## Caveats\n\n${report.caveats.map(c => `- ${c}`).join('\n')}\n` : ''}`;
+  }
+
+  /**
+   * Held-out data a strategy can still see. Enrichment is stored once for
+   * the whole catalog, so the LLM ranker's enriched attributes come from
+   * every rating rather than the training split.
+   */
+  private caveats(options: EvaluationOptions): string[] {
+    if (!options.strategies.includes('llm')) return [];
+    return [
+      'The llm strategy ranks with stored enrichment attributes (such as the popularity/quality index) ' +
+      "computed from each movie's rating average and count over all ratings, held-out ones included, " +
+      'so its scores are optimistic next to popularity and cf.'
+    ];
+  }
+
+  private buildStrategies(names: string[], trainingRatings: Rating[]): RecommendationStrategy[] {
+    let cf: CollaborativeFilteringService | null = null;
+    const getCF = () => {
+      if (!cf) {
+        logger.info('Training collaborative filtering model on the training split');
+        cf = new CollaborativeFilteringService(trainItemItemModel(trainingRatings));
+      }
+      return cf;
+    };
+
+    return names.map(name => {
+      switch (name) {
+        case 'popularity':
+          return new PopularityStrategy(trainingRatings);
+        case 'cf':
+          return new CollaborativeFilteringStrategy(getCF());
+        case 'llm':
+          return new LLMRankerStrategy(new RecommendationService(this.db, this.llm, getCF()));
+        default:
+          throw new Error(`Unknown strategy '${name}' (expected popularity, cf or llm)`);
+      }
+    });
+  }
+
+  private async runStrategy(
+    strategy: RecommendationStrategy,
+    splits: UserSplit[],
+    options: EvaluationOptions,
+    catalogSize: number
+  ): Promise<StrategyReport> {
+    const started = Date.now();
+    const totals = { precision: 0, recall: 0, ndcg: 0, hits: 0 };
+    const recommendedItems = new Set<number>();
+    let usersEvaluated = 0;
+    let failures = 0;
+
+    for (const split of splits) {
+      const relevant = new Set(
+        split.test.filter(r => r.rating >= options.relevanceThreshold).map(r => r.movieId)
+      );
+      // Users with nothing relevant held out can't score a hit either way
+      if (relevant.size === 0) continue;
+
+      let recommended: number[];
+      try {
+        recommended = (await strategy.recommend(split.userId, split.train, options.k)).slice(0, options.k);
+      } catch (error: any) {
+        logger.warn('Strategy failed for user', { strategy: strategy.name, userId: split.userId, error: error.message });
+        failures++;
+        continue;
+      }
+
+      recommended.forEach(id => recommendedItems.add(id));
+      const metrics = this.scoreList(recommended, relevant, options.k);
+
+      totals.precision += metrics.precision;
+      totals.recall += metrics.recall;
+      totals.ndcg += metrics.ndcg;
+      totals.hits += metrics.hit ? 1 : 0;
+      usersEvaluated++;
+    }
+
+    const average = (total: number) => usersEvaluated > 0 ? Number((total / usersEvaluated).toFixed(4)) : 0;
+    const metrics: EvaluationMetrics = {
+      precisionAtK: average(totals.precision),
+      recallAtK: average(totals.recall),
+      ndcgAtK: average(totals.ndcg),
+      hitRate: average(totals.hits),
+      coverage: catalogSize > 0 ? Number((recommendedItems.size / catalogSize).toFixed(4)) : 0
+    };
+
+    logger.info('Strategy evaluated', { strategy: strategy.name, ...metrics });
+
+    return {
+      strategy: strategy.name,
+      metrics,
+      usersEvaluated,
+      failures,
+      durationMs: Date.now() - started
+    };
+  }
+
+  private scoreList(recommended: number[], relevant: Set<number>, k: number) {
+    let hits = 0;
+    let dcg = 0;
+
+    recommended.forEach((movieId, i) => {
+      if (relevant.has(movieId)) {
+        hits++;
+        dcg += 1 / Math.log2(i + 2);
+      }
+    });
+
+    let idcg = 0;
+    for (let i = 0; i < Math.min(relevant.size, k); i++) {
+      idcg += 1 / Math.log2(i + 2);
+    }
+
+    return {
+      precision: hits / k,
+      recall: hits / relevant.size,
+      ndcg: idcg > 0 ? dcg / idcg : 0,
+      hit: hits > 0
+    };
+  }
+}
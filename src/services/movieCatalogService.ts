@@ -0,0 +1,66 @@
+import Database from '../config/database';
+import { MovieDetails, MovieListItem, MovieListQuery } from '../models/movieCatalog';
+import { parseGenres } from '../utils/movieFields';
+import { ratingStats } from '../utils/ratingStats';
+import { toFtsQuery } from '../utils/ftsQuery';
+
+/**
+ * Browsing and keyword search over the whole movie catalog, enriched or not
+ */
+export class MovieCatalogService {
+  private db: Database;
+  private ready?: Promise<void>;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * A page of movies; `search` is free text, matched word by word against
+   * titles and overviews
+   */
+  async listMovies(query: MovieListQuery): Promise<{ movies: MovieListItem[]; total: number }> {
+    await this.initialize();
+
+    if (query.search !== undefined) {
+      const search = toFtsQuery(query.search);
+      if (search === null) return { movies: [], total: 0 };
+      return this.db.searchMovies({ ...query, search });
+    }
+    return this.db.searchMovies(query);
+  }
+
+  async getMovieDetails(movieId: number): Promise<MovieDetails | null> {
+    await this.initialize();
+
+    const movie = await this.db.getMovieById(movieId);
+    if (!movie) return null;
+
+    const [ratingCounts, enrichment] = await Promise.all([
+      this.db.getRatingCountsByValue([movieId]),
+      this.db.getEnrichment(movieId)
+    ]);
+
+    return {
+      movie,
+      genres: parseGenres(movie),
+      ratingStats: ratingStats(new Map(ratingCounts.map(r => [r.rating, r.count]))),
+      enrichment
+    };
+  }
+
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        this.db.initializeMovieSearchIndex(),
+        this.db.initializeEnrichmentTable(),
+        this.db.initializeRatingStatsTable()
+      ]).then(() => undefined);
+
+      this.ready.catch(() => {
+        this.ready = undefined;
+      });
+    }
+    return this.ready;
+  }
+}
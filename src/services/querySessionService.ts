@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import Database from '../config/database';
+import { LLMClient } from '../llm/llmClient';
+import { ChatMessage } from '../llm/llmProvider';
+import { sessionSummarySchema } from '../llm/schemas';
+import { QueryResult } from '../models/queryResult';
+import { QuerySession, QuerySessionMessage, ResolvedMovieReference } from '../models/querySession';
+import { RecommendationService } from './recommendationService';
+import { resolveMovieReferences } from '../utils/movieReferences';
+import { logger } from '../config/logger';
+
+export interface QuerySessionOptions {
+  // Unsummarized messages that trigger summarization
+  summarizeAfter: number;
+  // Most recent messages kept verbatim when the rest are summarized
+  keepRecent: number;
+}
+
+const DEFAULT_QUERY_SESSION_OPTIONS: QuerySessionOptions = {
+  summarizeAfter: 12,
+  keepRecent: 4
+};
+
+export interface QuerySessionAnswer {
+  session: QuerySession;
+  result: QueryResult;
+  references: ResolvedMovieReference[];
+}
+
+/**
+ * Multi-turn conversations over the natural language query interface.
+ * Messages are stored per session; once enough accumulate, the older ones
+ * are folded into a running summary so prompts stay bounded.
+ */
+export class QuerySessionService {
+  private db: Database;
+  private llm: LLMClient;
+  private recommendationService: RecommendationService;
+  private options: QuerySessionOptions;
+
+  constructor(
+    db: Database,
+    llm: LLMClient,
+    recommendationService: RecommendationService,
+    options: Partial<QuerySessionOptions> = {}
+  ) {
+    this.db = db;
+    this.llm = llm;
+    this.recommendationService = recommendationService;
+    this.options = { ...DEFAULT_QUERY_SESSION_OPTIONS, ...options };
+  }
+
+  /**
+   * Start a session, optionally bound to a user whose profile is loaded
+   * now and reused for every message
+   */
+  async createSession(userId?: number): Promise<QuerySession> {
+    await this.db.initializeQuerySessionTables();
+
+    const preferences = userId !== undefined
+      ? await this.recommendationService.analyzeUserPreferences(userId)
+      : null;
+
+    const now = new Date().toISOString();
+    const session: QuerySession = {
+      id: crypto.randomUUID(),
+      userId: userId ?? null,
+      preferences,
+      summary: null,
+      summarizedThroughId: null,
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.db.createQuerySession(session);
+    logger.info('Created query session', { sessionId: session.id, userId });
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<QuerySession | null> {
+    await this.db.initializeQuerySessionTables();
+    return this.db.getQuerySession(sessionId);
+  }
+
+  async listSessions(userId?: number): Promise<QuerySession[]> {
+    await this.db.initializeQuerySessionTables();
+    return this.db.getQuerySessions(userId);
+  }
+
+  async getMessages(sessionId: string): Promise<QuerySessionMessage[]> {
+    await this.db.initializeQuerySessionTables();
+    return this.db.getQuerySessionMessages(sessionId);
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    await this.db.initializeQuerySessionTables();
+    return this.db.deleteQuerySession(sessionId);
+  }
+
+  /**
+   * Answer a message in the context of the session's earlier turns
+   */
+  async ask(session: QuerySession, query: string): Promise<QuerySessionAnswer> {
+    const messages = await this.db.getQuerySessionMessages(session.id);
+    const references = resolveMovieReferences(query, messages);
+
+    const recent = messages.filter(m => session.summarizedThroughId === null || m.id > session.summarizedThroughId);
+    const result = await this.recommendationService.naturalLanguageQuery(query, undefined, {
+      summary: session.summary,
+      history: recent.map(m => this.toChatMessage(m)),
+      references,
+      preferences: session.preferences
+    });
+
+    const now = new Date().toISOString();
+    await this.db.addQuerySessionMessage({ sessionId: session.id, role: 'user', content: query, movies: [], createdAt: now });
+    await this.db.addQuerySessionMessage({
+      sessionId: session.id,
+      role: 'assistant',
+      content: result.answer,
+      movies: result.movies.map(m => ({ movieId: m.movieId, title: m.title })),
+      createdAt: now
+    });
+
+    // A failed summary only means a longer prompt next time
+    try {
+      await this.summarizeIfNeeded(session);
+    } catch (error) {
+      logger.error('Failed to summarize query session', { sessionId: session.id, error });
+    }
+
+    return { session: (await this.db.getQuerySession(session.id))!, result, references };
+  }
+
+  /**
+   * Fold all but the most recent messages into the session summary once
+   * too many unsummarized messages have built up
+   */
+  private async summarizeIfNeeded(session: QuerySession): Promise<void> {
+    const current = (await this.db.getQuerySession(session.id))!;
+    const messages = await this.db.getQuerySessionMessages(session.id);
+    const unsummarized = messages.filter(m => current.summarizedThroughId === null || m.id > current.summarizedThroughId);
+
+    if (unsummarized.length <= this.options.summarizeAfter) return;
+
+    const toSummarize = unsummarized.slice(0, unsummarized.length - this.options.keepRecent);
+    const transcript = toSummarize
+      .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${this.toChatMessage(m).content}`)
+      .join('\n\n');
+
+    const prompt = `Summarize this conversation between a user and a movie database assistant so it can continue without the full transcript.
+${current.summary ? `\nSummary of the conversation before this part:\n${current.summary}\n` : ''}
+Conversation:
+${transcript}
+
+Keep the user's constraints and preferences, the questions asked, and every movie discussed with its movieId, in the order the assistant listed them. Write at most 200 words.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "summary": "Summary of the conversation so far"
+}`;
+
+    const { value } = await this.llm.completeStructured('sessionSummary', [
+      {
+        role: 'system',
+        content: 'You summarize conversations accurately and concisely. Always respond with valid JSON only.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], sessionSummarySchema);
+
+    const throughId = toSummarize[toSummarize.length - 1].id;
+    await this.db.updateQuerySessionSummary(session.id, value.summary, throughId);
+    logger.info('Summarized query session', { sessionId: session.id, messages: toSummarize.length, throughId });
+  }
+
+  /**
+   * Stored message as a chat turn; answers list their movies numbered so
+   * the model can follow ordinal references too
+   */
+  private toChatMessage(message: QuerySessionMessage): ChatMessage {
+    if (message.role === 'user' || message.movies.length === 0) {
+      return { role: message.role, content: message.content };
+    }
+
+    const movies = message.movies.map((m, i) => `${i + 1}. ${m.title} (movieId ${m.movieId})`).join('\n');
+    return { role: 'assistant', content: `${message.content}\n\nMovies cited:\n${movies}` };
+  }
+}
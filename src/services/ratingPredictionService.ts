@@ -0,0 +1,177 @@
+import Database from '../config/database';
+import { LLMClient } from '../llm/llmClient';
+import { ratingPredictionsSchema } from '../llm/schemas';
+import { Movie } from '../models/movie';
+import { Rating } from '../models/rating';
+import { RatingExample, RatingPrediction } from '../models/ratingPrediction';
+import { CollaborativeFilteringService } from './collaborativeFilteringService';
+import { parseGenres } from '../utils/movieFields';
+import { logger } from '../config/logger';
+
+type RatedMovie = Movie & { rating: number };
+
+export class RatingPredictionService {
+  private db: Database;
+  private llm: LLMClient;
+  private cf: CollaborativeFilteringService;
+
+  // Few-shot examples shown per target movie
+  private static EXAMPLES_PER_MOVIE = 8;
+  // Target movies scored per LLM call in batch mode
+  private static BATCH_SIZE = 10;
+
+  constructor(db: Database, llm: LLMClient, cf: CollaborativeFilteringService) {
+    this.db = db;
+    this.llm = llm;
+    this.cf = cf;
+  }
+
+  /**
+   * Predict how a user would rate a single movie
+   */
+  async predictRating(userId: number, movieId: number): Promise<RatingPrediction> {
+    const [prediction] = await this.predictRatings(userId, [movieId]);
+    return prediction;
+  }
+
+  /**
+   * Predict how a user would rate each of the given movies, using the
+   * user's ratings of the most similar movies as few-shot examples
+   */
+  async predictRatings(userId: number, movieIds: number[]): Promise<RatingPrediction[]> {
+    logger.info('Predicting ratings', { userId, movies: movieIds.length });
+
+    const ratings = await this.db.getRatingsByUserId(userId);
+    if (ratings.length === 0) {
+      throw new Error(`User ${userId} has no ratings`);
+    }
+
+    const uniqueIds = Array.from(new Set(movieIds));
+    const targets = await this.db.getMoviesByIds(uniqueIds);
+    const missing = uniqueIds.filter(id => !targets.some(m => m.movieId === id));
+    if (missing.length > 0) {
+      throw new Error(`Movies not found: ${missing.join(', ')}`);
+    }
+
+    const ratedMovies = await this.getRatedMovies(ratings);
+    const predictions: RatingPrediction[] = [];
+
+    for (let i = 0; i < targets.length; i += RatingPredictionService.BATCH_SIZE) {
+      const batch = targets.slice(i, i + RatingPredictionService.BATCH_SIZE);
+      predictions.push(...await this.predictBatch(userId, ratings, ratedMovies, batch));
+    }
+
+    // Preserve the order the caller asked for
+    return uniqueIds.map(id => predictions.find(p => p.movieId === id)!);
+  }
+
+  private async predictBatch(
+    userId: number,
+    ratings: Rating[],
+    ratedMovies: RatedMovie[],
+    targets: Movie[]
+  ): Promise<RatingPrediction[]> {
+    const avgRating = ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length;
+    const examplesByMovie = new Map<number, (RatedMovie & { similarity: number })[]>();
+
+    const targetSections = targets.map((target, i) => {
+      const examples = this.selectExamples(target, ratedMovies);
+      examplesByMovie.set(target.movieId, examples);
+
+      const cfEstimate = this.cf.predict(ratings, target.movieId);
+
+      return `Target ${i + 1}:
+${JSON.stringify({
+  movieId: target.movieId,
+  title: target.title,
+  genres: parseGenres(target).join(', '),
+  overview: target.overview?.substring(0, 200),
+  releaseDate: target.releaseDate,
+  runtime: target.runtime
+}, null, 2)}
+${cfEstimate ? `Collaborative filtering estimate: ${cfEstimate.predictedRating.toFixed(1)} (from ${cfEstimate.support} similar movies this user rated)\n` : ''}How this user rated the most similar movies they have seen:
+${examples.map(e => `- "${e.title}" (${parseGenres(e).join(', ')}): rated ${e.rating} [similarity ${e.similarity.toFixed(2)}]`).join('\n')}`;
+    });
+
+    const prompt = `Predict how this user would rate each target movie on a 0.5-5.0 scale in half-star steps.
+
+User ${userId} has rated ${ratings.length} movies with an average rating of ${avgRating.toFixed(2)}/5.0.
+
+${targetSections.join('\n\n')}
+
+Base each prediction mainly on how the user rated the similar example movies, adjusted for differences in genre, tone and quality.
+Confidence (0-1) should be high when the examples are very similar and consistently rated, and low when they are weakly related or mixed.
+
+Respond ONLY with valid JSON in this exact format, with one entry per target movie:
+{
+  "predictions": [
+    {
+      "movieId": 123,
+      "predictedRating": 3.5,
+      "confidence": 0.7,
+      "reasoning": "Brief explanation referencing the example ratings"
+    }
+  ]
+}`;
+
+    const { value } = await this.llm.completeStructured('ratingPrediction', [
+      {
+        role: 'system',
+        content: 'You are an expert at predicting how individual users will rate movies from their rating history. Always respond with valid JSON only.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], ratingPredictionsSchema(targets.map(t => t.movieId)));
+
+    return targets.map(target => {
+      const output = value.find(p => p.movieId === target.movieId)!;
+      const examples: RatingExample[] = examplesByMovie.get(target.movieId)!.map(e => ({
+        movieId: e.movieId,
+        title: e.title,
+        rating: e.rating,
+        similarity: Number(e.similarity.toFixed(4))
+      }));
+
+      return {
+        userId,
+        movieId: target.movieId,
+        title: target.title,
+        predictedRating: output.predictedRating,
+        confidence: output.confidence,
+        reasoning: output.reasoning,
+        examples
+      };
+    });
+  }
+
+  /**
+   * Rank the user's rated movies by similarity to the target: CF item
+   * similarity when the model knows both movies, plus genre overlap
+   */
+  private selectExamples(target: Movie, ratedMovies: RatedMovie[]): (RatedMovie & { similarity: number })[] {
+    const targetGenres = new Set(parseGenres(target));
+
+    return ratedMovies
+      .filter(m => m.movieId !== target.movieId)
+      .map(m => {
+        const genres = parseGenres(m);
+        const shared = genres.filter(g => targetGenres.has(g)).length;
+        const union = new Set([...genres, ...targetGenres]).size;
+        const genreSimilarity = union > 0 ? shared / union : 0;
+        const cfSimilarity = this.cf.similarity(target.movieId, m.movieId) || 0;
+
+        return { ...m, similarity: cfSimilarity + 0.5 * genreSimilarity };
+      })
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, RatingPredictionService.EXAMPLES_PER_MOVIE);
+  }
+
+  private async getRatedMovies(ratings: Rating[]): Promise<RatedMovie[]> {
+    const movies = await this.db.getMoviesByIds(ratings.map(r => r.movieId));
+    const ratingByMovie = new Map(ratings.map(r => [r.movieId, r.rating]));
+
+    return movies.map(m => ({ ...m, rating: ratingByMovie.get(m.movieId)! }));
+  }
+}
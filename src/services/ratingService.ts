@@ -0,0 +1,92 @@
+import Database from '../config/database';
+import { Rating } from '../models/rating';
+import { RatingInput } from '../utils/ratingInput';
+import { logger } from '../config/logger';
+
+/**
+ * Writes to the ratings database. Every change invalidates what was
+ * derived from the old ratings: the users' stored preference profiles are
+ * dropped (rebuilt on next use) and the movies' enrichments are flagged so
+ * the next outdated-only enrichment run refreshes their rating statistics.
+ */
+export class RatingService {
+  private db: Database;
+  private ready?: Promise<void>;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getUserRatings(userId: number): Promise<Rating[]> {
+    return this.db.getRatingsByUserId(userId);
+  }
+
+  async getRating(userId: number, movieId: number): Promise<Rating | null> {
+    await this.initialize();
+    return this.db.getRating(userId, movieId);
+  }
+
+  async createRating(input: RatingInput): Promise<Rating> {
+    await this.initialize();
+    const rating = await this.db.createRating(input);
+    await this.invalidateDerivedData([input.userId], [input.movieId]);
+    logger.info('Created rating', { userId: input.userId, movieId: input.movieId, rating: input.rating });
+    return rating;
+  }
+
+  /**
+   * Replace an existing rating; null if the user hadn't rated the movie
+   */
+  async updateRating(input: RatingInput): Promise<Rating | null> {
+    await this.initialize();
+    if (!(await this.db.updateRating(input))) return null;
+
+    await this.invalidateDerivedData([input.userId], [input.movieId]);
+    logger.info('Updated rating', { userId: input.userId, movieId: input.movieId, rating: input.rating });
+    return this.db.getRating(input.userId, input.movieId);
+  }
+
+  async deleteRating(userId: number, movieId: number): Promise<boolean> {
+    await this.initialize();
+    if (!(await this.db.deleteRating(userId, movieId))) return false;
+
+    await this.invalidateDerivedData([userId], [movieId]);
+    logger.info('Deleted rating', { userId, movieId });
+    return true;
+  }
+
+  /**
+   * Create or replace ratings in bulk; all or nothing
+   */
+  async importRatings(inputs: RatingInput[]): Promise<{ created: number; updated: number }> {
+    await this.initialize();
+    const result = await this.db.importRatings(inputs);
+
+    await this.invalidateDerivedData(
+      Array.from(new Set(inputs.map(r => r.userId))),
+      Array.from(new Set(inputs.map(r => r.movieId)))
+    );
+    logger.info('Imported ratings', { ratings: inputs.length, ...result });
+    return result;
+  }
+
+  private async invalidateDerivedData(userIds: number[], movieIds: number[]): Promise<void> {
+    await this.db.invalidateUserProfiles(userIds);
+    await this.db.markEnrichmentRatingsChanged(movieIds, new Date().toISOString());
+  }
+
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        this.db.initializeRatingIndexes(),
+        this.db.initializeUserProfileTables(),
+        this.db.initializeEnrichmentTable()
+      ]).then(() => undefined);
+
+      this.ready.catch(() => {
+        this.ready = undefined;
+      });
+    }
+    return this.ready;
+  }
+}
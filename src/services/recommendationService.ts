@@ -1,35 +1,198 @@
-import openai from '../config/openai';
 import Database from '../config/database';
+import { LLMClient } from '../llm/llmClient';
+import { ChatMessage } from '../llm/llmProvider';
 import { UserPreferences } from '../models/userPreferences';
+import { UserProfile } from '../models/userProfile';
+import { Movie } from '../models/movie';
+import { MovieEnrichment } from '../models/movieEnrichment';
+import { Rating } from '../models/rating';
 import { Recommendation } from '../models/recommendation';
+import { QueryResult } from '../models/queryResult';
+import { MovieComparison } from '../models/movieComparison';
+import { ParsedRecommendationFilters, RecommendationFilters } from '../models/recommendationFilters';
+import { ResolvedMovieReference } from '../models/querySession';
+import {
+  BUDGET_PREFERENCES,
+  RecommendationOutput,
+  comparisonItemSchema,
+  comparisonSchema,
+  filterParseSchema,
+  preferencesSchema,
+  queryMovieItemSchema,
+  querySchema,
+  recommendationItemSchema,
+  recommendationsSchema
+} from '../llm/schemas';
+import { streamArrayItems } from '../llm/jsonItemStream';
+import {
+  AWARD_POTENTIAL_LEVELS,
+  EMOTIONAL_GENRES,
+  FINANCIAL_TIERS,
+  pickAttributes
+} from '../config/enrichmentAttributes';
+import { describeRecommendationFilters, hasFilters } from '../utils/recommendationFilters';
+import { CollaborativeFilteringService } from './collaborativeFilteringService';
+import { ComparisonMatrixService } from './comparisonMatrixService';
+import { emitEvent, isStreaming, reportProgress } from '../config/requestContext';
+import { logger } from '../config/logger';
+
+type Candidate = Movie & Partial<MovieEnrichment> & { cfScore: number | null };
+
+export interface RecommendationOptions {
+  // Share of the final score taken from collaborative filtering (the rest is the LLM's)
+  cfWeight: number;
+  // Number of CF candidates handed to the LLM for re-ranking
+  cfCandidates: number;
+}
+
+const DEFAULT_RECOMMENDATION_OPTIONS: RecommendationOptions = {
+  cfWeight: 0.6,
+  cfCandidates: 30
+};
+
+/**
+ * Earlier turns of a query session, for answering follow-up questions
+ */
+export interface QueryConversation {
+  // Condensed form of the turns no longer sent verbatim
+  summary: string | null;
+  // Recent turns, oldest first
+  history: ChatMessage[];
+  // Movies the new question refers to; always included in the movie data
+  references: ResolvedMovieReference[];
+  // Profile loaded when the session was created
+  preferences: UserPreferences | null;
+}
+
+// How many ratings of each kind go into the preference prompt
+const PROFILE_SAMPLE = {
+  topRated: 8,
+  lowestRated: 6,
+  recent: 6
+};
+
+/**
+ * Pick a representative sample of a user's full rating history: their
+ * favorites, their least favorites and what they rated most recently.
+ * Each rating appears in at most one group.
+ */
+const sampleRatings = (ratings: Rating[]): { topRated: Rating[]; lowestRated: Rating[]; recent: Rating[] } => {
+  // Ties are broken by recency
+  const byRating = [...ratings].sort((a, b) => b.rating - a.rating || b.timestamp - a.timestamp);
+  const topRated = byRating.slice(0, PROFILE_SAMPLE.topRated);
+  const used = new Set(topRated.map(r => r.movieId));
+
+  const lowestRated = byRating
+    .slice()
+    .reverse()
+    .filter(r => !used.has(r.movieId))
+    .slice(0, PROFILE_SAMPLE.lowestRated);
+  lowestRated.forEach(r => used.add(r.movieId));
+
+  const recent = [...ratings]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(r => !used.has(r.movieId))
+    .slice(0, PROFILE_SAMPLE.recent);
+
+  return { topRated, lowestRated, recent };
+};
 
 export class RecommendationService {
   private db: Database;
-
-  constructor(db: Database) {
+  private llm: LLMClient;
+  private cf: CollaborativeFilteringService;
+  private comparisonMatrix: ComparisonMatrixService;
+  private options: RecommendationOptions;
+
+  constructor(
+    db: Database,
+    llm: LLMClient,
+    cf: CollaborativeFilteringService = new CollaborativeFilteringService(null),
+    options: Partial<RecommendationOptions> = {}
+  ) {
     this.db = db;
+    this.llm = llm;
+    this.cf = cf;
+    this.comparisonMatrix = new ComparisonMatrixService(db);
+    this.options = { ...DEFAULT_RECOMMENDATION_OPTIONS, ...options };
   }
 
   /**
    * Analyze a user's preferences based on their rating history
    */
   async analyzeUserPreferences(userId: number): Promise<UserPreferences> {
-    console.log(`Analyzing preferences for user ${userId}`);
+    const { profile } = await this.getUserProfile(userId);
+    return profile;
+  }
+
+  /**
+   * The user's stored preference profile, rebuilt only when their ratings
+   * have changed since it was saved (or when `refresh` is set)
+   */
+  async getUserProfile(userId: number, refresh: boolean = false): Promise<{ profile: UserProfile; reused: boolean }> {
+    await this.db.initializeUserProfileTables();
+
+    const summary = await this.db.getUserRatingSummary(userId);
+    if (summary.count === 0) {
+      throw new Error(`User ${userId} has no ratings`);
+    }
+
+    const stored = refresh ? null : await this.db.getUserProfile(userId);
+    if (
+      stored &&
+      stored.ratingCount === summary.count &&
+      stored.latestRatingTimestamp === summary.latestTimestamp
+    ) {
+      return { profile: stored, reused: true };
+    }
 
-    // Get user's ratings
     const ratings = await this.db.getRatingsByUserId(userId);
+    const { preferences, model } = await this.runPreferenceAnalysis(userId, ratings);
+
+    const profile = await this.db.saveUserProfile({
+      ...preferences,
+      ratingCount: ratings.length,
+      latestRatingTimestamp: ratings.reduce((latest, r) => Math.max(latest, r.timestamp), 0),
+      model,
+      createdAt: new Date().toISOString()
+    });
+
+    return { profile, reused: false };
+  }
+
+  /**
+   * Every profile built for a user, oldest first
+   */
+  async getUserProfileHistory(userId: number): Promise<UserProfile[]> {
+    await this.db.initializeUserProfileTables();
+    return this.db.getUserProfileHistory(userId);
+  }
+
+  /**
+   * Analyze preferences from a given set of ratings, e.g. a training split
+   */
+  async analyzePreferencesFromRatings(userId: number, userRatings: Rating[]): Promise<UserPreferences> {
+    const { preferences } = await this.runPreferenceAnalysis(userId, userRatings);
+    return preferences;
+  }
+
+  private async runPreferenceAnalysis(
+    userId: number,
+    ratings: Rating[]
+  ): Promise<{ preferences: UserPreferences; model: string }> {
+    logger.info('Analyzing user preferences', { userId, ratings: ratings.length });
 
     if (ratings.length === 0) {
       throw new Error(`User ${userId} has no ratings`);
     }
 
-    // Get movies for rated items
-    const movieIds = ratings.map(r => r.movieId);
-    const movies = await this.db.getMoviesByIds(movieIds);
+    // Only the sampled movies are needed for context
+    const sample = sampleRatings(ratings);
+    const sampledIds = [...sample.topRated, ...sample.lowestRated, ...sample.recent].map(r => r.movieId);
+    const movies = await this.db.getMoviesByIds(sampledIds);
 
     // Build context for LLM
-    const ratedMoviesContext = ratings
-      .slice(0, 20) // Use top 20 for context
+    const toContext = (sampled: Rating[]) => sampled
       .map(rating => {
         const movie = movies.find(m => m.movieId === rating.movieId);
         return movie ? {
@@ -51,56 +214,52 @@ export class RecommendationService {
 
 User has rated ${ratings.length} movies with an average rating of ${avgRating.toFixed(2)}/5.0
 
-Sample of rated movies (showing rating and details):
-${JSON.stringify(ratedMoviesContext, null, 2)}
+The sample below is drawn from their whole history (showing rating and details).
+
+Highest-rated movies:
+${JSON.stringify(toContext(sample.topRated), null, 2)}
+
+Lowest-rated movies:
+${JSON.stringify(toContext(sample.lowestRated), null, 2)}
+
+Most recently rated movies:
+${JSON.stringify(toContext(sample.recent), null, 2)}
 
 Please provide a comprehensive analysis including:
 1. Favorite genres (top 3-5)
 2. Preferred emotional tones (e.g., "emotional, fast-paced, dark")
 3. Budget preference (High-budget blockbusters, Mid-budget, Indie/Low-budget, or Mixed)
-4. A brief summary (2-3 sentences) of this user's taste in movies
+4. A brief summary (2-3 sentences) of this user's taste in movies, including what they dislike
 
 Respond ONLY with valid JSON in this exact format:
 {
   "favoriteGenres": ["genre1", "genre2", "genre3"],
   "preferredEmotionalTones": ["tone1", "tone2"],
-  "budgetPreference": "High-budget|Mid-budget|Indie|Mixed",
+  "budgetPreference": "${BUDGET_PREFERENCES.join('|')}",
   "summary": "2-3 sentence summary of user's preferences"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert at analyzing movie preferences and user behavior. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3,
-      max_tokens: 800
-    });
-
-    const content = response.choices[0].message.content?.trim() || '{}';
-
-    try {
-      const parsed = JSON.parse(content);
-      return {
-        userId,
-        favoriteGenres: parsed.favoriteGenres || [],
-        averageRating: avgRating,
-        preferredEmotionalTones: parsed.preferredEmotionalTones || [],
-        budgetPreference: parsed.budgetPreference || 'Mixed',
-        summary: parsed.summary || 'User preferences could not be determined'
-      };
-    } catch (error) {
-      console.error('Error parsing LLM response:', content);
-      throw new Error('Failed to analyze user preferences');
-    }
+    const { value, response } = await this.llm.completeStructured('preferences', [
+      {
+        role: 'system',
+        content: 'You are an expert at analyzing movie preferences and user behavior. Always respond with valid JSON only.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], preferencesSchema);
+
+    const preferences: UserPreferences = {
+      userId,
+      favoriteGenres: value.favoriteGenres,
+      averageRating: avgRating,
+      preferredEmotionalTones: value.preferredEmotionalTones,
+      budgetPreference: value.budgetPreference,
+      summary: value.summary
+    };
+
+    return { preferences, model: response.model };
   }
 
   /**
@@ -109,49 +268,67 @@ Respond ONLY with valid JSON in this exact format:
   async getRecommendations(
     userId: number,
     count: number = 10,
-    filters?: string
+    filters?: RecommendationFilters
   ): Promise<Recommendation[]> {
-    console.log(`Generating ${count} recommendations for user ${userId}`);
+    // The stored profile is reused until the user's ratings change
+    reportProgress('preferences', 'Analyzing preferences');
+    const { profile } = await this.getUserProfile(userId);
+    const { version, ratingCount, latestRatingTimestamp, model, createdAt, ...preferences } = profile;
+
+    const userRatings = await this.db.getRatingsByUserId(userId);
+    return this.recommendFromRatings(userId, userRatings, preferences, count, filters);
+  }
 
-    // Get user preferences
-    const preferences = await this.analyzeUserPreferences(userId);
+  /**
+   * Generate recommendations from a given set of ratings and the preferences
+   * drawn from them, e.g. a training split
+   */
+  async recommendFromRatings(
+    userId: number,
+    userRatings: Rating[],
+    preferences: UserPreferences,
+    count: number = 10,
+    filters?: RecommendationFilters
+  ): Promise<Recommendation[]> {
+    logger.info('Generating recommendations', { userId, count, filters });
 
     // Get user's already-rated movies to exclude them
-    const userRatings = await this.db.getRatingsByUserId(userId);
     const ratedMovieIds = new Set(userRatings.map(r => r.movieId));
 
-    // Get enriched movies
-    const enrichedMovies = await this.db.getEnrichedMoviesWithDetails();
-
-    // Filter out already-rated movies
-    const candidateMovies = enrichedMovies.filter(m => !ratedMovieIds.has(m.movieId));
+    // Stage 1: retrieve and score candidates
+    reportProgress('candidates', 'Selecting candidates');
+    const shortlist = await this.selectCandidates(userRatings, ratedMovieIds, filters);
 
-    if (candidateMovies.length === 0) {
-      throw new Error('No unrated movies available for recommendations');
+    if (shortlist.length === 0) {
+      throw new Error(hasFilters(filters)
+        ? `No unrated movies match the filters (${describeRecommendationFilters(filters)})`
+        : 'No unrated movies available for recommendations');
     }
 
-    // Use LLM to rank and select recommendations
+    // Stage 2: use LLM to re-rank and explain the candidates
+    reportProgress('ranking', `Ranking ${shortlist.length} candidates`);
+    const candidateIds = new Set(shortlist.map(m => m.movieId));
     const prompt = `Generate ${count} personalized movie recommendations for a user with these preferences:
 
 User Preferences:
 ${JSON.stringify(preferences, null, 2)}
 
-Additional Filters: ${filters || 'None'}
+Filters: ${hasFilters(filters) ? `${describeRecommendationFilters(filters)} (already applied; every movie below satisfies them)` : 'None'}
 
 Available Movies (showing enriched data):
-${JSON.stringify(candidateMovies.slice(0, 50).map(m => ({
+${JSON.stringify(shortlist.map(m => ({
   movieId: m.movieId,
   title: m.title,
   genres: m.genres,
   overview: m.overview?.substring(0, 150),
   budget: m.budget,
   revenue: m.revenue,
-  awardPotential: m.awardPotential,
-  emotionalGenres: m.emotionalGenres,
-  popularityQualityIndex: m.popularityQualityIndex,
-  productionEffectivenessScore: m.productionEffectivenessScore
+  ...pickAttributes(m),
+  cfScore: m.cfScore
 })), null, 2)}
 
+cfScore (0-100, when present) is how strongly users with similar rating histories liked each movie.
+
 Select ${count} movies that best match the user's preferences. Consider:
 - Genre alignment
 - Emotional tone match
@@ -159,68 +336,170 @@ Select ${count} movies that best match the user's preferences. Consider:
 - Award potential if user rates highly-rated films
 - Production effectiveness and quality
 
-Respond ONLY with valid JSON array of recommended movie IDs and reasoning:
-[
-  {
-    "movieId": 123,
-    "score": 95,
-    "reasoning": "Brief explanation why this matches user preferences"
-  }
-]`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert movie recommendation system. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.5,
-      max_tokens: 1500
-    });
+Only use movieIds from the list above, and score each recommendation from 0 to 100.
 
-    const content = response.choices[0].message.content || '[]';
-
-    try {
-      const parsed = JSON.parse(content) as  { recommendations: Recommendation[] } ;
-
-      const recommendations: Recommendation[] = [];
-      parsed.recommendations.slice(0, count).forEach((rec: any) => {
-        const movie = candidateMovies.find(m => m.movieId === rec.movieId);
-        if (movie) {
-          recommendations.push({
-            movie,
-            score: rec.score || 0,
-            reasoning: rec.reasoning || 'Recommended based on your preferences'
-          });
-        }
-      });
-
-      return recommendations;
-    } catch (error) {
-      throw new Error('Failed to generate recommendations');
+Respond ONLY with valid JSON containing the recommended movie IDs and reasoning:
+{
+  "recommendations": [
+    {
+      "movieId": 123,
+      "score": 95,
+      "reasoning": "Brief explanation why this matches user preferences"
     }
+  ]
+}`;
+
+    const { value } = await this.llm.completeStructured('recommendations', [
+      {
+        role: 'system',
+        content: 'You are an expert movie recommendation system. Always respond with valid JSON only.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], recommendationsSchema(candidateIds, count), isStreaming() ? {
+      // Each recommendation goes out as soon as it is generated and valid
+      onToken: streamArrayItems('recommendations', recommendationItemSchema(candidateIds), rec => {
+        emitEvent('item', this.toRecommendation(rec, shortlist));
+      })
+    } : {});
+
+    return value
+      .map(rec => this.toRecommendation(rec, shortlist))
+      .sort((a, b) => b.score - a.score);
   }
 
   /**
-   * Natural language query interface
+   * Blend the LLM's score for a candidate with its collaborative filtering score
    */
-  async naturalLanguageQuery(query: string, userId?: number): Promise<any> {
-    console.log(`Processing natural language query: "${query}"`);
+  private toRecommendation(rec: RecommendationOutput, shortlist: Candidate[]): Recommendation {
+    const { cfScore, ...movie } = shortlist.find(m => m.movieId === rec.movieId)!;
+    const cfWeight = cfScore === null ? 0 : this.options.cfWeight;
+    const llmWeight = 1 - cfWeight;
+    const cfContribution = Number(((cfScore || 0) * cfWeight).toFixed(2));
+    const llmContribution = Number((rec.score * llmWeight).toFixed(2));
+
+    return {
+      movie,
+      score: Number((cfContribution + llmContribution).toFixed(2)),
+      reasoning: rec.reasoning,
+      scoreBreakdown: { cfScore, llmScore: rec.score, cfWeight, llmWeight, cfContribution, llmContribution }
+    };
+  }
+
+  /**
+   * Candidates come from the collaborative filtering model when one is
+   * loaded; otherwise fall back to the first enriched movies. Filters are
+   * applied in SQL first, so only matching movies reach the ranking.
+   */
+  private async selectCandidates(
+    userRatings: Rating[],
+    ratedMovieIds: Set<number>,
+    filters?: RecommendationFilters
+  ): Promise<Candidate[]> {
+    await this.db.initializeEnrichmentTable();
+
+    const allowed = hasFilters(filters) ? new Set(await this.db.getMovieIdsMatchingFilters(filters)) : null;
+    const isAllowed = (movieId: number) => allowed === null || allowed.has(movieId);
+
+    // Over-fetch since some rated movies may be missing from the catalog;
+    // with filters, rank every CF candidate and keep the matching ones
+    const cfCandidates = this.cf
+      .recommend(userRatings, allowed ? Number.MAX_SAFE_INTEGER : this.options.cfCandidates * 2, ratedMovieIds)
+      .filter(c => isAllowed(c.movieId))
+      .slice(0, this.options.cfCandidates * 2);
+
+    if (cfCandidates.length > 0) {
+      const movies = await this.db.getMoviesWithEnrichmentByIds(cfCandidates.map(c => c.movieId));
+      const candidates = cfCandidates
+        .map((c): Candidate | null => {
+          const movie = movies.find(m => m.movieId === c.movieId);
+          return movie ? { ...movie, cfScore: this.cf.toScore(c.predictedRating) } : null;
+        })
+        .filter((c): c is Candidate => c !== null)
+        .slice(0, this.options.cfCandidates);
+
+      if (candidates.length > 0) return candidates;
+    }
 
-    // Get enriched movies for context
     const enrichedMovies = await this.db.getEnrichedMoviesWithDetails();
 
+    return enrichedMovies
+      .filter(m => !ratedMovieIds.has(m.movieId) && isAllowed(m.movieId))
+      .slice(0, 50)
+      .map(m => ({ ...m, cfScore: null }));
+  }
+
+  /**
+   * Turn a phrase like "no horror, after 2000, high award potential" into
+   * structured recommendation filters
+   */
+  async parseFilters(text: string): Promise<ParsedRecommendationFilters> {
+    logger.info('Parsing recommendation filters', { text });
+
+    const prompt = `Convert this movie filter request into structured filters:
+"${text}"
+
+Available filters (omit any that the request doesn't mention):
+- includeGenres: genres the movie must have at least one of, e.g. ["Comedy", "Drama"]
+- excludeGenres: genres the movie must not have
+- yearFrom, yearTo: release year range, inclusive ("after 2000" means yearFrom 2001)
+- runtimeMin, runtimeMax: runtime in minutes
+- languages: ISO 639-1 codes, e.g. ["en", "fr"]
+- budgetTiers, revenueTiers: any of ${FINANCIAL_TIERS.join(', ')}
+- awardPotential: any of ${AWARD_POTENTIAL_LEVELS.join(', ')}
+- emotionalGenres: tones, any of ${EMOTIONAL_GENRES.join(', ')}
+- minEffectivenessScore: minimum production effectiveness score, 0-100
+
+Use standard TMDB genre names (e.g. "Science Fiction", "Horror", "Animation").
+List any part of the request that none of these filters can express in "unsupported" instead of guessing.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "filters": { "excludeGenres": ["Horror"], "yearFrom": 2001 },
+  "interpretation": "One sentence describing the filters as understood",
+  "unsupported": []
+}`;
+
+    const { value } = await this.llm.completeStructured('filters', [
+      {
+        role: 'system',
+        content: 'You translate movie filter requests into structured filters. Always respond with valid JSON only.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], filterParseSchema);
+
+    return { text, ...value };
+  }
+
+  /**
+   * Natural language query interface. With a conversation, earlier turns
+   * are sent along so follow-up questions can build on them.
+   */
+  async naturalLanguageQuery(query: string, userId?: number, conversation?: QueryConversation): Promise<QueryResult> {
+    logger.info('Processing natural language query', { query, followUp: conversation !== undefined });
+
+    // Get enriched movies for context, plus any the question refers to
+    reportProgress('context', 'Loading movie data');
+    const enrichedMovies: (Movie & Partial<MovieEnrichment>)[] = (await this.db.getEnrichedMoviesWithDetails()).slice(0, 100);
+    const missingReferences = (conversation?.references || [])
+      .map(r => r.movieId)
+      .filter(id => !enrichedMovies.some(m => m.movieId === id));
+    if (missingReferences.length > 0) {
+      enrichedMovies.push(...await this.db.getMoviesWithEnrichmentByIds(missingReferences));
+    }
+
     // If userId provided, get their preferences
     let userContext = '';
-    if (userId) {
+    if (conversation?.preferences) {
+      userContext = `\n\nUser Context (User ID: ${conversation.preferences.userId}):\n${JSON.stringify(conversation.preferences, null, 2)}`;
+    } else if (userId) {
       try {
+        reportProgress('preferences', 'Analyzing preferences');
         const preferences = await this.analyzeUserPreferences(userId);
         userContext = `\n\nUser Context (User ID: ${userId}):\n${JSON.stringify(preferences, null, 2)}`;
       } catch (error) {
@@ -228,13 +507,23 @@ Respond ONLY with valid JSON array of recommended movie IDs and reasoning:
       }
     }
 
+    let conversationContext = '';
+    if (conversation?.summary) {
+      conversationContext += `\n\nSummary of the earlier conversation:\n${conversation.summary}`;
+    }
+    if (conversation && conversation.references.length > 0) {
+      conversationContext += `\n\nThe query refers to these movies from earlier in the conversation:\n${conversation.references
+        .map(r => `- "${r.reference}" = ${r.title} (movieId ${r.movieId})`)
+        .join('\n')}`;
+    }
+
     const prompt = `You are a movie database assistant. Answer the following query using the available movie data.
 
 Query: "${query}"
-${userContext}
+${userContext}${conversationContext}
 
 Available Movies Database (showing enriched attributes):
-${JSON.stringify(enrichedMovies.slice(0, 100).map(m => ({
+${JSON.stringify(enrichedMovies.map(m => ({
   movieId: m.movieId,
   title: m.title,
   genres: m.genres,
@@ -243,11 +532,7 @@ ${JSON.stringify(enrichedMovies.slice(0, 100).map(m => ({
   revenue: m.revenue,
   runtime: m.runtime,
   releaseDate: m.releaseDate,
-  awardPotential: m.awardPotential,
-  emotionalGenres: m.emotionalGenres,
-  popularityQualityIndex: m.popularityQualityIndex,
-  productionCompanyRollingROI: m.productionCompanyRollingROI,
-  productionEffectivenessScore: m.productionEffectivenessScore
+  ...pickAttributes(m)
 })), null, 2)}
 
 Provide a helpful, detailed response to the query. You can:
@@ -256,57 +541,69 @@ Provide a helpful, detailed response to the query. You can:
 - Provide statistics or insights
 - Answer questions about genres, budgets, etc.
 
-Format your response in a clear, user-friendly way. You can return JSON or plain text, whichever is more appropriate for the query.`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful movie database assistant. Provide clear, informative responses to user queries about movies.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.4,
-      max_tokens: 1500
-    });
-
-    const content = response.choices[0].message.content?.trim() || '';
+Only cite movies from the database above, using their movieId.
 
-    // Try to parse as JSON, otherwise return as text
-    try {
-      return JSON.parse(content);
-    } catch {
-      return { response: content };
+Respond ONLY with valid JSON in this exact format:
+{
+  "answer": "Clear, user-friendly answer to the query",
+  "movies": [
+    {
+      "movieId": 123,
+      "title": "Movie Title",
+      "reason": "Why this movie is relevant to the answer"
     }
+  ]
+}`;
+
+    reportProgress('answering', 'Answering the query');
+    const knownIds = new Set(enrichedMovies.map(m => m.movieId));
+    const { value } = await this.llm.completeStructured('query', [
+      {
+        role: 'system',
+        content: 'You are a helpful movie database assistant. Provide clear, informative responses to user queries about movies. Always respond with valid JSON.'
+      },
+      ...(conversation?.history || []),
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], querySchema(knownIds), isStreaming() ? {
+      onToken: streamArrayItems('movies', queryMovieItemSchema(knownIds), movie => emitEvent('item', movie))
+    } : {});
+
+    return value;
   }
 
   /**
-   * Compare multiple movies
+   * Compare multiple movies. The figures (ROI, ratings, genre percentiles,
+   * ...) are computed in code; the LLM writes the narrative around them.
+   * Movies that aren't enriched yet are compared on their raw fields.
    */
-  async compareMovies(movieIds: number[], userId?: number): Promise<any> {
-    console.log(`Comparing movies: ${movieIds.join(', ')}`);
+  async compareMovies(movieIds: number[], userId?: number): Promise<MovieComparison> {
+    logger.info('Comparing movies', { movieIds });
 
     if (movieIds.length < 2) {
       throw new Error('At least 2 movies are required for comparison');
     }
 
-    // Get movies with enrichments
-    const enrichedMovies = await this.db.getEnrichedMoviesWithDetails();
-    const movies = enrichedMovies.filter(m => movieIds.includes(m.movieId));
-
-    if (movies.length !== movieIds.length) {
-      throw new Error('Some movies not found or not enriched');
+    await this.db.initializeEnrichmentTable();
+    const found = await this.db.getMoviesWithEnrichmentByIds(movieIds);
+    const missing = movieIds.filter(id => !found.some(m => m.movieId === id));
+    if (missing.length > 0) {
+      throw new Error(`Movies not found: ${missing.join(', ')}`);
     }
+    // Keep the requested order
+    const movies = movieIds.map(id => found.find(m => m.movieId === id)!);
+
+    reportProgress('metrics', 'Computing comparison metrics');
+    const matrix = await this.comparisonMatrix.buildMatrix(movies);
+    emitEvent('matrix', matrix);
 
     // Get user context if provided
     let userContext = '';
     if (userId) {
       try {
+        reportProgress('preferences', 'Analyzing preferences');
         const preferences = await this.analyzeUserPreferences(userId);
         userContext = `\n\nUser Preferences (for personalized comparison):\n${JSON.stringify(preferences, null, 2)}`;
       } catch (error) {
@@ -320,29 +617,32 @@ Movies to Compare:
 ${JSON.stringify(movies.map(m => ({
   movieId: m.movieId,
   title: m.title,
-  genres: m.genres,
   overview: m.overview,
-  budget: m.budget,
-  revenue: m.revenue,
-  runtime: m.runtime,
-  releaseDate: m.releaseDate,
-  awardPotential: m.awardPotential,
-  emotionalGenres: m.emotionalGenres,
-  popularityQualityIndex: m.popularityQualityIndex,
-  productionCompanyRollingROI: m.productionCompanyRollingROI,
-  productionEffectivenessScore: m.productionEffectivenessScore
+  ...pickAttributes(m)
 })), null, 2)}
+
+Comparison Metrics (computed from the catalog and user ratings):
+${JSON.stringify(matrix, null, 2)}
 ${userContext}
 
+Metrics notes:
+- Budget, revenue and runtime are null when unknown; profit = revenue - budget; roiPercent = profit / budget * 100; revenueToBudget = revenue / budget
+- ratings are user ratings on a 0.5-5.0 scale: count, mean, median and the number of ratings at each value
+- genrePercentiles rank each movie against all movies sharing that genre (0-100, higher means larger)
+- pairs compare two movies: releaseGapDays, runtimeDifference, profitDifference, roiPercentDifference and ratingMeanDifference are first minus second; budgetRatio and revenueRatio are first divided by second
+- missingAttributes lists enrichment attributes a movie has no value for; null attributes above are missing, not low
+
 Provide a comprehensive comparison including:
 1. Overview of each movie
 2. Key similarities and differences
-3. Budget and revenue comparison
-4. Award potential comparison
-5. Emotional tone differences
+3. Budget, revenue and ROI comparison
+4. How users rated each movie and how it ranks within its genres
+5. Award potential and emotional tone differences, where known
 6. Which movie might appeal to different types of viewers
 ${userId ? '7. Which movie would best suit this specific user based on their preferences' : ''}
 
+Cite figures exactly as given in the metrics and do not calculate new ones. Say when a figure or attribute is missing instead of guessing it.
+
 Respond with a detailed, structured comparison in JSON format:
 {
   "summary": "Brief overall comparison",
@@ -357,30 +657,20 @@ Respond with a detailed, structured comparison in JSON format:
   "recommendation": "If user context provided, which movie to choose and why"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert film critic and analyst. Provide detailed, insightful movie comparisons. Always respond with valid JSON.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.4,
-      max_tokens: 2000
-    });
-
-    const content = response.choices[0].message.content?.trim() || '{}';
+    reportProgress('comparing', `Comparing ${movies.length} movies`);
+    const { value } = await this.llm.completeStructured('compare', [
+      {
+        role: 'system',
+        content: 'You are an expert film critic and analyst. Provide detailed, insightful movie comparisons. Always respond with valid JSON.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], comparisonSchema(movieIds), isStreaming() ? {
+      onToken: streamArrayItems('movies', comparisonItemSchema(movieIds), movie => emitEvent('item', movie))
+    } : {});
 
-    try {
-      return JSON.parse(content);
-    } catch (error) {
-      console.error('Error parsing LLM response:', content);
-      throw new Error('Failed to compare movies');
-    }
+    return { ...value, matrix };
   }
 }
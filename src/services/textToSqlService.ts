@@ -0,0 +1,196 @@
+import Database, { ANALYTICS_RATINGS_SCHEMA } from '../config/database';
+import { LLMClient } from '../llm/llmClient';
+import { ChatMessage } from '../llm/llmProvider';
+import { sqlExplanationSchema, sqlQuerySchema } from '../llm/schemas';
+import { ENRICHMENT_ATTRIBUTES } from '../config/enrichmentAttributes';
+import { SqlQueryResult } from '../models/sqlQueryResult';
+import { SqlGuardOptions, withRowLimit } from '../utils/sqlGuard';
+import { logger } from '../config/logger';
+
+export interface TextToSqlOptions {
+  // Most rows a generated query may return
+  maxRows: number;
+  // Queries running longer than this are interrupted
+  timeoutMs: number;
+}
+
+const DEFAULT_TEXT_TO_SQL_OPTIONS: TextToSqlOptions = {
+  maxRows: 200,
+  timeoutMs: 5000
+};
+
+const QUERYABLE_TABLES = ['movies', 'movie_enrichments', 'ratings'];
+
+const SQL_GUARD: SqlGuardOptions = {
+  allowedTables: QUERYABLE_TABLES,
+  allowedSchemas: ['main', ANALYTICS_RATINGS_SCHEMA]
+};
+
+// Notes on how values are stored, shown next to the column list
+const COLUMN_NOTES: Record<string, Record<string, string>> = {
+  movies: {
+    genres: 'JSON array of {"id", "name"} objects; match a genre with genres LIKE \'%"Thriller"%\'',
+    productionCompanies: 'JSON array of {"id", "name"} objects',
+    releaseDate: 'text YYYY-MM-DD; use CAST(substr(releaseDate, 1, 4) AS INTEGER) for the year',
+    budget: 'USD, 0 when unknown',
+    revenue: 'USD, 0 when unknown',
+    runtime: 'minutes',
+    language: 'ISO 639-1 code, e.g. en'
+  },
+  ratings: {
+    rating: '0.5-5.0 in half stars',
+    timestamp: 'unix seconds'
+  },
+  movie_enrichments: Object.fromEntries(ENRICHMENT_ATTRIBUTES.map(attribute => {
+    const values = attribute.allowedValues ? `; values: ${attribute.allowedValues.join(', ')}` : '';
+    const tags = attribute.type === 'tags' ? ' (comma-separated, match with LIKE)' : '';
+    return [attribute.name, `${attribute.description}${tags}${values}`];
+  }))
+};
+
+// Rows shown to the model when it explains the result
+const EXPLANATION_SAMPLE_ROWS = 20;
+
+/**
+ * Answers analytics questions by having the LLM write a read-only SQL
+ * query over the movie, enrichment and rating tables, running it, and
+ * having the LLM explain the rows it returned.
+ */
+export class TextToSqlService {
+  private db: Database;
+  private llm: LLMClient;
+  private options: TextToSqlOptions;
+  private schemaDescription?: Promise<string>;
+
+  // Extra generations allowed when a valid-looking query fails to run
+  private static MAX_EXECUTION_RETRIES = 1;
+
+  constructor(db: Database, llm: LLMClient, options: Partial<TextToSqlOptions> = {}) {
+    this.db = db;
+    this.llm = llm;
+    this.options = { ...DEFAULT_TEXT_TO_SQL_OPTIONS, ...options };
+  }
+
+  async answer(question: string): Promise<SqlQueryResult> {
+    logger.info('Processing text-to-SQL query', { question });
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You translate questions about a movie database into a single read-only SQLite SELECT query. Always respond with valid JSON.'
+      },
+      {
+        role: 'user',
+        content: await this.buildPrompt(question)
+      }
+    ];
+
+    let rows: Record<string, unknown>[] = [];
+    let sql = '';
+
+    for (let attempt = 0; ; attempt++) {
+      const { value, response } = await this.llm.completeStructured('sql', messages, sqlQuerySchema(SQL_GUARD));
+      sql = value.sql;
+
+      try {
+        rows = await this.db.runAnalyticsQuery(withRowLimit(sql, this.options.maxRows + 1), this.options.timeoutMs);
+        break;
+      } catch (error: any) {
+        // Only SQLite's own errors (unknown column, bad syntax) are worth a second try
+        if (error?.code !== 'SQLITE_ERROR' || attempt >= TextToSqlService.MAX_EXECUTION_RETRIES) {
+          throw new Error(`Generated SQL failed: ${error.message}`);
+        }
+
+        logger.warn('Generated SQL failed, asking for a fix', { sql, error: error.message });
+        messages.push(
+          { role: 'assistant', content: response.content },
+          { role: 'user', content: `Running that query failed with: ${error.message}\nRespond with a corrected query in the same JSON format.` }
+        );
+      }
+    }
+
+    const truncated = rows.length > this.options.maxRows;
+    rows = rows.slice(0, this.options.maxRows);
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+    const explanation = await this.explain(question, sql, rows, truncated);
+
+    return { sql, explanation, columns, rows, rowCount: rows.length, truncated };
+  }
+
+  private async explain(
+    question: string,
+    sql: string,
+    rows: Record<string, unknown>[],
+    truncated: boolean
+  ): Promise<string> {
+    const prompt = `A user asked: "${question}"
+
+This SQL query was run to answer it:
+${sql}
+
+It returned ${rows.length}${truncated ? ' (truncated)' : ''} row(s)${rows.length > EXPLANATION_SAMPLE_ROWS ? `, the first ${EXPLANATION_SAMPLE_ROWS} of which are` : ''}:
+${JSON.stringify(rows.slice(0, EXPLANATION_SAMPLE_ROWS), null, 2)}
+
+Answer the question from these results in plain language, and briefly say how the query arrived at them (filters, grouping, any caveats such as movies with unknown budget or revenue being excluded). Do not invent figures that are not in the results.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "explanation": "Answer and explanation"
+}`;
+
+    const { value } = await this.llm.completeStructured('sqlExplanation', [
+      {
+        role: 'system',
+        content: 'You explain database query results to movie fans. Always respond with valid JSON.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], sqlExplanationSchema);
+
+    return value.explanation;
+  }
+
+  private async buildPrompt(question: string): Promise<string> {
+    return `Write one SQLite query that answers this question:
+"${question}"
+
+Tables:
+${await this.describeSchema()}
+
+Rules:
+- A single SELECT statement (WITH is allowed); no comments, no parameters
+- Only the tables above; ratings can be joined to movies on movieId
+- Use readable column aliases
+- At most ${this.options.maxRows} rows are returned, so aggregate or order the results accordingly
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "sql": "SELECT ..."
+}`;
+  }
+
+  /**
+   * Column listing for the queryable tables, read once from the database
+   * so it tracks registry-driven enrichment columns
+   */
+  private describeSchema(): Promise<string> {
+    if (!this.schemaDescription) {
+      this.schemaDescription = Promise.all(QUERYABLE_TABLES.map(async table => {
+        const columns = await this.db.getAnalyticsTableColumns(table);
+        if (columns.length === 0) return null;
+
+        const notes = COLUMN_NOTES[table] || {};
+        const lines = columns.map(c => `  - ${c.name} ${c.type}${notes[c.name] ? ` -- ${notes[c.name]}` : ''}`);
+        return `${table}\n${lines.join('\n')}`;
+      })).then(tables => tables.filter(Boolean).join('\n\n'));
+
+      this.schemaDescription.catch(() => {
+        this.schemaDescription = undefined;
+      });
+    }
+    return this.schemaDescription;
+  }
+}
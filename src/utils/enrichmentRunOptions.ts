@@ -0,0 +1,44 @@
+import { EnrichmentRunOptions } from '../models/enrichmentJob';
+import { ValidationResult, isObject } from '../llm/outputSchema';
+
+// Accepted range of each run option
+export const RUN_OPTION_LIMITS: Record<keyof EnrichmentRunOptions, { min: number; max: number }> = {
+  concurrency: { min: 1, max: 20 },
+  requestsPerMinute: { min: 0, max: 10000 },
+  maxRetries: { min: 0, max: 10 },
+  backoffBaseMs: { min: 0, max: 60000 },
+  batchSize: { min: 1, max: 10 }
+};
+
+/**
+ * Check run option overrides from a request, a script's flags or the
+ * environment. Every option is a whole number within RUN_OPTION_LIMITS;
+ * unknown fields are errors.
+ */
+export const validateEnrichmentRunOptions = (raw: unknown): ValidationResult<Partial<EnrichmentRunOptions>> => {
+  if (!isObject(raw)) {
+    return { errors: ['options must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const options: Partial<EnrichmentRunOptions> = {};
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (value === null || value === undefined) continue;
+
+    if (!Object.prototype.hasOwnProperty.call(RUN_OPTION_LIMITS, field)) {
+      errors.push(`options.${field} is not a run option (expected one of ${Object.keys(RUN_OPTION_LIMITS).join(', ')})`);
+      continue;
+    }
+
+    const { min, max } = RUN_OPTION_LIMITS[field as keyof EnrichmentRunOptions];
+    const number = typeof value === 'string' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+      errors.push(`options.${field} must be an integer between ${min} and ${max} (got ${JSON.stringify(value)})`);
+    } else {
+      options[field as keyof EnrichmentRunOptions] = number;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { errors, value: options };
+};
@@ -0,0 +1,222 @@
+import { Movie } from '../models/movie';
+import {
+  EnrichmentSampling,
+  SampleDistribution,
+  SamplingCandidate,
+  SamplingStrategy,
+  StratifyField
+} from '../models/enrichmentSampling';
+import { ValidationResult, isObject } from '../llm/outputSchema';
+import { parseGenres, releaseYear } from './movieFields';
+
+export const SAMPLING_STRATEGIES: SamplingStrategy[] = ['first', 'random', 'mostRated', 'stratified', 'ids'];
+export const STRATIFY_FIELDS: StratifyField[] = ['genre', 'decade', 'budgetTier', 'language'];
+
+// Most movies an id list may name, the same cap as a job's count
+export const MAX_SAMPLE_IDS = 200;
+
+// Nominal budget bounds, the enrichment prompt's rough guide without inflation
+const LOW_BUDGET_BELOW = 15_000_000;
+const HIGH_BUDGET_ABOVE = 75_000_000;
+
+const MAX_SEED = 2 ** 31 - 1;
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Check sampling options from a request or script flags. A random seed is
+ * filled in for random and stratified samples that don't give one, so the
+ * sample can be reproduced from the job's selection.
+ */
+export const validateEnrichmentSampling = (raw: unknown): ValidationResult<EnrichmentSampling> => {
+  if (!isObject(raw)) {
+    return { errors: ['sampling must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const known = ['strategy', 'stratifyBy', 'seed', 'minRatings', 'movieIds'];
+  Object.keys(raw)
+    .filter(field => !known.includes(field))
+    .forEach(field => errors.push(`sampling.${field} is not a sampling option (expected one of ${known.join(', ')})`));
+
+  const strategy = raw.strategy as SamplingStrategy;
+  if (!SAMPLING_STRATEGIES.includes(strategy)) {
+    return { errors: [...errors, `sampling.strategy must be one of ${SAMPLING_STRATEGIES.join(', ')} (got ${JSON.stringify(raw.strategy)})`] };
+  }
+  const sampling: EnrichmentSampling = { strategy };
+
+  if (strategy === 'stratified') {
+    if (!STRATIFY_FIELDS.includes(raw.stratifyBy as StratifyField)) {
+      errors.push(`sampling.stratifyBy must be one of ${STRATIFY_FIELDS.join(', ')} for stratified sampling`);
+    } else {
+      sampling.stratifyBy = raw.stratifyBy as StratifyField;
+    }
+  } else if (raw.stratifyBy !== undefined) {
+    errors.push('sampling.stratifyBy only applies to stratified sampling');
+  }
+
+  if (strategy === 'random' || strategy === 'stratified') {
+    if (raw.seed === undefined) {
+      sampling.seed = Math.floor(Math.random() * MAX_SEED);
+    } else if (!isWholeNumber(raw.seed, 0, MAX_SEED)) {
+      errors.push(`sampling.seed must be an integer between 0 and ${MAX_SEED}`);
+    } else {
+      sampling.seed = raw.seed;
+    }
+  } else if (raw.seed !== undefined) {
+    errors.push('sampling.seed only applies to random and stratified sampling');
+  }
+
+  if (strategy === 'ids') {
+    const ids = raw.movieIds;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => isWholeNumber(id, 1, Number.MAX_SAFE_INTEGER))) {
+      errors.push('sampling.movieIds must be a non-empty array of movie ids for ids sampling');
+    } else if (new Set(ids).size > MAX_SAMPLE_IDS) {
+      errors.push(`sampling.movieIds can name at most ${MAX_SAMPLE_IDS} movies`);
+    } else {
+      sampling.movieIds = Array.from(new Set(ids as number[]));
+    }
+    if (raw.minRatings !== undefined) {
+      errors.push('sampling.minRatings does not apply to ids sampling');
+    }
+  } else {
+    if (raw.movieIds !== undefined) {
+      errors.push('sampling.movieIds only applies to ids sampling');
+    }
+    if (raw.minRatings !== undefined) {
+      if (!isWholeNumber(raw.minRatings, 1, 1_000_000)) {
+        errors.push('sampling.minRatings must be a positive integer');
+      } else {
+        sampling.minRatings = raw.minRatings;
+      }
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { errors, value: sampling };
+};
+
+/**
+ * Deterministic generator of numbers in [0, 1) (mulberry32)
+ */
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * The stratum a movie falls in, e.g. "Drama", "1990s", "Medium" or "en"
+ */
+export const stratumOf = (
+  movie: Pick<Movie, 'genres' | 'releaseDate' | 'budget' | 'language'>,
+  field: StratifyField
+): string => {
+  switch (field) {
+    case 'genre':
+      return parseGenres(movie)[0] || 'Unknown';
+    case 'decade': {
+      const year = releaseYear(movie);
+      return year === null ? 'Unknown' : `${Math.floor(year / 10) * 10}s`;
+    }
+    case 'budgetTier':
+      if (!(movie.budget > 0)) return 'Unknown';
+      if (movie.budget < LOW_BUDGET_BELOW) return 'Low';
+      return movie.budget > HIGH_BUDGET_ABOVE ? 'High' : 'Medium';
+    case 'language':
+      return movie.language?.trim().toLowerCase() || 'unknown';
+  }
+};
+
+/**
+ * Choose up to `limit` of the candidates (given in catalog order). A
+ * stratified sample takes movies round-robin from each stratum in random
+ * order, so every stratum gets an equal share until it runs out.
+ */
+export const sampleCandidates = (
+  candidates: SamplingCandidate[],
+  sampling: EnrichmentSampling,
+  limit: number
+): number[] => {
+  const random = seededRandom(sampling.seed ?? 0);
+  let chosen: SamplingCandidate[];
+
+  switch (sampling.strategy) {
+    case 'random':
+      chosen = shuffle(candidates, random).slice(0, limit);
+      break;
+    case 'mostRated':
+      chosen = [...candidates].sort((a, b) => b.ratingCount - a.ratingCount || a.movieId - b.movieId).slice(0, limit);
+      break;
+    case 'stratified': {
+      const strata = new Map<string, SamplingCandidate[]>();
+      candidates.forEach(candidate => {
+        const stratum = stratumOf(candidate, sampling.stratifyBy!);
+        if (!strata.has(stratum)) strata.set(stratum, []);
+        strata.get(stratum)!.push(candidate);
+      });
+
+      // Strata in a seeded order too, so which ones get a spare slot isn't alphabetical
+      const queues = shuffle(Array.from(strata.keys()).sort(), random).map(key => shuffle(strata.get(key)!, random));
+      chosen = [];
+      for (let round = 0; chosen.length < limit && queues.some(queue => queue.length > round); round++) {
+        for (const queue of queues) {
+          if (chosen.length >= limit) break;
+          if (round < queue.length) chosen.push(queue[round]);
+        }
+      }
+      break;
+    }
+    default:
+      chosen = candidates.slice(0, limit);
+  }
+
+  return chosen.map(candidate => candidate.movieId);
+};
+
+const countBy = (values: string[]): Record<string, number> => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Object.fromEntries(
+    Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  );
+};
+
+/**
+ * Counts of the sampled movies per genre, decade, budget tier and language,
+ * and the spread of rating counts over those that have ratings
+ */
+export const describeSample = (movies: Movie[], ratingCounts: Map<number, number>): SampleDistribution => {
+  const counts = movies
+    .map(movie => ratingCounts.get(movie.movieId) || 0)
+    .filter(count => count > 0)
+    .sort((a, b) => a - b);
+
+  const middle = Math.floor(counts.length / 2);
+  const median = counts.length % 2 === 1 ? counts[middle] : (counts[middle - 1] + counts[middle]) / 2;
+
+  return {
+    movies: movies.length,
+    genre: countBy(movies.map(movie => stratumOf(movie, 'genre'))),
+    decade: countBy(movies.map(movie => stratumOf(movie, 'decade'))),
+    budgetTier: countBy(movies.map(movie => stratumOf(movie, 'budgetTier'))),
+    language: countBy(movies.map(movie => stratumOf(movie, 'language'))),
+    ratingCount: counts.length > 0
+      ? { min: counts[0], median, max: counts[counts.length - 1] }
+      : null
+  };
+};
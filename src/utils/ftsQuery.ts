@@ -0,0 +1,14 @@
+/**
+ * Turn free text into an FTS5 query: every word must match, the last one
+ * as a prefix so results show up while typing. Words are quoted, so FTS
+ * syntax in the input (AND, NEAR, "-", ":") is searched for literally.
+ * Null when the text has no searchable words.
+ */
+export const toFtsQuery = (text: string): string | null => {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+
+  return words
+    .map((word, i) => `"${word}"${i === words.length - 1 ? '*' : ''}`)
+    .join(' ');
+};
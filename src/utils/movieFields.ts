@@ -0,0 +1,35 @@
+import { Movie } from '../models/movie';
+
+/**
+ * Parse a list-valued movie column. The catalog stores these as JSON arrays
+ * of `{ id, name }` objects, but pipe-separated strings are accepted too.
+ */
+const parseNameList = (value: string | null | undefined): string[] => {
+  if (!value || value.trim() === '') return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed
+        .map((item: any) => (typeof item === 'string' ? item : item?.name || ''))
+        .filter((name: string) => name !== '');
+    }
+  } catch {
+    // Not JSON, fall through to pipe-separated
+  }
+
+  return value.split('|').map(v => v.trim()).filter(v => v !== '');
+};
+
+export const parseGenres = (movie: Pick<Movie, 'genres'>): string[] => {
+  return parseNameList(movie.genres);
+};
+
+export const parseCompanies = (movie: Pick<Movie, 'productionCompanies'>): string[] => {
+  return parseNameList(movie.productionCompanies);
+};
+
+export const releaseYear = (movie: Pick<Movie, 'releaseDate'>): number | null => {
+  const year = parseInt((movie.releaseDate || '').slice(0, 4), 10);
+  return isNaN(year) ? null : year;
+};
@@ -0,0 +1,73 @@
+import { QuerySessionMessage, QuerySessionMovie, ResolvedMovieReference } from '../models/querySession';
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+};
+
+const toNumber = (word: string): number => {
+  return NUMBER_WORDS[word] ?? ORDINAL_WORDS[word] ?? parseInt(word, 10);
+};
+
+// "the first two", "top 3"
+const RANGE_PATTERN = /\b(?:first|top)\s+(two|three|four|five|six|seven|eight|nine|ten|\d+)\b/g;
+// "the second one", "3rd", "#2", "number 4", "the last one"
+const ORDINAL_PATTERN = /\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last|\d+(?:st|nd|rd|th))\b|(?:#|\bnumber\s+)(\d+)\b/g;
+
+/**
+ * Resolve references in a follow-up question to movies cited earlier in a
+ * session. Ordinals ("the second one", "the first two", "#3") refer to the
+ * most recent answer that listed movies; titles match any movie cited so
+ * far. Each movie is resolved at most once, in order of appearance.
+ */
+export const resolveMovieReferences = (
+  question: string,
+  messages: QuerySessionMessage[]
+): ResolvedMovieReference[] => {
+  const answers = messages.filter(m => m.role === 'assistant' && m.movies.length > 0);
+  const lastList = answers.length > 0 ? answers[answers.length - 1].movies : [];
+
+  const found: (ResolvedMovieReference & { position: number })[] = [];
+  const add = (movie: QuerySessionMovie | undefined, reference: string, position: number) => {
+    if (movie && !found.some(f => f.movieId === movie.movieId)) {
+      found.push({ movieId: movie.movieId, title: movie.title, reference, position });
+    }
+  };
+
+  let text = question.toLowerCase();
+
+  for (const match of text.matchAll(RANGE_PATTERN)) {
+    const count = toNumber(match[1]);
+    lastList.slice(0, count).forEach(movie => add(movie, match[0], match.index!));
+  }
+  // Blank out ranges so "first two" isn't read again as "first"
+  text = text.replace(RANGE_PATTERN, match => ' '.repeat(match.length));
+
+  for (const match of text.matchAll(ORDINAL_PATTERN)) {
+    const word = match[1] || match[2];
+    const index = word === 'last' ? lastList.length - 1 : toNumber(word.replace(/(st|nd|rd|th)$/, '')) - 1;
+    add(lastList[index], match[0].trim(), match.index!);
+  }
+
+  // Most recent mention of each movie first, so a repeated title resolves to its latest listing
+  const mentioned = new Map<number, QuerySessionMovie>();
+  for (const answer of [...answers].reverse()) {
+    answer.movies.forEach(movie => {
+      if (!mentioned.has(movie.movieId)) mentioned.set(movie.movieId, movie);
+    });
+  }
+
+  const lowered = question.toLowerCase();
+  for (const movie of mentioned.values()) {
+    const title = movie.title.toLowerCase();
+    const position = title.length >= 3 ? lowered.indexOf(title) : -1;
+    if (position >= 0) add(movie, movie.title, position);
+  }
+
+  return found
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, ...reference }) => reference);
+};
@@ -0,0 +1,52 @@
+import { Rating } from '../models/rating';
+import { ValidationResult, isObject } from '../llm/outputSchema';
+
+export type RatingInput = Omit<Rating, 'ratingId'>;
+
+export const MIN_RATING = 0.5;
+export const MAX_RATING = 5.0;
+
+const isPositiveInteger = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+};
+
+/**
+ * Ratings use the dataset's half-star scale
+ */
+export const validateRatingValue = (value: unknown, path: string = 'rating'): ValidationResult<number> => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { errors: [`${path} must be a number`] };
+  }
+  if (value < MIN_RATING || value > MAX_RATING || !Number.isInteger(value * 2)) {
+    return { errors: [`${path} must be between ${MIN_RATING} and ${MAX_RATING} in steps of 0.5 (got ${value})`] };
+  }
+  return { errors: [], value };
+};
+
+/**
+ * Check one entry of a bulk import. The timestamp (unix seconds) is
+ * optional and defaults to `now`; it may not be in the future.
+ */
+export const validateRatingInput = (raw: unknown, path: string, now: number): ValidationResult<RatingInput> => {
+  if (!isObject(raw)) {
+    return { errors: [`${path} must be an object`] };
+  }
+
+  const errors: string[] = [];
+  if (!isPositiveInteger(raw.userId)) errors.push(`${path}.userId must be a positive integer`);
+  if (!isPositiveInteger(raw.movieId)) errors.push(`${path}.movieId must be a positive integer`);
+
+  const rating = validateRatingValue(raw.rating, `${path}.rating`);
+  errors.push(...rating.errors);
+
+  const timestamp = raw.timestamp ?? now;
+  if (!isPositiveInteger(timestamp) || timestamp > now) {
+    errors.push(`${path}.timestamp must be a unix time in seconds, not in the future`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    errors,
+    value: { userId: raw.userId as number, movieId: raw.movieId as number, rating: rating.value!, timestamp: timestamp as number }
+  };
+};
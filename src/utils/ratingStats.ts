@@ -0,0 +1,32 @@
+import { RatingStats } from '../models/comparisonMatrix';
+
+// The half-star scale, 0.5 to 5.0
+const RATING_VALUES = Array.from({ length: 10 }, (_, i) => (i + 1) / 2);
+
+/**
+ * Count, mean, median and distribution of a movie's ratings, from the
+ * number of ratings at each value
+ */
+export const ratingStats = (counts: Map<number, number>): RatingStats => {
+  const distribution = Object.fromEntries(RATING_VALUES.map(v => [v.toFixed(1), counts.get(v) || 0]));
+  const count = [...counts.values()].reduce((sum, c) => sum + c, 0);
+  if (count === 0) {
+    return { count, mean: null, median: null, distribution };
+  }
+
+  const total = [...counts.entries()].reduce((sum, [rating, c]) => sum + rating * c, 0);
+
+  // The k-th smallest rating (0-based), read off the sorted distribution
+  const sorted = [...counts.entries()].sort((a, b) => a[0] - b[0]);
+  const nth = (k: number): number => {
+    let seen = 0;
+    for (const [rating, c] of sorted) {
+      seen += c;
+      if (k < seen) return rating;
+    }
+    return sorted[sorted.length - 1][0];
+  };
+  const median = count % 2 === 1 ? nth((count - 1) / 2) : (nth(count / 2 - 1) + nth(count / 2)) / 2;
+
+  return { count, mean: Number((total / count).toFixed(2)), median, distribution };
+};
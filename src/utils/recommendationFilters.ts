@@ -0,0 +1,123 @@
+import { RecommendationFilters } from '../models/recommendationFilters';
+import { ValidationResult, isObject } from '../llm/outputSchema';
+import { AWARD_POTENTIAL_LEVELS, EMOTIONAL_GENRES, FINANCIAL_TIERS } from '../config/enrichmentAttributes';
+
+type ListField = 'includeGenres' | 'excludeGenres' | 'languages' | 'budgetTiers' | 'revenueTiers' | 'awardPotential' | 'emotionalGenres';
+type NumberField = 'yearFrom' | 'yearTo' | 'runtimeMin' | 'runtimeMax' | 'minEffectivenessScore';
+
+// Allowed values per list field; free-form fields (genres, languages) have none
+const LIST_FIELDS: Record<ListField, readonly string[] | null> = {
+  includeGenres: null,
+  excludeGenres: null,
+  languages: null,
+  budgetTiers: FINANCIAL_TIERS,
+  revenueTiers: FINANCIAL_TIERS,
+  awardPotential: AWARD_POTENTIAL_LEVELS,
+  emotionalGenres: EMOTIONAL_GENRES
+};
+
+const NUMBER_FIELDS: Record<NumberField, { min: number; max: number }> = {
+  yearFrom: { min: 1870, max: 2100 },
+  yearTo: { min: 1870, max: 2100 },
+  runtimeMin: { min: 0, max: 1000 },
+  runtimeMax: { min: 0, max: 1000 },
+  minEffectivenessScore: { min: 0, max: 100 }
+};
+
+const hasOwn = (object: object, field: string): boolean => Object.prototype.hasOwnProperty.call(object, field);
+
+/**
+ * Check and normalize a filter object from a request or the filter parser.
+ * Unknown fields are errors so typos don't silently widen the results;
+ * null and empty values are dropped.
+ */
+export const validateRecommendationFilters = (raw: unknown): ValidationResult<RecommendationFilters> => {
+  if (!isObject(raw)) {
+    return { errors: ['filters must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const filters: RecommendationFilters = {};
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (value === null || value === undefined) continue;
+
+    if (hasOwn(LIST_FIELDS, field)) {
+      const allowed = LIST_FIELDS[field as ListField];
+      const values = typeof value === 'string' ? value.split(',') : value;
+      if (!Array.isArray(values) || values.some(v => typeof v !== 'string')) {
+        errors.push(`filters.${field} must be an array of strings`);
+        continue;
+      }
+
+      const normalized = values.map(v => v.trim()).filter(v => v !== '').map(v => {
+        if (field === 'languages') return v.toLowerCase();
+        if (!allowed) return v;
+        const match = allowed.find(a => a.toLowerCase() === v.toLowerCase());
+        if (!match) errors.push(`filters.${field} values must be one of ${allowed.join(', ')} (got "${v}")`);
+        return match || v;
+      });
+      if (normalized.length > 0) {
+        filters[field as ListField] = Array.from(new Set(normalized));
+      }
+    } else if (hasOwn(NUMBER_FIELDS, field)) {
+      const range = NUMBER_FIELDS[field as NumberField];
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push(`filters.${field} must be a number`);
+      } else if (number < range.min || number > range.max) {
+        errors.push(`filters.${field} must be between ${range.min} and ${range.max} (got ${number})`);
+      } else {
+        filters[field as NumberField] = number;
+      }
+    } else {
+      errors.push(`filters.${field} is not a known filter (expected one of ${[...Object.keys(LIST_FIELDS), ...Object.keys(NUMBER_FIELDS)].join(', ')})`);
+    }
+  }
+
+  if (filters.yearFrom !== undefined && filters.yearTo !== undefined && filters.yearFrom > filters.yearTo) {
+    errors.push('filters.yearFrom must not be after filters.yearTo');
+  }
+  if (filters.runtimeMin !== undefined && filters.runtimeMax !== undefined && filters.runtimeMin > filters.runtimeMax) {
+    errors.push('filters.runtimeMin must not be greater than filters.runtimeMax');
+  }
+  const excluded = new Set((filters.excludeGenres || []).map(g => g.toLowerCase()));
+  const conflicting = (filters.includeGenres || []).filter(g => excluded.has(g.toLowerCase()));
+  if (conflicting.length > 0) {
+    errors.push(`filters include and exclude the same genre(s): ${conflicting.join(', ')}`);
+  }
+
+  return errors.length > 0 ? { errors } : { errors, value: filters };
+};
+
+export const hasFilters = (filters: RecommendationFilters | undefined): filters is RecommendationFilters => {
+  return filters !== undefined && Object.keys(filters).length > 0;
+};
+
+/**
+ * Plain-language summary of the filters, e.g. for prompts and API responses
+ */
+export const describeRecommendationFilters = (filters: RecommendationFilters): string => {
+  const parts: string[] = [];
+  const list = (values: string[]) => values.join(' or ');
+
+  if (filters.includeGenres) parts.push(`genre ${list(filters.includeGenres)}`);
+  if (filters.excludeGenres) parts.push(`no ${filters.excludeGenres.join(', ')}`);
+  if (filters.yearFrom !== undefined && filters.yearTo !== undefined) {
+    parts.push(`released ${filters.yearFrom}-${filters.yearTo}`);
+  } else if (filters.yearFrom !== undefined) {
+    parts.push(`released in or after ${filters.yearFrom}`);
+  } else if (filters.yearTo !== undefined) {
+    parts.push(`released in or before ${filters.yearTo}`);
+  }
+  if (filters.runtimeMin !== undefined) parts.push(`at least ${filters.runtimeMin} minutes`);
+  if (filters.runtimeMax !== undefined) parts.push(`at most ${filters.runtimeMax} minutes`);
+  if (filters.languages) parts.push(`language ${list(filters.languages)}`);
+  if (filters.budgetTiers) parts.push(`${list(filters.budgetTiers)} budget`);
+  if (filters.revenueTiers) parts.push(`${list(filters.revenueTiers)} revenue`);
+  if (filters.awardPotential) parts.push(`${list(filters.awardPotential)} award potential`);
+  if (filters.emotionalGenres) parts.push(`tone ${list(filters.emotionalGenres)}`);
+  if (filters.minEffectivenessScore !== undefined) parts.push(`production effectiveness of at least ${filters.minEffectivenessScore}`);
+
+  return parts.length > 0 ? parts.join('; ') : 'no filters';
+};
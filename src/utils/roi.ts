@@ -0,0 +1,22 @@
+import { Movie } from '../models/movie';
+
+// Previous releases averaged into a company's rolling ROI
+export const ROLLING_ROI_WINDOW = 10;
+
+/**
+ * Return on investment in percent; null unless both figures are known
+ * (the catalog stores unknown budgets and revenues as 0)
+ */
+export const roiPercent = (movie: Pick<Movie, 'budget' | 'revenue'>): number | null => {
+  return movie.budget > 0 && movie.revenue > 0
+    ? ((movie.revenue - movie.budget) / movie.budget) * 100
+    : null;
+};
+
+/**
+ * Mean ROI of the movies with known figures, null if there are none
+ */
+export const averageRoi = (movies: Pick<Movie, 'budget' | 'revenue'>[]): number | null => {
+  const rois = movies.map(roiPercent).filter((roi): roi is number => roi !== null);
+  return rois.length > 0 ? rois.reduce((sum, roi) => sum + roi, 0) / rois.length : null;
+};
@@ -0,0 +1,264 @@
+type TokenType = 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  // Words are upper-cased; quoted identifiers keep their case without the quotes
+  value: string;
+}
+
+export interface SqlGuardOptions {
+  // Table names the query may read from, matched case-insensitively
+  allowedTables: string[];
+  // Schema qualifiers accepted in front of a table name, e.g. main.movies
+  allowedSchemas?: string[];
+}
+
+export interface SqlGuardResult {
+  // The statement without its trailing semicolon
+  sql: string;
+  errors: string[];
+}
+
+// Anything that writes, changes the schema or touches the connection
+const FORBIDDEN_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'UPSERT', 'MERGE',
+  'CREATE', 'DROP', 'ALTER', 'TRUNCATE', 'RENAME',
+  'PRAGMA', 'ATTACH', 'DETACH', 'VACUUM', 'REINDEX', 'ANALYZE',
+  'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'TRANSACTION',
+  'GRANT', 'REVOKE', 'EXPLAIN', 'INDEXED'
+]);
+
+const FORBIDDEN_FUNCTIONS = new Set([
+  'LOAD_EXTENSION', 'READFILE', 'WRITEFILE', 'EDIT', 'FTS3_TOKENIZER', 'RANDOMBLOB', 'ZEROBLOB'
+]);
+
+// Words that end a FROM list or follow a table reference instead of an alias
+const CLAUSE_KEYWORDS = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'WINDOW', 'UNION', 'INTERSECT', 'EXCEPT',
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'OUTER', 'ON', 'USING'
+]);
+
+const tokenize = (sql: string): { tokens: Token[]; errors: string[] } => {
+  const tokens: Token[] = [];
+  const errors: string[] = [];
+  let i = 0;
+
+  const readQuoted = (close: string): string | null => {
+    let value = '';
+    i++;
+    while (i < sql.length) {
+      if (sql[i] === close) {
+        // A doubled quote is an escaped quote
+        if (close !== ']' && sql[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      value += sql[i++];
+    }
+    return null;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (sql.startsWith('--', i) || sql.startsWith('/*', i)) {
+      errors.push('SQL comments are not allowed');
+      break;
+    } else if (char === "'") {
+      const value = readQuoted("'");
+      if (value === null) {
+        errors.push('Unterminated string literal');
+        break;
+      }
+      tokens.push({ type: 'string', value });
+    } else if (char === '"' || char === '`' || char === '[') {
+      const value = readQuoted(char === '[' ? ']' : char);
+      if (value === null) {
+        errors.push('Unterminated quoted identifier');
+        break;
+      }
+      tokens.push({ type: 'identifier', value });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)![0];
+      tokens.push({ type: 'word', value: match.toUpperCase() });
+      i += match.length;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] || ''))) {
+      const match = sql.slice(i).match(/^(0x[0-9A-Fa-f]+|[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?)/i)![0];
+      tokens.push({ type: 'number', value: match });
+      i += match.length;
+    } else if ('?:@$'.includes(char)) {
+      errors.push('Bound parameters are not allowed; inline literal values instead');
+      break;
+    } else {
+      const match = sql.slice(i).match(/^(<>|<=|>=|==|!=|\|\||<<|>>|[-+*/%<>=(),.;~&|])/);
+      if (!match) {
+        errors.push(`Unexpected character '${char}'`);
+        break;
+      }
+      tokens.push({ type: 'symbol', value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return { tokens, errors };
+};
+
+const isName = (token: Token | undefined): boolean => {
+  return token !== undefined && (token.type === 'word' || token.type === 'identifier');
+};
+
+const isSymbol = (token: Token | undefined, symbol: string): boolean => {
+  return token !== undefined && token.type === 'symbol' && token.value === symbol;
+};
+
+const isWord = (token: Token | undefined, word: string): boolean => {
+  return token !== undefined && token.type === 'word' && token.value === word;
+};
+
+/**
+ * Names introduced by WITH, which the rest of the query may select from
+ * like tables: `WITH name [(columns)] AS (...)`
+ */
+const collectCteNames = (tokens: Token[]): Set<string> => {
+  const names = new Set<string>();
+
+  tokens.forEach((token, i) => {
+    const previous = tokens[i - 1];
+    if (!isName(token) || !(isWord(previous, 'WITH') || isWord(previous, 'RECURSIVE') || isSymbol(previous, ','))) {
+      return;
+    }
+
+    let next = i + 1;
+    if (isSymbol(tokens[next], '(')) {
+      while (next < tokens.length && !isSymbol(tokens[next], ')')) next++;
+      next++;
+    }
+    if (isWord(tokens[next], 'AS') && (isSymbol(tokens[next + 1], '(') || isWord(tokens[next + 1], 'MATERIALIZED') || isWord(tokens[next + 1], 'NOT'))) {
+      names.add(token.value.toUpperCase());
+    }
+  });
+
+  return names;
+};
+
+/**
+ * Check that a model-written query is a single read-only SELECT over an
+ * allow-list of tables. This is an allow-list over a token stream rather
+ * than a full SQL parser: anything it can't vouch for is rejected, and the
+ * errors are phrased so they can be handed back to the model.
+ */
+export const validateReadOnlySql = (input: string, options: SqlGuardOptions): SqlGuardResult => {
+  const allowedTables = new Set(options.allowedTables.map(t => t.toUpperCase()));
+  const allowedSchemas = new Set((options.allowedSchemas || ['main']).map(s => s.toUpperCase()));
+  const sql = input.trim().replace(/;\s*$/, '').trim();
+
+  const { tokens, errors } = tokenize(sql);
+  if (errors.length > 0) return { sql, errors };
+
+  if (tokens.length === 0) {
+    return { sql, errors: ['sql must not be empty'] };
+  }
+  if (!isWord(tokens[0], 'SELECT') && !isWord(tokens[0], 'WITH')) {
+    errors.push('Only SELECT queries (optionally starting with WITH) are allowed');
+  }
+  if (tokens.some(t => isSymbol(t, ';'))) {
+    errors.push('Only a single statement is allowed');
+  }
+
+  const cteNames = collectCteNames(tokens);
+  let depth = 0;
+
+  const checkTable = (start: number): number => {
+    let index = start;
+    const first = tokens[index];
+
+    // Subquery in FROM or JOIN
+    if (isSymbol(first, '(')) return index;
+
+    if (!isName(first)) {
+      errors.push('Expected a table name after FROM/JOIN/IN');
+      return index;
+    }
+
+    let schema: string | null = null;
+    let table = first.value.toUpperCase();
+    if (isSymbol(tokens[index + 1], '.') && isName(tokens[index + 2])) {
+      schema = table;
+      table = tokens[index + 2].value.toUpperCase();
+      index += 2;
+    }
+
+    if (isSymbol(tokens[index + 1], '(')) {
+      errors.push(`Table-valued function ${table.toLowerCase()}() is not allowed`);
+    } else if (schema !== null && !allowedSchemas.has(schema)) {
+      errors.push(`Schema '${schema.toLowerCase()}' is not allowed`);
+    } else if (!allowedTables.has(table) && !(schema === null && cteNames.has(table))) {
+      errors.push(`Table '${table.toLowerCase()}' is not allowed (allowed: ${options.allowedTables.join(', ')})`);
+    }
+
+    return index + 1;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (isSymbol(token, '(')) depth++;
+    if (isSymbol(token, ')')) depth--;
+
+    if (token.type !== 'word') continue;
+
+    // replace() the string function is fine; REPLACE INTO is not
+    if (FORBIDDEN_KEYWORDS.has(token.value) && !(token.value === 'REPLACE' && isSymbol(tokens[i + 1], '('))) {
+      errors.push(`${token.value} is not allowed`);
+    }
+    if (FORBIDDEN_FUNCTIONS.has(token.value) && isSymbol(tokens[i + 1], '(')) {
+      errors.push(`Function ${token.value.toLowerCase()}() is not allowed`);
+    }
+    if (token.value.startsWith('SQLITE_')) {
+      errors.push(`Internal object ${token.value.toLowerCase()} is not allowed`);
+    }
+
+    // `expr IN table` (no parentheses) tests membership against a whole table
+    if (token.value === 'JOIN' || (token.value === 'IN' && isName(tokens[i + 1]))) {
+      checkTable(i + 1);
+    } else if (token.value === 'FROM' && !isWord(tokens[i - 1], 'DISTINCT')) {
+      // FROM a [AS x], b [y], ... -- each top-level comma-separated entry is a table
+      let index = checkTable(i + 1);
+      let nested = 0;
+
+      while (index < tokens.length) {
+        const current = tokens[index];
+        if (isSymbol(current, '(')) nested++;
+        if (isSymbol(current, ')')) {
+          if (nested === 0) break;
+          nested--;
+        }
+        if (nested === 0 && current.type === 'word' && CLAUSE_KEYWORDS.has(current.value)) break;
+        if (nested === 0 && isSymbol(current, ',')) {
+          index = checkTable(index + 1);
+          continue;
+        }
+        index++;
+      }
+    }
+  }
+
+  if (depth !== 0) {
+    errors.push('Unbalanced parentheses');
+  }
+
+  return { sql, errors: [...new Set(errors)] };
+};
+
+/**
+ * Cap the rows a validated query can return, whatever LIMIT it carries itself
+ */
+export const withRowLimit = (sql: string, maxRows: number): string => {
+  return `SELECT * FROM (\n${sql}\n) LIMIT ${Math.max(1, Math.floor(maxRows))}`;
+};
@@ -0,0 +1,59 @@
+import { Response } from 'express';
+import { getRequestContext } from '../config/requestContext';
+
+// Comment lines sent while nothing else is, so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  end(): void;
+  // The client went away; further events are dropped
+  readonly closed: boolean;
+}
+
+/**
+ * Switch a response to a Server-Sent Events stream and route the request
+ * context's events (progress, token, item) to it. Work already under way
+ * is not aborted when the client disconnects; its events are just dropped.
+ */
+export const openEventStream = (res: Response): EventStream => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop nginx from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    closed = true;
+    clearInterval(heartbeat);
+  };
+  // The request's own 'close' fires once its body is read, so watch the response
+  res.on('close', close);
+
+  const stream: EventStream = {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      if (closed) return;
+      close();
+      res.end();
+    },
+    get closed() {
+      return closed;
+    }
+  };
+
+  const context = getRequestContext();
+  if (context) {
+    context.events = stream.send;
+  }
+
+  return stream;
+};